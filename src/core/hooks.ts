@@ -0,0 +1,252 @@
+import type { Recipe } from "./recipes";
+import type { EditorState, OperationType, PairType, Position, Range, RecipePairType, TextEdit } from "./types";
+
+/**
+ * Document and cursor given to the functions of a hook
+ */
+export type HookContext = {
+  operation: OperationType;
+  /** Language identifier of the document */
+  languageId?: string;
+  documentText: string;
+  cursorPosition: Position;
+  selection: Range;
+  getLineText: (lineNumber: number) => string;
+};
+
+/**
+ * Context of a pair computed by a hook, with the range the pair is put around
+ */
+export type HookPairContext = HookContext & {
+  range: Range;
+  /** Text of the range */
+  text: string;
+};
+
+/**
+ * Opening and closing text of a pair
+ */
+export type HookBuns = readonly [string, string];
+
+/**
+ * Pair registered by a hook
+ */
+export type HookPair = {
+  /** Key that picks the pair */
+  key: string;
+  description?: string;
+  /** Languages offering the pair; every language if omitted */
+  languages?: readonly string[];
+  /**
+   * Opening and closing text, or a function computing them when the pair is added; nothing is added if it gives undefined
+   * Fixed buns are also found around the cursor like a recipe, while computed buns can only be added.
+   */
+  buns: HookBuns | ((context: HookPairContext) => HookBuns | undefined | Promise<HookBuns | undefined>);
+};
+
+/**
+ * Range type registered by a hook, offered when adding a pair
+ */
+export type HookRangeType = {
+  /** Key that picks the range type */
+  key: string;
+  description?: string;
+  /** Languages offering the range type; every language if omitted */
+  languages?: readonly string[];
+  /** Computes the range to add the pair around; nothing is added if it gives undefined */
+  select: (context: HookContext) => Range | undefined | Promise<Range | undefined>;
+};
+
+/**
+ * Context of a text edit transform, with the pairs of the operation
+ */
+export type TextEditTransformContext = HookContext & {
+  destinationPair: PairType;
+  sourcePair?: PairType;
+};
+
+/**
+ * Function changing the text edits of an operation before they are applied; undefined keeps the edits
+ */
+export type TextEditTransform = (
+  edits: TextEdit[],
+  context: TextEditTransformContext
+) => TextEdit[] | undefined | Promise<TextEdit[] | undefined>;
+
+/**
+ * API given to a hook module
+ */
+export type SandwichHookApi = {
+  registerPair: (pair: HookPair) => void;
+  registerRangeType: (rangeType: HookRangeType) => void;
+  registerTextEditTransform: (transform: TextEditTransform) => void;
+};
+
+/**
+ * What the hook modules registered
+ */
+export type SandwichHooks = {
+  pairs: readonly HookPair[];
+  rangeTypes: readonly HookRangeType[];
+  transforms: readonly TextEditTransform[];
+};
+
+/**
+ * Hooks of a workspace without hook modules
+ */
+export const NO_HOOKS: SandwichHooks = { pairs: [], rangeTypes: [], transforms: [] };
+
+const OPERATIONS: readonly OperationType[] = ["add", "delete", "replace"];
+
+/**
+ * Checks whether a value is a non-empty string
+ */
+const isKey = (value: unknown): value is string => {
+  return typeof value === "string" && value !== "";
+};
+
+/**
+ * Checks whether a value is an opening and closing text
+ */
+const isBuns = (value: unknown): value is HookBuns => {
+  return Array.isArray(value) && value.length === 2 && value.every(isKey);
+};
+
+/**
+ * Gets the function a hook module exports
+ * The module exports an activate function, or is the function itself (module.exports = (sandwich) => {...}).
+ */
+const getActivateFunction = (hookModule: unknown): unknown => {
+  if (typeof hookModule !== "object" || hookModule === null) {
+    return hookModule;
+  }
+
+  return "activate" in hookModule ? hookModule.activate : "default" in hookModule ? hookModule.default : undefined;
+};
+
+/**
+ * Runs a hook module, collecting what it registers
+ * @throws If the module exports no function or registers something invalid
+ */
+export const activateHookModule = async (hookModule: unknown): Promise<SandwichHooks> => {
+  const activate = getActivateFunction(hookModule);
+  if (typeof activate !== "function") {
+    throw new Error("The hook module must export an activate function");
+  }
+
+  const pairs: HookPair[] = [];
+  const rangeTypes: HookRangeType[] = [];
+  const transforms: TextEditTransform[] = [];
+  const api: SandwichHookApi = {
+    registerPair: (pair) => {
+      if (!isKey(pair.key) || !(typeof pair.buns === "function" || isBuns(pair.buns))) {
+        throw new Error("registerPair requires a key and buns of two texts or a function");
+      }
+      pairs.push(pair);
+    },
+    registerRangeType: (rangeType) => {
+      if (!isKey(rangeType.key) || typeof rangeType.select !== "function") {
+        throw new Error("registerRangeType requires a key and a select function");
+      }
+      rangeTypes.push(rangeType);
+    },
+    registerTextEditTransform: (transform) => {
+      if (typeof transform !== "function") {
+        throw new Error("registerTextEditTransform requires a function");
+      }
+      transforms.push(transform);
+    },
+  };
+
+  await (activate as (api: SandwichHookApi) => unknown)(api);
+  return { pairs, rangeTypes, transforms };
+};
+
+/**
+ * Merges the hooks of several modules, in the order of the modules
+ */
+export const mergeHooks = (hooksList: readonly SandwichHooks[]): SandwichHooks => {
+  return {
+    pairs: hooksList.flatMap((hooks) => hooks.pairs),
+    rangeTypes: hooksList.flatMap((hooks) => hooks.rangeTypes),
+    transforms: hooksList.flatMap((hooks) => hooks.transforms),
+  };
+};
+
+/**
+ * Gets the pairs or range types of hooks offered in a language
+ * @param languageId Language identifier of the document; only those of every language are offered if omitted
+ */
+export const getHookItemsFor = <T extends HookPair | HookRangeType>(items: readonly T[], languageId: string | undefined): T[] => {
+  return items.filter((item) => !item.languages || (languageId !== undefined && item.languages.includes(languageId)));
+};
+
+/**
+ * Converts the pairs of hooks with fixed buns to recipes, so they are found and added like recipes
+ */
+export const toHookRecipes = (pairs: readonly HookPair[]): Recipe[] => {
+  return pairs.flatMap((pair) =>
+    typeof pair.buns === "function"
+      ? []
+      : [
+          {
+            buns: pair.buns,
+            input: [pair.key],
+            filetype: pair.languages ?? [],
+            kind: OPERATIONS,
+            regex: false,
+            ...(pair.description === undefined ? {} : { description: pair.description }),
+          },
+        ]
+  );
+};
+
+/**
+ * Gets the pair of a hook for the range it is put around, computing the buns if needed
+ * @returns The pair, or undefined if the hook gives no buns
+ * @throws If the hook gives something other than two texts
+ */
+export const resolveHookPair = async (pair: HookPair, context: HookPairContext): Promise<RecipePairType | undefined> => {
+  const buns = typeof pair.buns === "function" ? await pair.buns(context) : pair.buns;
+  if (buns === undefined) {
+    return undefined;
+  }
+  if (!isBuns(buns)) {
+    throw new Error(`The buns of the pair ${pair.key} must be two texts`);
+  }
+
+  return { type: "recipe", opening: buns[0], closing: buns[1], regex: false };
+};
+
+/**
+ * Creates the context of a hook from the editor state
+ * The document text is only read when the hook uses it.
+ */
+export const createHookContext = (editorState: EditorState, operation: OperationType): HookContext => {
+  return {
+    operation,
+    languageId: editorState.languageId,
+    get documentText() {
+      return editorState.documentText;
+    },
+    cursorPosition: editorState.cursorPosition,
+    selection: editorState.selection,
+    getLineText: editorState.getLineText,
+  };
+};
+
+/**
+ * Applies the text edit transforms in order, each receiving the edits of the previous one
+ */
+export const applyTextEditTransforms = async (
+  transforms: readonly TextEditTransform[],
+  edits: TextEdit[],
+  context: TextEditTransformContext
+): Promise<TextEdit[]> => {
+  let transformed = edits;
+  for (const transform of transforms) {
+    transformed = (await transform(transformed, context)) ?? transformed;
+  }
+
+  return transformed;
+};
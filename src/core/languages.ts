@@ -0,0 +1,275 @@
+/**
+ * String literal syntax of a language
+ */
+export type QuoteSyntax = {
+  /** Delimiter that opens and closes the string */
+  delimiter: string;
+  /** Whether the string may span multiple lines */
+  multiline?: boolean;
+  /** Whether the string is a character literal that must close within a few characters (e.g. Rust's 'a' vs 'a lifetimes) */
+  charLiteral?: boolean;
+  /** Opening and closing of interpolations that contain code (e.g. ${...} in template literals) */
+  interpolation?: readonly [string, string];
+  /** Prefixes that may come right before the delimiter (e.g. f and rb in Python); matched case-sensitively */
+  prefixes?: readonly string[];
+  /** Prefixes of verbatim strings, in which backslashes do not escape and a doubled delimiter does (e.g. @ in C#) */
+  verbatimPrefixes?: readonly string[];
+};
+
+/**
+ * String literal whose closing delimiter depends on its opening (e.g. r#"..."# in Rust, R"x(...)x" in C++, %w[...] in Ruby)
+ */
+export type StringFormSyntax = {
+  /**
+   * Sticky pattern matched where the string starts; the whole match is the opening
+   * A group named prefix is the prefix of the string (e.g. b of br#"..."#, %w of %w[...]), like the prefix of a quote.
+   * The rest of the opening decides the closing delimiter, so it is replaced with the pair.
+   */
+  opening: RegExp;
+  /** Gets the closing delimiter from the match of the opening */
+  closing: (match: RegExpExecArray) => string;
+  /** Gets the key of the pair that finds the string from the match of the opening (e.g. " for r#"..."#, [ for %w[...]) */
+  key: (match: RegExpExecArray) => string;
+  /** Whether backslashes escape characters */
+  escapes: boolean;
+  /** Whether a bracket used as the delimiter nests inside the string (e.g. %w[a [b]]) */
+  nested?: boolean;
+};
+
+/**
+ * Rules for telling angle brackets (Array<string>) from operators (a < b, =>, ->, >>)
+ */
+export type AngleBracketSyntax = {
+  /** Pattern matched against the text before "<" to decide whether it opens a type argument or parameter list */
+  precedingPattern: RegExp;
+  /** Operators that start with "<" and are never angle brackets */
+  openingOperators: readonly string[];
+  /** Characters that make ">" part of an operator when they come right before it (e.g. "=" for =>) */
+  closingOperatorPrefixes: readonly string[];
+  /** Tokens that cannot appear between angle brackets; an open "<" before them was a comparison */
+  breakers: readonly string[];
+};
+
+/**
+ * Comment and string syntax of a language
+ * Used by the lexer to find delimiters that belong to strings and comments
+ */
+export type LanguageSyntax = {
+  lineComments: readonly string[];
+  blockComments: readonly (readonly [string, string])[];
+  /** Whether block comments may be nested (e.g. Rust, Swift, Haskell) */
+  nestedBlockComments?: boolean;
+  quotes: readonly QuoteSyntax[];
+  /** String literals with other delimiters than quotes; they span multiple lines */
+  stringForms?: readonly StringFormSyntax[];
+  /** Angle bracket rules; without them every "<" and ">" is treated as a bracket */
+  angleBrackets?: AngleBracketSyntax;
+  /** Whether an apostrophe between letters (don't, it's) belongs to the word instead of delimiting single quotes */
+  intrawordApostrophes?: boolean;
+};
+
+const C_STYLE_COMMENTS = {
+  lineComments: ["//"],
+  blockComments: [["/*", "*/"]],
+} as const;
+
+const HASH_COMMENTS = {
+  lineComments: ["#"],
+  blockComments: [],
+} as const;
+
+const SINGLE_AND_DOUBLE_QUOTES: readonly QuoteSyntax[] = [{ delimiter: '"' }, { delimiter: "'" }];
+
+/**
+ * Gets every upper and lower case spelling of the prefixes (e.g. rb, rB, Rb and RB)
+ */
+const withCaseVariants = (prefixes: readonly string[]): string[] => {
+  return prefixes.flatMap((prefix) =>
+    Array.from(prefix).reduce<string[]>(
+      (variants, char) => variants.flatMap((variant) => [variant + char.toLowerCase(), variant + char.toUpperCase()]),
+      [""]
+    )
+  );
+};
+
+/**
+ * String prefixes of Python: raw, unicode, f-strings and bytes
+ */
+const PYTHON_STRING_PREFIXES = withCaseVariants(["r", "u", "f", "b", "fr", "rf", "br", "rb"]);
+
+const PYTHON_QUOTES: readonly QuoteSyntax[] = [
+  { delimiter: '"""', multiline: true, prefixes: PYTHON_STRING_PREFIXES },
+  { delimiter: "'''", multiline: true, prefixes: PYTHON_STRING_PREFIXES },
+  { delimiter: '"', prefixes: PYTHON_STRING_PREFIXES },
+  { delimiter: "'", prefixes: PYTHON_STRING_PREFIXES },
+];
+
+/**
+ * Closing delimiters of Ruby percent literals that open with a bracket
+ */
+const PERCENT_LITERAL_BRACKETS: Partial<Record<string, string>> = { "(": ")", "[": "]", "{": "}", "<": ">" };
+
+/**
+ * Ruby percent literals: %q() and %w[] do not interpolate like single quotes, %Q() and %() do like double quotes
+ * A literal delimited by brackets is found with the key of the bracket, and one delimited by another character with the key of its quote.
+ */
+const RUBY_PERCENT_LITERALS: readonly StringFormSyntax[] = [
+  {
+    opening: /(?<prefix>%[iqsw])([^\s\w])/y,
+    closing: (match) => PERCENT_LITERAL_BRACKETS[match[2]] ?? match[2],
+    key: (match) => (PERCENT_LITERAL_BRACKETS[match[2]] ? match[2] : "'"),
+    escapes: true,
+    nested: true,
+  },
+  {
+    // "%=" is an operator
+    opening: /(?<prefix>%[IQWrx]?)([^\s\w=])/y,
+    closing: (match) => PERCENT_LITERAL_BRACKETS[match[2]] ?? match[2],
+    key: (match) => (PERCENT_LITERAL_BRACKETS[match[2]] ? match[2] : '"'),
+    escapes: true,
+    nested: true,
+  },
+];
+
+/**
+ * Angle brackets for generics, which directly follow a type or function name
+ */
+const GENERIC_ANGLE_BRACKETS: AngleBracketSyntax = {
+  precedingPattern: /[\w$]$/,
+  openingOperators: ["<=", "<<", "<-"],
+  closingOperatorPrefixes: ["=", "-"],
+  breakers: [";", "&&", "||", "==", "!="],
+};
+
+const JAVASCRIPT_SYNTAX: LanguageSyntax = {
+  ...C_STYLE_COMMENTS,
+  quotes: [...SINGLE_AND_DOUBLE_QUOTES, { delimiter: "`", multiline: true, interpolation: ["${", "}"] }],
+  angleBrackets: GENERIC_ANGLE_BRACKETS,
+};
+
+const C_LIKE_SYNTAX: LanguageSyntax = {
+  ...C_STYLE_COMMENTS,
+  quotes: SINGLE_AND_DOUBLE_QUOTES,
+};
+
+const GENERIC_C_LIKE_SYNTAX: LanguageSyntax = {
+  ...C_LIKE_SYNTAX,
+  angleBrackets: GENERIC_ANGLE_BRACKETS,
+};
+
+const C_PREPROCESSOR_SYNTAX: LanguageSyntax = {
+  ...C_LIKE_SYNTAX,
+  // Encoding prefixes (u8"...", L'x') and raw strings (R"(...)" or R"x(...)x")
+  quotes: SINGLE_AND_DOUBLE_QUOTES.map((quote) => ({ ...quote, prefixes: ["u8", "u", "U", "L"] })),
+  stringForms: [
+    {
+      opening: /(?<prefix>u8|[LUu])?R"([^\s()\\]{0,16})\(/y,
+      closing: (match) => `)${match[2]}"`,
+      key: () => '"',
+      escapes: false,
+    },
+  ],
+  // Templates (std::vector<int>) and #include <header.h>
+  angleBrackets: { ...GENERIC_ANGLE_BRACKETS, precedingPattern: /(?:[\w$]|#\s*include\s*)$/ },
+};
+
+const SCRIPT_SYNTAX: LanguageSyntax = {
+  ...HASH_COMMENTS,
+  quotes: SINGLE_AND_DOUBLE_QUOTES,
+};
+
+const MARKUP_SYNTAX: LanguageSyntax = {
+  lineComments: [],
+  blockComments: [["<!--", "-->"]],
+  // Apostrophes in prose are not string delimiters
+  quotes: [],
+  intrawordApostrophes: true,
+};
+
+/**
+ * Syntax used for languages without an entry
+ * Nothing is treated as a string or comment
+ */
+export const DEFAULT_LANGUAGE_SYNTAX: LanguageSyntax = {
+  lineComments: [],
+  blockComments: [],
+  quotes: [],
+};
+
+/**
+ * Mapping of VSCode language identifiers to their syntax
+ */
+const LANGUAGE_SYNTAXES: Partial<Record<string, LanguageSyntax>> = {
+  javascript: JAVASCRIPT_SYNTAX,
+  typescript: JAVASCRIPT_SYNTAX,
+  javascriptreact: JAVASCRIPT_SYNTAX,
+  typescriptreact: JAVASCRIPT_SYNTAX,
+  json: C_LIKE_SYNTAX,
+  jsonc: C_LIKE_SYNTAX,
+  c: C_PREPROCESSOR_SYNTAX,
+  cpp: C_PREPROCESSOR_SYNTAX,
+  csharp: {
+    ...GENERIC_C_LIKE_SYNTAX,
+    // Interpolated ($"...") and verbatim (@"..." or $@"...") strings
+    quotes: [{ delimiter: '"', prefixes: ["$"], verbatimPrefixes: ["@", "$@", "@$"] }, { delimiter: "'" }],
+  },
+  java: { ...C_LIKE_SYNTAX, angleBrackets: { ...GENERIC_ANGLE_BRACKETS, precedingPattern: /[\w$.]$/ } },
+  php: { ...C_LIKE_SYNTAX, lineComments: ["//", "#"] },
+  go: { ...C_STYLE_COMMENTS, quotes: [...SINGLE_AND_DOUBLE_QUOTES, { delimiter: "`", multiline: true }] },
+  rust: {
+    ...C_STYLE_COMMENTS,
+    nestedBlockComments: true,
+    // Byte and C strings (b"...", c"..."), and raw strings (r"..." or r#"..."#)
+    quotes: [
+      { delimiter: '"', multiline: true, prefixes: ["b", "c"] },
+      { delimiter: "'", charLiteral: true, prefixes: ["b"] },
+    ],
+    stringForms: [{ opening: /(?<prefix>[bc])?r(#*)"/y, closing: (match) => `"${match[2]}`, key: () => '"', escapes: false }],
+    // Turbofish (collect::<Vec<_>>) follows "::"
+    angleBrackets: { ...GENERIC_ANGLE_BRACKETS, precedingPattern: /(?:\w|::)$/ },
+  },
+  swift: { ...C_STYLE_COMMENTS, nestedBlockComments: true, quotes: [{ delimiter: '"' }], angleBrackets: GENERIC_ANGLE_BRACKETS },
+  kotlin: GENERIC_C_LIKE_SYNTAX,
+  scala: C_LIKE_SYNTAX,
+  dart: GENERIC_C_LIKE_SYNTAX,
+  css: { lineComments: [], blockComments: [["/*", "*/"]], quotes: SINGLE_AND_DOUBLE_QUOTES },
+  scss: C_LIKE_SYNTAX,
+  less: C_LIKE_SYNTAX,
+  python: { ...HASH_COMMENTS, quotes: PYTHON_QUOTES },
+  ruby: { ...SCRIPT_SYNTAX, stringForms: RUBY_PERCENT_LITERALS },
+  perl: SCRIPT_SYNTAX,
+  r: SCRIPT_SYNTAX,
+  shellscript: {
+    ...HASH_COMMENTS,
+    quotes: [
+      { delimiter: '"', multiline: true },
+      { delimiter: "'", multiline: true },
+    ],
+  },
+  powershell: { lineComments: ["#"], blockComments: [["<#", "#>"]], quotes: SINGLE_AND_DOUBLE_QUOTES },
+  yaml: SCRIPT_SYNTAX,
+  toml: SCRIPT_SYNTAX,
+  dockerfile: SCRIPT_SYNTAX,
+  makefile: SCRIPT_SYNTAX,
+  elixir: SCRIPT_SYNTAX,
+  lua: { lineComments: ["--"], blockComments: [["--[[", "]]"]], quotes: SINGLE_AND_DOUBLE_QUOTES },
+  sql: { lineComments: ["--"], blockComments: [["/*", "*/"]], quotes: SINGLE_AND_DOUBLE_QUOTES },
+  haskell: { lineComments: ["--"], blockComments: [["{-", "-}"]], nestedBlockComments: true, quotes: [{ delimiter: '"' }] },
+  html: MARKUP_SYNTAX,
+  xml: MARKUP_SYNTAX,
+  vue: MARKUP_SYNTAX,
+  svelte: MARKUP_SYNTAX,
+  markdown: MARKUP_SYNTAX,
+};
+
+/**
+ * Gets the syntax of a language
+ * @param languageId VSCode language identifier
+ */
+export const getLanguageSyntax = (languageId: string | undefined): LanguageSyntax => {
+  if (languageId === undefined) {
+    return DEFAULT_LANGUAGE_SYNTAX;
+  }
+
+  return LANGUAGE_SYNTAXES[languageId] ?? DEFAULT_LANGUAGE_SYNTAX;
+};
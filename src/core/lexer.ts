@@ -0,0 +1,391 @@
+import type { LanguageSyntax, QuoteSyntax, StringFormSyntax } from "./languages";
+
+/**
+ * Token kinds produced by the lexer
+ * Everything outside of tokens is treated as code
+ */
+export type TokenKind = "string" | "comment";
+
+/**
+ * String or comment token
+ * `end` is exclusive, and `contentStart`/`contentEnd` exclude the delimiters
+ */
+export type Token = {
+  kind: TokenKind;
+  start: number;
+  end: number;
+  contentStart: number;
+  contentEnd: number;
+  /** Key of the pair that finds a string (e.g. " for "...", f"...", """...""" and r#"..."#, [ for %w[...]) */
+  key?: string;
+  /** End of the prefix of a string (e.g. f in f"..."), which is kept when the pair is replaced with one of the same kind */
+  prefixEnd?: number;
+};
+
+/**
+ * Opening of a string and how its content is lexed
+ */
+type StringOpening = {
+  /** End of the prefix, or the start of the string if it has none */
+  prefixEnd: number;
+  contentStart: number;
+  closing: string;
+  key: string;
+  multiline: boolean;
+  charLiteral: boolean;
+  /** How a closing delimiter is kept in the content: after a backslash, by doubling it (verbatim strings), or not at all (raw strings) */
+  escape: "backslash" | "doubled" | "none";
+  interpolation?: readonly [string, string];
+  /** Opening bracket that nests inside the string and is closed by the closing delimiter */
+  nestedOpening?: string;
+};
+
+/**
+ * Characters of identifiers, after which a letter does not start a string prefix
+ */
+const IDENTIFIER_CHARACTER_PATTERN = /[\p{L}\p{N}_$]/u;
+
+/**
+ * Characters that may start a string prefix or form (e.g. f"...", @"...", %w[...])
+ */
+const STRING_PREFIX_START_PATTERN = /[\p{L}@$%]/u;
+
+/**
+ * Maximum length of a character literal including the escape sequence (e.g. '\u{1F600}')
+ */
+const MAX_CHAR_LITERAL_LENGTH = 12;
+
+/**
+ * Splits a document into string and comment tokens
+ * This is a lightweight lexer, not a parser: it only knows how strings and comments start and end
+ */
+export const tokenize = (text: string, syntax: LanguageSyntax): Token[] => {
+  const tokens: Token[] = [];
+  lexCode(text, 0, syntax, tokens, null);
+  return tokens;
+};
+
+/**
+ * Lexes code until the end of the text or until the terminator at brace depth 0
+ * Returns the index right after the terminator, or the text length
+ */
+const lexCode = (text: string, from: number, syntax: LanguageSyntax, tokens: Token[], terminator: string | null): number => {
+  let depth = 0;
+  let i = from;
+
+  while (i < text.length) {
+    if (terminator !== null) {
+      if (text[i] === "{") {
+        depth++;
+      } else if (depth > 0 && text[i] === "}") {
+        depth--;
+      } else if (depth === 0 && text.startsWith(terminator, i)) {
+        return i + terminator.length;
+      }
+    }
+
+    const blockComment = syntax.blockComments.find(([opening]) => text.startsWith(opening, i));
+    if (blockComment) {
+      i = lexBlockComment(text, i, blockComment, syntax.nestedBlockComments ?? false, tokens);
+      continue;
+    }
+
+    const lineComment = syntax.lineComments.find((opening) => text.startsWith(opening, i));
+    if (lineComment !== undefined) {
+      i = lexLineComment(text, i, lineComment.length, tokens);
+      continue;
+    }
+
+    const stringOpening = findStringOpeningAt(text, i, syntax);
+    if (stringOpening) {
+      const end = lexString(text, i, stringOpening, syntax, tokens);
+      if (end !== null) {
+        i = end;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return i;
+};
+
+/**
+ * Finds the quote that starts at the index, preferring longer delimiters
+ */
+const findQuoteAt = (text: string, index: number, quotes: readonly QuoteSyntax[]): QuoteSyntax | undefined => {
+  return quotes
+    .filter((quote) => text.startsWith(quote.delimiter, index))
+    .reduce<
+      QuoteSyntax | undefined
+    >((longest, quote) => (longest && longest.delimiter.length >= quote.delimiter.length ? longest : quote), undefined);
+};
+
+/**
+ * Finds the string that starts at the index: a quote, a quote with a prefix, or a string form
+ */
+const findStringOpeningAt = (text: string, index: number, syntax: LanguageSyntax): StringOpening | undefined => {
+  const quote = findQuoteAt(text, index, syntax.quotes);
+  if (quote) {
+    return createQuoteOpening(quote, index, false);
+  }
+
+  // Prefixes start a word, so "f" in "if" or "elif" does not start a string
+  if (!STRING_PREFIX_START_PATTERN.test(text[index]) || (index > 0 && IDENTIFIER_CHARACTER_PATTERN.test(text[index - 1]))) {
+    return undefined;
+  }
+
+  for (const form of syntax.stringForms ?? []) {
+    const opening = matchStringForm(text, index, form);
+    if (opening) {
+      return opening;
+    }
+  }
+
+  return findPrefixedQuoteAt(text, index, syntax.quotes);
+};
+
+/**
+ * Finds a quote with a prefix at the index, preferring longer delimiters and then longer prefixes
+ */
+const findPrefixedQuoteAt = (text: string, index: number, quotes: readonly QuoteSyntax[]): StringOpening | undefined => {
+  let found: { quote: QuoteSyntax; prefix: string; verbatim: boolean } | undefined;
+
+  for (const quote of quotes) {
+    const prefixes = [
+      ...(quote.prefixes ?? []).map((prefix) => ({ prefix, verbatim: false })),
+      ...(quote.verbatimPrefixes ?? []).map((prefix) => ({ prefix, verbatim: true })),
+    ];
+    for (const { prefix, verbatim } of prefixes) {
+      const isLonger =
+        !found ||
+        quote.delimiter.length > found.quote.delimiter.length ||
+        (quote.delimiter.length === found.quote.delimiter.length && prefix.length > found.prefix.length);
+      if (isLonger && text.startsWith(prefix, index) && text.startsWith(quote.delimiter, index + prefix.length)) {
+        found = { quote, prefix, verbatim };
+      }
+    }
+  }
+
+  return found && createQuoteOpening(found.quote, index + found.prefix.length, found.verbatim);
+};
+
+/**
+ * Creates the opening of a string delimited by a quote
+ * @param prefixEnd Start of the delimiter, after the prefix if there is one
+ */
+const createQuoteOpening = (quote: QuoteSyntax, prefixEnd: number, verbatim: boolean): StringOpening => {
+  return {
+    prefixEnd,
+    contentStart: prefixEnd + quote.delimiter.length,
+    closing: quote.delimiter,
+    key: quote.delimiter[0],
+    multiline: (quote.multiline ?? false) || verbatim,
+    charLiteral: quote.charLiteral ?? false,
+    escape: verbatim ? "doubled" : "backslash",
+    interpolation: quote.interpolation,
+  };
+};
+
+/**
+ * Matches a string form at the index
+ */
+const matchStringForm = (text: string, index: number, form: StringFormSyntax): StringOpening | undefined => {
+  form.opening.lastIndex = index;
+  const match = form.opening.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const openingEnd = index + match[0].length;
+  // The prefix group is optional, so it is missing from strings without a prefix
+  const prefix: string | undefined = match.groups?.prefix;
+  const closing = form.closing(match);
+  const lastOpeningCharacter = match[0].at(-1);
+
+  return {
+    prefixEnd: index + (prefix?.length ?? 0),
+    contentStart: openingEnd,
+    closing,
+    key: form.key(match),
+    multiline: true,
+    charLiteral: false,
+    escape: form.escapes ? "backslash" : "none",
+    nestedOpening: form.nested && lastOpeningCharacter !== closing ? lastOpeningCharacter : undefined,
+  };
+};
+
+/**
+ * Lexes a line comment starting at the index
+ */
+const lexLineComment = (text: string, start: number, openingLength: number, tokens: Token[]): number => {
+  const newlineIndex = text.indexOf("\n", start);
+  const end = newlineIndex === -1 ? text.length : newlineIndex;
+  tokens.push({ kind: "comment", start, end, contentStart: start + openingLength, contentEnd: end });
+  return end;
+};
+
+/**
+ * Lexes a block comment starting at the index
+ */
+const lexBlockComment = (
+  text: string,
+  start: number,
+  [opening, closing]: readonly [string, string],
+  nested: boolean,
+  tokens: Token[]
+): number => {
+  let depth = 1;
+  let i = start + opening.length;
+
+  while (i < text.length) {
+    if (text.startsWith(closing, i)) {
+      depth--;
+      if (depth === 0) {
+        const end = i + closing.length;
+        tokens.push({ kind: "comment", start, end, contentStart: start + opening.length, contentEnd: i });
+        return end;
+      }
+      i += closing.length;
+    } else if (nested && text.startsWith(opening, i)) {
+      depth++;
+      i += opening.length;
+    } else {
+      i++;
+    }
+  }
+
+  // Unterminated comments run to the end of the document
+  tokens.push({ kind: "comment", start, end: text.length, contentStart: start + opening.length, contentEnd: text.length });
+  return text.length;
+};
+
+/**
+ * Lexes a string starting at the index
+ * Returns null if the delimiter does not start a string (e.g. a lifetime instead of a character literal)
+ */
+const lexString = (text: string, start: number, opening: StringOpening, syntax: LanguageSyntax, tokens: Token[]): number | null => {
+  const { prefixEnd, contentStart, closing, key, multiline, charLiteral, escape, interpolation, nestedOpening } = opening;
+
+  if (charLiteral && !isCharLiteral(text, contentStart, closing)) {
+    return null;
+  }
+
+  const pushToken = (end: number, contentEnd: number) => {
+    tokens.push({ kind: "string", start, end, contentStart, contentEnd, key, ...(prefixEnd > start ? { prefixEnd } : {}) });
+  };
+
+  // Interpolations are lexed into a separate list so their tokens do not interleave with this string
+  const interpolationTokens: Token[] = [];
+  let depth = 0;
+  let i = contentStart;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "\\" && escape === "backslash") {
+      // Skip the escaped character
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n" && !multiline) {
+      // Unterminated strings end at the end of the line
+      pushToken(i, i);
+      return i;
+    }
+
+    if (interpolation && text.startsWith(interpolation[0], i)) {
+      i = lexCode(text, i + interpolation[0].length, syntax, interpolationTokens, interpolation[1]);
+      continue;
+    }
+
+    if (nestedOpening !== undefined && char === nestedOpening) {
+      depth++;
+    } else if (text.startsWith(closing, i)) {
+      if (escape === "doubled" && text.startsWith(closing, i + closing.length)) {
+        // A doubled delimiter is an escaped delimiter
+        i += closing.length * 2;
+        continue;
+      }
+
+      if (depth === 0) {
+        const end = i + closing.length;
+        pushToken(end, i);
+        return end;
+      }
+      depth--;
+    }
+
+    i++;
+  }
+
+  pushToken(text.length, text.length);
+  return text.length;
+};
+
+/**
+ * Checks whether a character literal closes right after a single character or an escape sequence
+ */
+const isCharLiteral = (text: string, contentStart: number, delimiter: string): boolean => {
+  if (text[contentStart] === "\\") {
+    const closingIndex = text.indexOf(delimiter, contentStart + 2);
+    return (
+      closingIndex !== -1 &&
+      closingIndex - contentStart <= MAX_CHAR_LITERAL_LENGTH &&
+      !text.slice(contentStart, closingIndex).includes("\n")
+    );
+  }
+
+  const codePoint = text.codePointAt(contentStart);
+  if (codePoint === undefined) {
+    return false;
+  }
+
+  return text.startsWith(delimiter, contentStart + String.fromCodePoint(codePoint).length);
+};
+
+/**
+ * Finds the token whose content contains the offset
+ */
+export const findTokenAt = (tokens: readonly Token[], offset: number): Token | undefined => {
+  return tokens.find((token) => token.start < offset && offset <= token.contentEnd);
+};
+
+/**
+ * Returns the text with everything inside strings and comments replaced by spaces
+ * Offsets and line breaks are kept, so the result can be scanned for delimiters in place of the original text.
+ * The token containing the cursor is kept as is, so delimiters around the cursor are still found inside strings and comments.
+ * String delimiters are kept so that quotes can still be paired.
+ */
+export const maskNonCodeText = (text: string, tokens: readonly Token[], cursorOffset: number): string => {
+  const cursorToken = findTokenAt(tokens, cursorOffset);
+  const chunks: string[] = [];
+  let lastIndex = 0;
+
+  for (const token of tokens) {
+    if (token === cursorToken) {
+      continue;
+    }
+
+    // Strings with longer delimiters than a quote are masked whole, since their quotes cannot be paired one by one
+    const keepsDelimiters = token.kind === "string" && !isStringForm(token);
+    const maskStart = keepsDelimiters ? token.contentStart : token.start;
+    const maskEnd = keepsDelimiters ? token.contentEnd : token.end;
+
+    chunks.push(text.slice(lastIndex, maskStart));
+    chunks.push(text.slice(maskStart, maskEnd).replace(/[^\n]/g, " "));
+    lastIndex = maskEnd;
+  }
+
+  chunks.push(text.slice(lastIndex));
+  return chunks.join("");
+};
+
+/**
+ * Checks whether a string is delimited by more than a quote (e.g. f"...", """...""", r#"..."# or %w[...])
+ * Such strings are found from their tokens instead of by pairing quotes
+ */
+export const isStringForm = (token: Token): boolean => {
+  return token.kind === "string" && token.contentStart - token.start > 1;
+};
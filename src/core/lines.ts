@@ -0,0 +1,61 @@
+import type { EndOfLine, Position } from "./types";
+
+/**
+ * Computes the offset at which each line of the text starts
+ * Lines end in "\n" or "\r\n", so the table is the same for both end of line sequences
+ * @param text Full document text
+ * @returns Line-start offsets, starting with 0 for the first line
+ */
+export const computeLineStarts = (text: string): number[] => {
+  const lineStarts = [0];
+
+  for (let index = text.indexOf("\n"); index !== -1; index = text.indexOf("\n", index + 1)) {
+    lineStarts.push(index + 1);
+  }
+
+  return lineStarts;
+};
+
+/**
+ * Converts a position (line, character) to an offset in the document text
+ * Lines past the end of the document are clamped to the last line
+ */
+export const positionToOffset = (lineStarts: readonly number[], position: Position): number => {
+  const line = Math.min(Math.max(position.line, 0), lineStarts.length - 1);
+  return lineStarts[line] + position.character;
+};
+
+/**
+ * Converts an offset in the document text to a position (line, character)
+ * Offsets inside the end of line sequence are clamped to the end of the line
+ */
+export const offsetToPosition = (lineStarts: readonly number[], offset: number, eol: EndOfLine): Position => {
+  const line = findLineAt(lineStarts, offset);
+  const character = offset - lineStarts[line];
+
+  if (line + 1 < lineStarts.length) {
+    const lineLength = lineStarts[line + 1] - eol.length - lineStarts[line];
+    return { line, character: Math.min(character, lineLength) };
+  }
+
+  return { line, character };
+};
+
+/**
+ * Finds the line containing the offset by binary search
+ */
+export const findLineAt = (lineStarts: readonly number[], offset: number): number => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  while (low < high) {
+    const middle = (low + high + 1) >>> 1;
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return low;
+};
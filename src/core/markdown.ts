@@ -0,0 +1,386 @@
+import type { MarkdownDelimiter } from "./types";
+
+/**
+ * Inline pair found by the Markdown scanner
+ * Offsets are document offsets; `*End` offsets are exclusive.
+ * For links, the opening is "[" and the closing is "](url)".
+ */
+export type MarkdownSpan = {
+  kind: MarkdownDelimiter | "link";
+  openingStart: number;
+  openingEnd: number;
+  closingStart: number;
+  closingEnd: number;
+  /** Destination of a link */
+  url?: string;
+};
+
+/**
+ * Fenced code block (``` or ~~~)
+ * `closingStart` and `closingEnd` are the end of the text for blocks that are not closed
+ */
+export type FencedCodeBlock = {
+  /** Start of the opening fence, after its indentation */
+  openingStart: number;
+  /** End of the opening fence line, excluding the line break */
+  openingEnd: number;
+  /** Start of the closing fence line */
+  closingStart: number;
+  closingEnd: number;
+  fence: string;
+  /** Info string after the opening fence (e.g. the language) */
+  info: string;
+};
+
+/**
+ * Delimiter run of emphasis or strikethrough characters
+ */
+type DelimiterRun = {
+  char: string;
+  start: number;
+  length: number;
+  /** Delimiters not used yet, taken from the end of an opener and from the start of a closer */
+  openerRemaining: number;
+  closerUsed: number;
+  canOpen: boolean;
+  canClose: boolean;
+};
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const WHITESPACE_PATTERN = /\s/;
+const PUNCTUATION_PATTERN = /[\p{P}\p{S}]/u;
+const EMPHASIS_CHARACTERS = new Set(["*", "_", "~"]);
+
+/**
+ * Checks whether a language is Markdown
+ */
+export const isMarkdownLanguage = (languageId: string | undefined): boolean => {
+  return languageId === "markdown";
+};
+
+/**
+ * Finds the fenced code blocks of a Markdown text
+ */
+export const findFencedCodeBlocks = (text: string): FencedCodeBlock[] => {
+  const blocks: FencedCodeBlock[] = [];
+  let open: { start: number; end: number; fence: string; info: string } | null = null;
+
+  for (let lineStart = 0; lineStart <= text.length; ) {
+    const newlineIndex = text.indexOf("\n", lineStart);
+    const lineEnd = newlineIndex === -1 ? text.length : newlineIndex;
+    const line = text.slice(lineStart, lineEnd).replace(/\r$/, "");
+    const match = FENCE_PATTERN.exec(line);
+
+    if (open === null) {
+      // Backtick fences cannot have backticks in their info string
+      if (match && !(match[1].startsWith("`") && match[2].includes("`"))) {
+        open = { start: lineStart + line.indexOf(match[1]), end: lineStart + line.length, fence: match[1], info: match[2].trim() };
+      }
+    } else if (match && match[1].startsWith(open.fence[0]) && match[1].length >= open.fence.length && match[2].trim() === "") {
+      blocks.push({
+        openingStart: open.start,
+        openingEnd: open.end,
+        closingStart: lineStart,
+        closingEnd: lineStart + line.length,
+        fence: open.fence,
+        info: open.info,
+      });
+      open = null;
+    }
+
+    if (newlineIndex === -1) break;
+    lineStart = newlineIndex + 1;
+  }
+
+  if (open !== null) {
+    blocks.push({
+      openingStart: open.start,
+      openingEnd: open.end,
+      closingStart: text.length,
+      closingEnd: text.length,
+      fence: open.fence,
+      info: open.info,
+    });
+  }
+
+  return blocks;
+};
+
+/**
+ * Finds the inline pairs of a Markdown text: emphasis, strikethrough, code spans and links
+ * This follows the CommonMark rules for delimiter runs in a simplified form. Paragraphs are scanned separately,
+ * and nothing is found in fenced code blocks.
+ */
+export const parseMarkdownSpans = (text: string): MarkdownSpan[] => {
+  const spans: MarkdownSpan[] = [];
+
+  for (const [start, end] of findParagraphs(text)) {
+    spans.push(...parseParagraph(text.slice(start, end), start));
+  }
+
+  return spans.sort((a, b) => a.openingStart - b.openingStart);
+};
+
+/**
+ * Splits a text into paragraphs at blank lines and fenced code blocks
+ * @returns Start and end offsets of each paragraph
+ */
+const findParagraphs = (text: string): [number, number][] => {
+  const paragraphs: [number, number][] = [];
+  const blocks = findFencedCodeBlocks(text);
+  let start = 0;
+
+  const addParagraphs = (from: number, to: number) => {
+    const blankLinePattern = /\n[\t ]*\r?\n/g;
+    blankLinePattern.lastIndex = from;
+    let paragraphStart = from;
+    for (let match = blankLinePattern.exec(text); match && match.index < to; match = blankLinePattern.exec(text)) {
+      paragraphs.push([paragraphStart, match.index]);
+      paragraphStart = match.index + match[0].length - 1;
+    }
+    paragraphs.push([paragraphStart, to]);
+  };
+
+  for (const block of blocks) {
+    addParagraphs(start, block.openingStart);
+    start = block.closingEnd;
+  }
+  addParagraphs(start, text.length);
+
+  return paragraphs.filter(([paragraphStart, paragraphEnd]) => paragraphStart < paragraphEnd);
+};
+
+/**
+ * Finds the inline pairs of a paragraph
+ */
+const parseParagraph = (paragraph: string, offset: number): MarkdownSpan[] => {
+  const spans: MarkdownSpan[] = [];
+
+  // Code spans come first; their content and the escaped characters are replaced with letters
+  // so that no other delimiter is found in them, while emphasis around them still flanks a word
+  const chars = paragraph.split("");
+  for (let i = 0; i < paragraph.length; i++) {
+    if (paragraph[i] === "\\" && i + 1 < paragraph.length && PUNCTUATION_PATTERN.test(paragraph[i + 1])) {
+      chars[i] = "x";
+      chars[i + 1] = "x";
+      i++;
+      continue;
+    }
+
+    if (paragraph[i] === "`") {
+      const length = countRun(paragraph, i, "`");
+      const closingStart = findBacktickRun(paragraph, i + length, length);
+      if (closingStart !== -1) {
+        if (length <= 2) {
+          spans.push(createSpan(length === 1 ? "`" : "``", i + offset, length, closingStart + offset, length));
+        }
+        chars.fill("x", i, closingStart + length);
+        i = closingStart + length - 1;
+      } else {
+        i += length - 1;
+      }
+    }
+  }
+
+  const masked = chars.join("");
+  const links = findLinks(masked);
+  for (const link of links) {
+    spans.push({
+      kind: "link",
+      openingStart: link.textStart - 1 + offset,
+      openingEnd: link.textStart + offset,
+      closingStart: link.textEnd + offset,
+      closingEnd: link.urlEnd + 1 + offset,
+      url: paragraph.slice(link.urlStart, link.urlEnd).trim(),
+    });
+  }
+
+  // Link destinations are not scanned for emphasis
+  const emphasisText = links.reduce(
+    (text, link) => text.slice(0, link.urlStart) + "x".repeat(link.urlEnd - link.urlStart) + text.slice(link.urlEnd),
+    masked
+  );
+  spans.push(...findEmphasis(emphasisText).map((span) => shiftSpan(span, offset)));
+
+  return spans;
+};
+
+/**
+ * Counts the characters of a run starting at the index
+ */
+const countRun = (text: string, index: number, char: string): number => {
+  let end = index;
+  while (text[end] === char) {
+    end++;
+  }
+  return end - index;
+};
+
+/**
+ * Finds the next backtick run of exactly the length
+ */
+const findBacktickRun = (text: string, from: number, length: number): number => {
+  for (let i = text.indexOf("`", from); i !== -1; i = text.indexOf("`", i)) {
+    const runLength = countRun(text, i, "`");
+    if (runLength === length) {
+      return i;
+    }
+    i += runLength;
+  }
+  return -1;
+};
+
+/**
+ * Finds links ([text](url)) that are not images
+ * @returns Offsets of the link text and the destination, excluding the delimiters
+ */
+const findLinks = (text: string): { textStart: number; textEnd: number; urlStart: number; urlEnd: number }[] => {
+  const links: { textStart: number; textEnd: number; urlStart: number; urlEnd: number }[] = [];
+  const openings: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "[") {
+      openings.push(i);
+    } else if (text[i] === "]" && openings.length > 0) {
+      const opening = openings.pop() ?? -1;
+      const urlEnd = text[i + 1] === "(" ? findClosingParenthesis(text, i + 2) : -1;
+      if (urlEnd !== -1 && text[opening - 1] !== "!") {
+        links.push({ textStart: opening + 1, textEnd: i, urlStart: i + 2, urlEnd });
+        i = urlEnd;
+      }
+    }
+  }
+
+  return links;
+};
+
+/**
+ * Finds the parenthesis closing a link destination, allowing balanced parentheses in it
+ */
+const findClosingParenthesis = (text: string, from: number): number => {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\n") {
+      return -1;
+    } else if (text[i] === "(") {
+      depth++;
+    } else if (text[i] === ")") {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Finds emphasis, strong emphasis and strikethrough by matching delimiter runs
+ */
+const findEmphasis = (text: string): MarkdownSpan[] => {
+  const spans: MarkdownSpan[] = [];
+  const openers: DelimiterRun[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (!EMPHASIS_CHARACTERS.has(char)) {
+      continue;
+    }
+
+    const length = countRun(text, i, char);
+    const run = createDelimiterRun(text, i, length);
+    i += length - 1;
+
+    // Strikethrough takes runs of exactly two tildes
+    if (char === "~" && length !== 2) {
+      continue;
+    }
+
+    while (run.canClose && run.closerUsed < run.length) {
+      const openerIndex = openers.findLastIndex((opener) => opener.char === char);
+      if (openerIndex === -1) break;
+
+      const opener = openers[openerIndex];
+      const closerRemaining = run.length - run.closerUsed;
+      const used = char === "~" || (opener.openerRemaining >= 2 && closerRemaining >= 2) ? 2 : 1;
+      const closingStart = run.start + run.closerUsed;
+      spans.push(createSpan(getEmphasisKind(char, used), opener.start + opener.openerRemaining - used, used, closingStart, used));
+
+      opener.openerRemaining -= used;
+      run.closerUsed += used;
+      // Openers between the matched ones can no longer be closed
+      openers.splice(opener.openerRemaining > 0 ? openerIndex + 1 : openerIndex);
+    }
+
+    if (run.canOpen && run.closerUsed < run.length) {
+      openers.push({ ...run, openerRemaining: run.length - run.closerUsed });
+    }
+  }
+
+  return spans;
+};
+
+/**
+ * Creates a delimiter run and decides whether it can open or close emphasis
+ */
+const createDelimiterRun = (text: string, start: number, length: number): DelimiterRun => {
+  const char = text[start];
+  const before = start > 0 ? text[start - 1] : " ";
+  const after = start + length < text.length ? text[start + length] : " ";
+  const isWhitespace = (c: string) => WHITESPACE_PATTERN.test(c);
+  const isPunctuation = (c: string) => PUNCTUATION_PATTERN.test(c);
+
+  const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+  const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+  // Underscores inside words (snake_case) are not emphasis
+  const canOpen = char === "_" ? leftFlanking && (!rightFlanking || isPunctuation(before)) : leftFlanking;
+  const canClose = char === "_" ? rightFlanking && (!leftFlanking || isPunctuation(after)) : rightFlanking;
+
+  return { char, start, length, openerRemaining: length, closerUsed: 0, canOpen, canClose };
+};
+
+/**
+ * Gets the kind of emphasis from its character and the number of delimiters used
+ */
+const getEmphasisKind = (char: string, used: number): MarkdownDelimiter => {
+  if (char === "~") {
+    return "~~";
+  }
+  if (char === "_") {
+    return used === 2 ? "__" : "_";
+  }
+  return used === 2 ? "**" : "*";
+};
+
+/**
+ * Creates a span from the starts and lengths of its delimiters
+ */
+const createSpan = (
+  kind: MarkdownDelimiter,
+  openingStart: number,
+  openingLength: number,
+  closingStart: number,
+  closingLength: number
+): MarkdownSpan => {
+  return {
+    kind,
+    openingStart,
+    openingEnd: openingStart + openingLength,
+    closingStart,
+    closingEnd: closingStart + closingLength,
+  };
+};
+
+/**
+ * Shifts the offsets of a span
+ */
+const shiftSpan = (span: MarkdownSpan, offset: number): MarkdownSpan => {
+  return {
+    ...span,
+    openingStart: span.openingStart + offset,
+    openingEnd: span.openingEnd + offset,
+    closingStart: span.closingStart + offset,
+    closingEnd: span.closingEnd + offset,
+  };
+};
@@ -0,0 +1,693 @@
+import { getLanguageSyntax, type AngleBracketSyntax, type LanguageSyntax } from "./languages";
+import { maskNonCodeText, tokenize, type Token } from "./lexer";
+import { findFencedCodeBlocks, isMarkdownLanguage, parseMarkdownSpans, type FencedCodeBlock, type MarkdownSpan } from "./markdown";
+import { getPairDefinition, PAIR_KEYS } from "./pairs";
+import { getTagParseMode, parseTags, type TagElement } from "./tagParser";
+import { BRACKETS_DELIMITERS, QUOTES_DELIMITERS, type BasicPairType, type BracketDelimiter, type TextWindow } from "./types";
+
+/**
+ * Offsets of an opening and a closing delimiter
+ */
+export type OffsetPair = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Pair in an index
+ * `parent` is the index of the innermost pair enclosing this one in the same list, or -1
+ */
+export type IndexedPair = OffsetPair & {
+  parent: number;
+};
+
+/**
+ * Tag element in an index
+ * `parent` is the index of the innermost element enclosing this one, or -1
+ */
+export type IndexedElement = TagElement & {
+  parent: number;
+};
+
+/**
+ * Markdown inline pair in an index
+ * `parent` is the index of the innermost span enclosing this one, or -1
+ */
+export type IndexedMarkdownSpan = MarkdownSpan & {
+  parent: number;
+};
+
+/**
+ * Pairs of a document, built once per document version and queried for every cursor position
+ * Lists are sorted by start, so the pairs around an offset are found by binary search.
+ * An index may cover only a window of the document; offsets are always document offsets.
+ */
+export type PairIndex = {
+  /** Text the index was built from */
+  documentText: string;
+  languageId?: string;
+  /** Part of the document that was scanned */
+  window: TextWindow;
+  /** Strings and comments of the document */
+  tokens: Token[];
+  /** Balanced pairs of each basic pair type, found with every string and comment masked out */
+  pairs: Record<BasicPairType, IndexedPair[]>;
+  /** Offsets of every opening and closing bracket, used when no balanced pair surrounds the cursor */
+  delimiters: Record<BracketDelimiter, { openings: number[]; closings: number[] }>;
+  /** Tag elements including self-closing ones */
+  elements: IndexedElement[];
+  /** Emphasis, code spans and links of Markdown documents */
+  markdownSpans: IndexedMarkdownSpan[];
+  /** Fenced code blocks of Markdown documents; they never nest */
+  codeBlocks: FencedCodeBlock[];
+};
+
+/**
+ * Change of the document text
+ * `offset` and `removedLength` refer to the text before the change
+ */
+export type TextChange = {
+  offset: number;
+  removedLength: number;
+  insertedText: string;
+};
+
+/**
+ * Number of characters before "<" that decide whether it opens angle brackets (see findAngleBracketPairs)
+ */
+const ANGLE_BRACKET_LOOKBEHIND_LENGTH = 20;
+
+/**
+ * Text that never changes the structure of the document when typed or deleted
+ */
+const PLAIN_TEXT_PATTERN = /^[\p{L}\p{N}_ \t]*$/u;
+
+/**
+ * Characters that appear in delimiters of more than one character (e.g. * and / of comments, = and > of arrows)
+ */
+const MULTI_CHARACTER_DELIMITER_CHARACTERS = new Set(["/", "*", "-", "=", "<", ">", ":", "!", "{", "}", "[", "]", "$", "#", "&", "|", "%"]);
+
+/**
+ * Characters whose meaning depends on the characters right next to them (escapes, character literals, string prefixes)
+ */
+const CONTEXT_SENSITIVE_CHARACTERS = new Set(["\\", ...QUOTES_DELIMITERS]);
+
+/**
+ * Characters that may follow a string prefix (e.g. " of f"..." and # of r#"..."#)
+ */
+const STRING_PREFIX_END_CHARACTERS = new Set([...QUOTES_DELIMITERS, "#"]);
+
+/**
+ * Letters and digits, around which an apostrophe belongs to a word
+ */
+const WORD_CHARACTER_PATTERN = /[\p{L}\p{N}]/u;
+
+/**
+ * Characters of tag names, which must be re-parsed when they change
+ */
+const TAG_NAME_CHARACTER_PATTERN = /[\w$.:-]/;
+
+/**
+ * Builds the pair index of a document
+ * @param documentText Full document text
+ * @param languageId Language identifier of the document
+ * @param window Part of the document to scan; the whole document by default
+ */
+export const buildPairIndex = (documentText: string, languageId?: string, window?: TextWindow): PairIndex => {
+  const { start, end } = window ?? { start: 0, end: documentText.length };
+  const windowIndex = buildWindowIndex(documentText.slice(start, end), languageId);
+
+  // Offsets in the window are translated to document offsets
+  const translate = (offset: number) => offset + start;
+  return { ...mapOffsets(windowIndex, translate, translate), documentText, window: { start, end } };
+};
+
+/**
+ * Checks whether an index covers the whole window
+ */
+export const coversWindow = (index: PairIndex, window: TextWindow): boolean => {
+  return index.window.start <= window.start && window.end <= index.window.end;
+};
+
+/**
+ * Checks whether an index covers the whole document
+ */
+export const coversDocument = (index: PairIndex): boolean => {
+  return coversWindow(index, { start: 0, end: index.documentText.length });
+};
+
+/**
+ * Builds the pair index of a text
+ */
+const buildWindowIndex = (documentText: string, languageId?: string): PairIndex => {
+  const syntax = getLanguageSyntax(languageId);
+  const tokens = tokenize(documentText, syntax);
+  // Every string and comment is masked; delimiters inside the one with the cursor are found when querying
+  const scanText = maskNonCodeText(documentText, tokens, -1);
+
+  const pairs = {} as Record<BasicPairType, IndexedPair[]>;
+  for (const pairType of PAIR_KEYS) {
+    pairs[pairType] = linkParents(
+      findBasicPairs(scanText, pairType, syntax),
+      (pair) => pair.start,
+      (pair) => pair.end + 1
+    );
+  }
+
+  const delimiters = {} as Record<BracketDelimiter, { openings: number[]; closings: number[] }>;
+  for (const bracket of BRACKETS_DELIMITERS) {
+    const { opening, closing } = getPairDefinition(bracket);
+    // Operators are never paired with a fallback in languages with angle bracket rules
+    delimiters[bracket] =
+      bracket === "<" && syntax.angleBrackets
+        ? { openings: [], closings: [] }
+        : { openings: findAllOccurrences(scanText, opening), closings: findAllOccurrences(scanText, closing) };
+  }
+
+  const elements = linkParents(
+    parseTags(documentText, getTagParseMode(languageId)),
+    (element) => element.openingStart,
+    (element) => element.closingEnd
+  );
+
+  const markdownSpans = isMarkdownLanguage(languageId)
+    ? linkParents(
+        parseMarkdownSpans(documentText),
+        (span) => span.openingStart,
+        (span) => span.closingEnd
+      )
+    : [];
+  const codeBlocks = isMarkdownLanguage(languageId) ? findFencedCodeBlocks(documentText) : [];
+
+  return {
+    documentText,
+    languageId,
+    window: { start: 0, end: documentText.length },
+    tokens,
+    pairs,
+    delimiters,
+    elements,
+    markdownSpans,
+    codeBlocks,
+  };
+};
+
+/**
+ * Applies changes to a text
+ * @param changes Changes that do not overlap, with offsets in the text before the changes
+ * @returns The text after the changes
+ */
+export const applyTextChanges = (text: string, changes: readonly TextChange[]): string => {
+  // Apply the last change first, so earlier changes still refer to unshifted offsets
+  const sortedChanges = [...changes].sort((a, b) => b.offset - a.offset);
+  return sortedChanges.reduce(
+    (result, { offset, removedLength, insertedText }) => result.slice(0, offset) + insertedText + result.slice(offset + removedLength),
+    text
+  );
+};
+
+/**
+ * Updates a pair index after the document has changed
+ * Changes of plain text (e.g. typing a word) only shift offsets; any other change requires a rebuild.
+ * @param index Index of the text before the changes
+ * @param documentText Text after the changes
+ * @param changes Changes that do not overlap, with offsets in the text before the changes
+ * @returns The updated index, or null if the index must be rebuilt
+ */
+export const updatePairIndex = (index: PairIndex, documentText: string, changes: readonly TextChange[]): PairIndex | null => {
+  if (!changes.every((change) => isStructurePreserved(index, change))) {
+    return null;
+  }
+
+  // Apply the last change first, so earlier changes still refer to unshifted offsets
+  const sortedChanges = [...changes].sort((a, b) => b.offset - a.offset);
+  const shifted = sortedChanges.reduce(shiftPairIndex, index);
+
+  return { ...shifted, documentText };
+};
+
+/**
+ * Checks whether a change keeps every string, comment, pair and tag of the document
+ */
+const isStructurePreserved = (index: PairIndex, change: TextChange): boolean => {
+  const text = index.documentText;
+  const { offset, removedLength, insertedText } = change;
+  const changeEnd = offset + removedLength;
+
+  // Whether a Markdown delimiter opens or closes depends on the characters around it, even on spaces and letters
+  if (isMarkdownLanguage(index.languageId)) {
+    return false;
+  }
+
+  if (!PLAIN_TEXT_PATTERN.test(insertedText) || !PLAIN_TEXT_PATTERN.test(text.slice(offset, changeEnd))) {
+    return false;
+  }
+
+  // The change may split or join a delimiter such as */, => or ::
+  const before = offset > 0 ? text[offset - 1] : "";
+  const after = changeEnd < text.length ? text[changeEnd] : "";
+  if (MULTI_CHARACTER_DELIMITER_CHARACTERS.has(before) && MULTI_CHARACTER_DELIMITER_CHARACTERS.has(after)) {
+    return false;
+  }
+  if (CONTEXT_SENSITIVE_CHARACTERS.has(before) || CONTEXT_SENSITIVE_CHARACTERS.has(after)) {
+    return false;
+  }
+
+  // The change may turn the word before a string into a string prefix or back (e.g. f"..." or r#"..."#)
+  const wordPattern = /[\w$@]*/y;
+  wordPattern.lastIndex = changeEnd;
+  wordPattern.exec(text);
+  if (STRING_PREFIX_END_CHARACTERS.has(text.charAt(wordPattern.lastIndex))) {
+    return false;
+  }
+
+  // The change may rename a tag
+  let nameStart = offset;
+  while (nameStart > 0 && TAG_NAME_CHARACTER_PATTERN.test(text[nameStart - 1])) {
+    nameStart--;
+  }
+  if (text[nameStart - 1] === "<" || text.startsWith("</", nameStart - 2)) {
+    return false;
+  }
+
+  // The text before "<" decides whether it opens angle brackets or a JSX tag
+  if (
+    getLanguageSyntax(index.languageId).angleBrackets &&
+    text.slice(changeEnd, changeEnd + ANGLE_BRACKET_LOOKBEHIND_LENGTH).includes("<")
+  ) {
+    return false;
+  }
+  if (getTagParseMode(index.languageId) === "jsx") {
+    const jsxTagStartPattern = /[\w$]*\s*</y;
+    jsxTagStartPattern.lastIndex = changeEnd;
+    if (jsxTagStartPattern.test(text)) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Shifts the offsets of an index after a change that keeps its structure
+ */
+const shiftPairIndex = (index: PairIndex, change: TextChange): PairIndex => {
+  const { offset, removedLength, insertedText } = change;
+  const changeEnd = offset + removedLength;
+  const delta = insertedText.length - removedLength;
+
+  // Offsets of delimiters move with the text after the change, while exclusive ends of delimiters stay before inserted text
+  const shiftStart = (value: number): number => (value >= changeEnd ? value + delta : value);
+  const shiftEnd = (value: number): number => (value > offset ? value + delta : value);
+  return mapOffsets(index, shiftStart, shiftEnd);
+};
+
+/**
+ * Maps every offset of an index
+ * @param mapStart Maps offsets of delimiters and other characters
+ * @param mapEnd Maps exclusive ends of delimiters
+ */
+const mapOffsets = (index: PairIndex, mapStart: (offset: number) => number, mapEnd: (offset: number) => number): PairIndex => {
+  const mapPairs = (pairs: IndexedPair[]): IndexedPair[] =>
+    pairs.map((pair) => ({ ...pair, start: mapStart(pair.start), end: mapStart(pair.end) }));
+  const mapRecord = <K extends string, V, R>(record: Record<K, V>, map: (value: V) => R): Record<K, R> =>
+    Object.fromEntries(Object.entries<V>(record).map(([key, value]) => [key, map(value)])) as Record<K, R>;
+
+  return {
+    ...index,
+    // The window grows to include text typed at its edges
+    window: { start: mapEnd(index.window.start), end: mapStart(index.window.end) },
+    tokens: index.tokens.map((token) => ({
+      ...token,
+      start: mapStart(token.start),
+      contentStart: mapEnd(token.contentStart),
+      contentEnd: mapStart(token.contentEnd),
+      end: mapEnd(token.end),
+      ...(token.prefixEnd === undefined ? {} : { prefixEnd: mapEnd(token.prefixEnd) }),
+    })),
+    pairs: mapRecord(index.pairs, mapPairs),
+    delimiters: mapRecord(index.delimiters, ({ openings, closings }) => ({
+      openings: openings.map(mapStart),
+      closings: closings.map(mapStart),
+    })),
+    elements: index.elements.map((element) => {
+      // Self-closing elements close at the end of the opening tag, and omitted end tags where the next tag starts
+      const mapClosingStart = element.selfClosing ? mapEnd : mapStart;
+      const mapClosingEnd = element.selfClosing || element.hasClosingTag ? mapEnd : mapStart;
+      return {
+        ...element,
+        openingStart: mapStart(element.openingStart),
+        openingEnd: mapEnd(element.openingEnd),
+        closingStart: mapClosingStart(element.closingStart),
+        closingEnd: mapClosingEnd(element.closingEnd),
+      };
+    }),
+    markdownSpans: index.markdownSpans.map((span) => ({
+      ...span,
+      openingStart: mapStart(span.openingStart),
+      openingEnd: mapEnd(span.openingEnd),
+      closingStart: mapStart(span.closingStart),
+      closingEnd: mapEnd(span.closingEnd),
+    })),
+    codeBlocks: index.codeBlocks.map((block) => ({
+      ...block,
+      openingStart: mapStart(block.openingStart),
+      openingEnd: mapEnd(block.openingEnd),
+      closingStart: mapStart(block.closingStart),
+      closingEnd: mapEnd(block.closingEnd),
+    })),
+  };
+};
+
+/**
+ * Sorts nested items by start and links each one to the innermost item enclosing it
+ * @param getStart Gets the start of an item
+ * @param getEnd Gets the exclusive end of an item
+ */
+const linkParents = <T>(items: readonly T[], getStart: (item: T) => number, getEnd: (item: T) => number): (T & { parent: number })[] => {
+  const sorted = [...items].sort((a, b) => getStart(a) - getStart(b));
+  const linked: (T & { parent: number })[] = [];
+  const stack: number[] = [];
+
+  for (const item of sorted) {
+    while (stack.length > 0 && getEnd(sorted[stack[stack.length - 1]]) <= getStart(item)) {
+      stack.pop();
+    }
+
+    linked.push({ ...item, parent: stack.at(-1) ?? -1 });
+    stack.push(linked.length - 1);
+  }
+
+  return linked;
+};
+
+/**
+ * Finds the index of the last item that starts before the offset, or -1
+ * @param items Items sorted by start
+ */
+export const findLastStartingBefore = <T>(items: readonly T[], offset: number, getStart: (item: T) => number): number => {
+  let low = 0;
+  let high = items.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (getStart(items[middle]) < offset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low - 1;
+};
+
+/**
+ * Finds the innermost item around the offset that satisfies the predicate
+ * Only items enclosing the last item that starts before the offset can contain the offset, so only its ancestors are checked.
+ */
+export const findInnermost = <T extends { parent: number }>(
+  items: readonly T[],
+  offset: number,
+  getStart: (item: T) => number,
+  predicate: (item: T) => boolean
+): T | undefined => {
+  return findEnclosing(items, offset, getStart, predicate).at(-1);
+};
+
+/**
+ * Finds every item around the offset that satisfies the predicate, from the outermost to the innermost
+ */
+export const findEnclosing = <T extends { parent: number }>(
+  items: readonly T[],
+  offset: number,
+  getStart: (item: T) => number,
+  predicate: (item: T) => boolean
+): T[] => {
+  const enclosing: T[] = [];
+
+  for (let i = findLastStartingBefore(items, offset, getStart); i !== -1; i = items[i].parent) {
+    if (predicate(items[i])) {
+      enclosing.unshift(items[i]);
+    }
+  }
+
+  return enclosing;
+};
+
+/**
+ * Finds the string or comment whose content contains the offset
+ */
+export const findTokenAtOffset = (index: PairIndex, offset: number): Token | undefined => {
+  const tokenIndex = findLastStartingBefore(index.tokens, offset, (token) => token.start);
+  if (tokenIndex === -1) return undefined;
+
+  const token = index.tokens[tokenIndex];
+  return offset <= token.contentEnd ? token : undefined;
+};
+
+/**
+ * Finds the first offset after the given offset in a sorted list
+ */
+export const findFirstAfter = (offsets: readonly number[], offset: number): number | undefined => {
+  return offsets[findLastStartingBefore(offsets, offset + 1, (value) => value) + 1];
+};
+
+/**
+ * Finds the pairs of a basic pair type in text, sorted by start
+ * @param text Text to scan, usually with strings and comments masked out
+ */
+export const findBasicPairs = (text: string, pairType: BasicPairType, syntax: LanguageSyntax): OffsetPair[] => {
+  const { opening, closing, kind, multiline } = getPairDefinition(pairType);
+
+  if (kind === "quote") {
+    return findBalancedQuotePairs(text, opening, multiline ?? false, pairType === "'" && (syntax.intrawordApostrophes ?? false));
+  }
+
+  const pairs =
+    pairType === "<" && syntax.angleBrackets
+      ? findAngleBracketPairs(text, syntax.angleBrackets)
+      : findBalancedPairs(text, opening, closing);
+  return pairs.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Finds all occurrences of a string in text that do not overlap each other
+ */
+const findAllOccurrences = (text: string, searchString: string): number[] => {
+  const indices: number[] = [];
+  let searchIndex = 0;
+
+  while (searchIndex < text.length) {
+    const foundIndex = text.indexOf(searchString, searchIndex);
+    if (foundIndex === -1) break;
+
+    indices.push(foundIndex);
+    searchIndex = foundIndex + searchString.length;
+  }
+
+  return indices;
+};
+
+/**
+ * Finds balanced pairs of brackets in text
+ * Delimiters may be longer than one character; a closing delimiter overlapping the opening one (e.g. in <!-->) is skipped
+ */
+const findBalancedPairs = (text: string, opening: string, closing: string): OffsetPair[] => {
+  const pairs: OffsetPair[] = [];
+
+  // Find all occurrences of opening and closing brackets
+  const openingIndices = findAllOccurrences(text, opening);
+  const closingIndices = findAllOccurrences(text, closing);
+
+  // For brackets, use the stack-based approach
+  const stack: number[] = [];
+  const allIndices = [
+    ...openingIndices.map((index) => ({ index, type: "opening" as const })),
+    ...closingIndices.map((index) => ({ index, type: "closing" as const })),
+  ].sort((a, b) => a.index - b.index);
+
+  // Process brackets in order
+  for (const { index, type } of allIndices) {
+    if (type === "opening") {
+      stack.push(index);
+    } else {
+      // This is a closing bracket; pair it with the last opening bracket on the stack
+      const openingIndex = stack.at(-1);
+      if (openingIndex !== undefined && openingIndex + opening.length <= index) {
+        stack.pop();
+        pairs.push({ start: openingIndex, end: index });
+      }
+    }
+  }
+
+  return pairs;
+};
+
+/**
+ * Pair whose delimiters are found by patterns, as offsets
+ */
+export type PatternPair = {
+  openingStart: number;
+  openingEnd: number;
+  closingStart: number;
+  closingEnd: number;
+};
+
+/**
+ * Finds pairs of delimiters matching patterns in text, sorted by start
+ * Pairs are balanced like brackets, or matched in order like quotes when both patterns are the same.
+ * Empty matches are skipped.
+ * @param opening Pattern of the opening delimiter, with the global flag
+ * @param closing Pattern of the closing delimiter, with the global flag
+ */
+export const findPatternPairs = (text: string, opening: RegExp, closing: RegExp): PatternPair[] => {
+  const findMatches = (pattern: RegExp) =>
+    Array.from(text.matchAll(pattern))
+      .filter((match) => match[0] !== "")
+      .map((match) => ({ start: match.index, end: match.index + match[0].length }));
+  const pairs: PatternPair[] = [];
+
+  if (opening.source === closing.source) {
+    const matches = findMatches(opening);
+    for (let i = 0; i + 1 < matches.length; i += 2) {
+      const [open, close] = [matches[i], matches[i + 1]];
+      pairs.push({ openingStart: open.start, openingEnd: open.end, closingStart: close.start, closingEnd: close.end });
+    }
+    return pairs;
+  }
+
+  const delimiters = [
+    ...findMatches(opening).map((match) => ({ ...match, type: "opening" as const })),
+    ...findMatches(closing).map((match) => ({ ...match, type: "closing" as const })),
+  ].sort((a, b) => a.start - b.start);
+  const stack: { start: number; end: number }[] = [];
+
+  for (const delimiter of delimiters) {
+    if (delimiter.type === "opening") {
+      stack.push(delimiter);
+      continue;
+    }
+
+    // A closing delimiter overlapping the last opening one is skipped
+    const open = stack.at(-1);
+    if (open !== undefined && open.end <= delimiter.start) {
+      stack.pop();
+      pairs.push({ openingStart: open.start, openingEnd: open.end, closingStart: delimiter.start, closingEnd: delimiter.end });
+    }
+  }
+
+  return pairs.sort((a, b) => a.openingStart - b.openingStart);
+};
+
+/**
+ * Finds pairs of quotes in text
+ * Backslash-escaped quotes are skipped, and quotes that cannot span lines are
+ * only paired within the same line, so an unterminated quote does not shift later pairs
+ * @param multiline Whether the quotes may span multiple lines
+ * @param skipIntraword Whether quotes between two letters or digits are skipped (apostrophes in prose)
+ */
+const findBalancedQuotePairs = (text: string, quote: string, multiline: boolean, skipIntraword: boolean): OffsetPair[] => {
+  const pairs: OffsetPair[] = [];
+  let openingIndex: number | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === "\\") {
+      // Skip the escaped character
+      i++;
+      continue;
+    }
+
+    if (char === "\n" && !multiline) {
+      // Drop an unterminated quote at the end of the line
+      openingIndex = null;
+      continue;
+    }
+
+    if (skipIntraword && char === quote && isBetweenWordCharacters(text, i)) {
+      continue;
+    }
+
+    if (text.startsWith(quote, i)) {
+      if (openingIndex === null) {
+        openingIndex = i;
+      } else {
+        pairs.push({ start: openingIndex, end: i });
+        openingIndex = null;
+      }
+      i += quote.length - 1;
+    }
+  }
+
+  return pairs;
+};
+
+/**
+ * Checks whether the character at the index has a letter or digit on both sides
+ */
+const isBetweenWordCharacters = (text: string, index: number): boolean => {
+  return (
+    index > 0 && index + 1 < text.length && WORD_CHARACTER_PATTERN.test(text[index - 1]) && WORD_CHARACTER_PATTERN.test(text[index + 1])
+  );
+};
+
+/**
+ * Finds pairs of angle brackets that enclose type arguments or parameters (e.g. Array<string>, f<T>())
+ * "<" only opens a pair after text matching the preceding pattern, ">" of operators such as => and -> never closes one,
+ * and an open "<" is dropped when a breaker such as ";" or "&&" shows it was a comparison.
+ */
+const findAngleBracketPairs = (text: string, rules: AngleBracketSyntax): OffsetPair[] => {
+  const pairs: OffsetPair[] = [];
+  const stack: number[] = [];
+  // Balance of other brackets since the outermost open "<"; a closing bracket without an opening one ends the candidate
+  let bracketDepth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === "<") {
+      const operator = rules.openingOperators.find((op) => text.startsWith(op, i));
+      if (operator !== undefined) {
+        i += operator.length - 1;
+        continue;
+      }
+
+      if (rules.precedingPattern.test(text.slice(Math.max(0, i - ANGLE_BRACKET_LOOKBEHIND_LENGTH), i))) {
+        if (stack.length === 0) {
+          bracketDepth = 0;
+        }
+        stack.push(i);
+      } else {
+        // A comparison between angle brackets
+        stack.length = 0;
+      }
+      continue;
+    }
+
+    if (char === ">") {
+      // =>, -> and >=
+      if (rules.closingOperatorPrefixes.includes(text[i - 1]) || text[i + 1] === "=") continue;
+
+      const openingIndex = stack.pop();
+      if (openingIndex !== undefined) {
+        pairs.push({ start: openingIndex, end: i });
+      }
+      continue;
+    }
+
+    if (stack.length === 0) continue;
+
+    if (char === "(" || char === "[" || char === "{") {
+      bracketDepth++;
+    } else if (char === ")" || char === "]" || char === "}") {
+      bracketDepth--;
+    }
+
+    if (bracketDepth < 0 || rules.breakers.some((breaker) => text.startsWith(breaker, i))) {
+      stack.length = 0;
+    }
+  }
+
+  return pairs;
+};
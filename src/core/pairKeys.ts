@@ -0,0 +1,90 @@
+import { isPairKey } from "./pairs";
+import type { AnyPairKind, BasicPairType } from "./types";
+
+/**
+ * Table of keys that pick a pair in addition to its opening delimiter
+ * Keys are case-sensitive, so "b" and "B" can pick different pairs
+ */
+export type PairKeyAliases = Readonly<Record<string, BasicPairType>>;
+
+/**
+ * Aliases known from vim-surround and vim-sandwich: closing delimiters and mnemonic letters
+ */
+export const DEFAULT_PAIR_KEY_ALIASES: PairKeyAliases = {
+  ")": "(",
+  b: "(",
+  "}": "{",
+  B: "{",
+  "]": "[",
+  r: "[",
+  ">": "<",
+  a: "<",
+};
+
+/**
+ * Keys of the source pairs that match the nearest pair of any type of a kind
+ * They differ from the default aliases and the Markdown delimiters, so "b" keeps picking parentheses and "*" italic emphasis.
+ */
+export const ANY_PAIR_KEYS: Readonly<Record<AnyPairKind, string>> = {
+  auto: "n",
+  quote: "q",
+  bracket: "%",
+};
+
+/**
+ * Merges user aliases into the default aliases
+ * A user alias mapped to null removes the default alias of the key, and aliases to unknown pairs are ignored
+ * @param userAliases Aliases from the user, keyed by the typed key
+ */
+export const resolvePairKeyAliases = (userAliases: Readonly<Record<string, unknown>>): PairKeyAliases => {
+  const aliases = new Map(Object.entries(DEFAULT_PAIR_KEY_ALIASES));
+
+  for (const [key, pair] of Object.entries(userAliases)) {
+    if (key === "") {
+      continue;
+    }
+
+    if (pair === null) {
+      aliases.delete(key);
+    } else if (isPairKey(pair)) {
+      aliases.set(key, pair);
+    }
+  }
+
+  return Object.fromEntries(aliases);
+};
+
+/**
+ * Gets the alias keys of a pair
+ * @returns Keys in the order of the table
+ */
+export const getPairAliasKeys = (aliases: PairKeyAliases, pair: BasicPairType): string[] => {
+  return Object.entries(aliases)
+    .filter(([, aliasPair]) => aliasPair === pair)
+    .map(([key]) => key);
+};
+
+/**
+ * Item of a pair list that is picked by typing its label or one of its aliases
+ */
+export type KeyedItem = {
+  label: string;
+  aliases?: readonly string[];
+};
+
+/**
+ * Finds the item picked by a typed key
+ * Keys are matched case-sensitively, and an alias wins over a label so that an alias from the user overrides a built-in key.
+ */
+export const findKeyedItem = <T extends KeyedItem>(items: readonly T[], key: string): T | undefined => {
+  return items.find((item) => item.aliases?.includes(key)) ?? items.find((item) => item.label === key);
+};
+
+/**
+ * Finds the item to pick as soon as a key is typed
+ * A key that begins a longer label (e.g. "*" of "**") picks nothing, so that the next key can be typed.
+ */
+export const findAutoSelectItem = <T extends KeyedItem>(items: readonly T[], key: string): T | undefined => {
+  const isPrefixOfLongerLabel = items.some((item) => item.label.length > key.length && item.label.startsWith(key));
+  return isPrefixOfLongerLabel ? undefined : findKeyedItem(items, key);
+};
@@ -0,0 +1,77 @@
+import { isPairKey, PAIR_KEYS, type PairKey } from "./pairs";
+
+/**
+ * Key of the tag in the pair list; tags are only offered in HTML-like documents
+ */
+export const TAG_PAIR_LIST_KEY = "t";
+
+/**
+ * Keys of the pairs in the pair list: the built-in pairs and tags
+ */
+export type PairListKey = PairKey | typeof TAG_PAIR_LIST_KEY;
+
+/**
+ * Entry of the pair list, which sets how a pair is shown in the quick pick
+ */
+export type PairListEntry = {
+  key: PairListKey;
+  /** Key typed to pick the pair; the key of the pair is still accepted as an alias */
+  label?: string;
+  description?: string;
+};
+
+/**
+ * Pair list offering every built-in pair in the order of the registry, then tags
+ */
+export const DEFAULT_PAIR_LIST: readonly PairListKey[] = [...PAIR_KEYS, TAG_PAIR_LIST_KEY];
+
+/**
+ * Checks whether a value is the key of a pair in the pair list
+ */
+export const isPairListKey = (value: unknown): value is PairListKey => {
+  return value === TAG_PAIR_LIST_KEY || isPairKey(value);
+};
+
+/**
+ * Converts an entry of the pair list from the settings, or returns null if it is invalid
+ * An entry is a key, or an object with a key and optionally a label and description.
+ */
+const resolvePairListEntry = (entry: unknown): PairListEntry | null => {
+  if (isPairListKey(entry)) {
+    return { key: entry };
+  }
+  if (typeof entry !== "object" || entry === null) {
+    return null;
+  }
+
+  const { key, label, description } = entry as Record<string, unknown>;
+  if (!isPairListKey(key)) {
+    return null;
+  }
+
+  return {
+    key,
+    ...(typeof label === "string" && label !== "" ? { label } : {}),
+    ...(typeof description === "string" ? { description } : {}),
+  };
+};
+
+/**
+ * Converts the pair list from the settings, which sets the pairs offered and their order
+ * Entries of unknown pairs are ignored, and only the first entry of a pair is used.
+ * @param userList Pair list from the user; anything but an array gives the default list
+ */
+export const resolvePairList = (userList: unknown): PairListEntry[] => {
+  const entries: readonly unknown[] = Array.isArray(userList) ? userList : DEFAULT_PAIR_LIST;
+  const keys = new Set<PairListKey>();
+
+  return entries.flatMap((entry) => {
+    const resolved = resolvePairListEntry(entry);
+    if (!resolved || keys.has(resolved.key)) {
+      return [];
+    }
+
+    keys.add(resolved.key);
+    return [resolved];
+  });
+};
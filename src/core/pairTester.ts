@@ -0,0 +1,152 @@
+import { computeLineStarts, offsetToPosition, positionToOffset } from "./lines";
+import { findSurroundingPair, getAddRange, selectRange } from "./rangeSelector";
+import { getTextEdits } from "./textManipulator";
+import type { EditorState, OperationType, PairType, Range, SelectionRangeWithPairResult, SourcePairType, TextEdit } from "./types";
+
+/**
+ * Marker of the cursor in a sample text
+ * Two markers select the text between them, which is the range a pair is added around.
+ */
+export const CURSOR_MARKER = "|";
+
+/**
+ * Operation tried on a sample text
+ */
+export type PairTestInput = {
+  /** Sample text with the cursor marker */
+  sample: string;
+  operation: OperationType;
+  /** Pair found around the cursor (delete and replace) */
+  sourcePair?: SourcePairType;
+  /** Pair added (add and replace) */
+  destinationPair?: PairType;
+  /** Language identifier of the sample */
+  languageId?: string;
+  /** Number of levels added, or nesting depth of the pair found (default: 1) */
+  count?: number;
+  /** Whether the lines of delimiters on their own lines are removed with them (default: true, like the setting) */
+  removeDelimiterLines?: boolean;
+  /** Whether whitespace at the start and end of the range added around is left outside the pair (default: false, like the setting) */
+  trimRange?: boolean;
+};
+
+/**
+ * Result of an operation tried on a sample text
+ */
+export type PairTestResult =
+  | {
+      ok: true;
+      /** Sample text after the operation, without the cursor marker */
+      text: string;
+      /** Text inside the pair found around the cursor, if any */
+      foundText?: string;
+    }
+  | {
+      ok: false;
+      message: string;
+    };
+
+/**
+ * Creates the editor state of a sample text with the cursor markers removed
+ * @returns The editor state, or null if the sample has no marker or more than two
+ */
+const createSampleEditorState = (sample: string, languageId?: string): EditorState | null => {
+  const parts = sample.split(CURSOR_MARKER);
+  if (parts.length < 2 || parts.length > 3) {
+    return null;
+  }
+
+  const documentText = parts.join("");
+  const lineStarts = computeLineStarts(documentText);
+  const eol = documentText.includes("\r\n") ? "\r\n" : "\n";
+  const lines = documentText.split(eol);
+  const start = offsetToPosition(lineStarts, parts[0].length, eol);
+  const end = offsetToPosition(lineStarts, parts[0].length + (parts.length === 3 ? parts[1].length : 0), eol);
+
+  return {
+    documentText,
+    cursorPosition: end,
+    selection: { start, end },
+    getLineText: (lineNumber: number) => lines[lineNumber] ?? "",
+    lineStarts,
+    eol,
+    languageId,
+  };
+};
+
+/**
+ * Applies text edits to a text
+ * The edits must not overlap; they are applied from the end so that earlier offsets stay valid.
+ */
+const applyTextEdits = (editorState: EditorState, edits: readonly TextEdit[]): string => {
+  const toOffsets = (range: Range) => [
+    positionToOffset(editorState.lineStarts, range.start),
+    positionToOffset(editorState.lineStarts, range.end),
+  ];
+
+  return edits
+    .map((edit) => ({ offsets: toOffsets(edit.range), newText: edit.newText }))
+    .sort((a, b) => b.offsets[0] - a.offsets[0])
+    .reduce((text, { offsets, newText }) => text.slice(0, offsets[0]) + newText + text.slice(offsets[1]), editorState.documentText);
+};
+
+/**
+ * Gets the range an operation works on: the selection or the line for add, and the pair around the cursor otherwise
+ * @returns The range with the pair found, or a message if there is none
+ */
+const findTarget = (
+  editorState: EditorState,
+  input: PairTestInput
+): { range: SelectionRangeWithPairResult; foundPair?: PairType } | string => {
+  if (input.operation === "add") {
+    const hasSelection = input.sample.split(CURSOR_MARKER).length === 3;
+    const range = selectRange(hasSelection ? "s" : "_", editorState);
+    return range ? { range } : "No range to add the pair around";
+  }
+
+  if (!input.sourcePair) {
+    return "Choose the pair to find";
+  }
+
+  const surroundingPair = findSurroundingPair(editorState, input.sourcePair, input.count);
+  return surroundingPair ? { range: surroundingPair, foundPair: surroundingPair.pairType } : "No surrounding pair found at the cursor";
+};
+
+/**
+ * Tries an operation on a sample text, finding and editing pairs like the commands do
+ * The count is the number of levels added for add, and the nesting depth of the pair found otherwise.
+ */
+export const runPairTest = (input: PairTestInput): PairTestResult => {
+  const editorState = createSampleEditorState(input.sample, input.languageId);
+  if (!editorState) {
+    return { ok: false, message: `Mark the cursor with ${CURSOR_MARKER}, or the range with two ${CURSOR_MARKER}` };
+  }
+
+  const target = findTarget(editorState, input);
+  if (typeof target === "string") {
+    return { ok: false, message: target };
+  }
+
+  const { range, foundPair } = target;
+  const destinationPair = input.operation === "delete" ? foundPair : input.destinationPair;
+  if (!destinationPair) {
+    return { ok: false, message: "Choose the pair to add" };
+  }
+
+  try {
+    // The range to add around is prepared like the add command does
+    const addRange = input.operation === "add" ? getAddRange(editorState, range, destinationPair) : { range, linewise: false };
+    const sourcePair = input.operation === "replace" ? foundPair : undefined;
+    const edits = getTextEdits(input.operation, addRange.range, destinationPair, sourcePair, {
+      count: input.operation === "add" ? input.count : 1,
+      eol: editorState.eol,
+      linewise: addRange.linewise,
+      removeDelimiterLines: input.removeDelimiterLines ?? true,
+      trimRange: input.trimRange ?? false,
+      getLineText: editorState.getLineText,
+    });
+    return { ok: true, text: applyTextEdits(editorState, edits), ...(foundPair ? { foundText: range.text } : {}) };
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : String(error) };
+  }
+};
@@ -0,0 +1,137 @@
+/**
+ * Kinds of pairs
+ * - quote: the same delimiter opens and closes, and pairs never nest (e.g. strings)
+ * - bracket: pairs nest and are balanced
+ * - block: other delimiters that are balanced like brackets, such as comments and template tags
+ */
+export type PairKind = "quote" | "bracket" | "block";
+
+/**
+ * Definition of a pair of delimiters, which may be longer than one character
+ */
+export type PairDefinition = {
+  opening: string;
+  closing: string;
+  kind: PairKind;
+  description: string;
+  /** Whether a quote may span multiple lines; other quotes are paired within a single line only */
+  multiline?: boolean;
+  /** Languages offering the pair; every language if omitted */
+  languages?: readonly string[];
+  /** Languages not offering the pair */
+  excludedLanguages?: readonly string[];
+};
+
+/**
+ * Languages with C-style block comments
+ */
+const C_COMMENT_LANGUAGES = [
+  "javascript",
+  "javascriptreact",
+  "typescript",
+  "typescriptreact",
+  "jsonc",
+  "c",
+  "cpp",
+  "csharp",
+  "java",
+  "php",
+  "go",
+  "rust",
+  "swift",
+  "kotlin",
+  "scala",
+  "dart",
+  "css",
+  "scss",
+  "less",
+  "sql",
+];
+
+/**
+ * Registry of the built-in pairs, keyed by the key that picks the pair
+ * The order is the order of the options in the quick pick.
+ */
+export const PAIR_DEFINITIONS = {
+  "'": { opening: "'", closing: "'", kind: "quote", description: "Single quotes" },
+  '"': { opening: '"', closing: '"', kind: "quote", description: "Double quotes" },
+  // Back quotes are code spans in Markdown, which have their own option
+  "`": { opening: "`", closing: "`", kind: "quote", description: "Back quotes", multiline: true, excludedLanguages: ["markdown"] },
+  "(": { opening: "(", closing: ")", kind: "bracket", description: "Parentheses" },
+  "{": { opening: "{", closing: "}", kind: "bracket", description: "Braces" },
+  "[": { opening: "[", closing: "]", kind: "bracket", description: "Brackets" },
+  "<": { opening: "<", closing: ">", kind: "bracket", description: "Angle brackets" },
+  "/*": { opening: "/*", closing: "*/", kind: "block", description: "Block comment", languages: C_COMMENT_LANGUAGES },
+  "<!--": {
+    opening: "<!--",
+    closing: "-->",
+    kind: "block",
+    description: "HTML comment",
+    languages: ["html", "xml", "vue", "svelte", "markdown"],
+  },
+  "{{": {
+    opening: "{{",
+    closing: "}}",
+    kind: "block",
+    description: "Template expression",
+    languages: ["handlebars", "django-html", "jinja-html", "twig", "liquid"],
+  },
+  "<%=": { opening: "<%=", closing: "%>", kind: "block", description: "Embedded Ruby output", languages: ["erb", "ejs"] },
+} as const satisfies Record<string, PairDefinition>;
+
+/**
+ * Keys of the built-in pairs
+ */
+export type PairKey = keyof typeof PAIR_DEFINITIONS;
+
+/**
+ * Keys of the built-in pairs of a kind
+ */
+export type PairKeyOfKind<K extends PairKind> = {
+  [P in PairKey]: (typeof PAIR_DEFINITIONS)[P]["kind"] extends K ? P : never;
+}[PairKey];
+
+/**
+ * Keys of every built-in pair, in the order of the registry
+ */
+export const PAIR_KEYS = Object.keys(PAIR_DEFINITIONS) as PairKey[];
+
+/**
+ * Checks whether a value is the key of a built-in pair
+ */
+export const isPairKey = (value: unknown): value is PairKey => {
+  return typeof value === "string" && Object.hasOwn(PAIR_DEFINITIONS, value);
+};
+
+/**
+ * Gets the definition of a built-in pair
+ */
+export const getPairDefinition = (key: PairKey): PairDefinition => {
+  return PAIR_DEFINITIONS[key];
+};
+
+/**
+ * Gets the keys of the built-in pairs of a kind
+ */
+export const getPairKeysOfKind = <K extends PairKind>(kind: K): PairKeyOfKind<K>[] => {
+  return PAIR_KEYS.filter((key): key is PairKeyOfKind<K> => PAIR_DEFINITIONS[key].kind === kind);
+};
+
+/**
+ * Checks whether a pair is offered in a language
+ * @param languageId Language identifier of the document; only pairs of every language are offered if omitted
+ */
+export const isPairAvailable = (definition: PairDefinition, languageId?: string): boolean => {
+  if (definition.languages) {
+    return languageId !== undefined && definition.languages.includes(languageId);
+  }
+
+  return languageId === undefined || !(definition.excludedLanguages?.includes(languageId) ?? false);
+};
+
+/**
+ * Gets the keys of the built-in pairs offered in a language, in the order of the registry
+ */
+export const getAvailablePairKeys = (languageId?: string): PairKey[] => {
+  return PAIR_KEYS.filter((key) => isPairAvailable(PAIR_DEFINITIONS[key], languageId));
+};
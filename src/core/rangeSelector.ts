@@ -1,14 +1,48 @@
+import { getLanguageSyntax } from "./languages";
+import { isStringForm, maskNonCodeText, tokenize, type Token } from "./lexer";
+import { findLineAt, offsetToPosition, positionToOffset } from "./lines";
+import {
+  buildPairIndex,
+  coversDocument,
+  findBasicPairs,
+  findEnclosing,
+  findFirstAfter,
+  findInnermost,
+  findLastStartingBefore,
+  findPatternPairs,
+  findTokenAtOffset,
+  type IndexedElement,
+  type IndexedMarkdownSpan,
+  type OffsetPair,
+  type PairIndex,
+} from "./pairIndex";
+import { getAvailablePairKeys, getPairDefinition } from "./pairs";
+import { getTagParseMode, isSameTagName } from "./tagParser";
+import { isLinewisePair } from "./textManipulator";
 import {
   BRACKETS_DELIMITERS,
-  PAIR_DELIMITERS,
-  QUOTES_DELIMITERS,
+  isAnyPairType,
+  isBrackets,
+  isFencePairType,
+  isLinkPairType,
+  isMarkdownPairType,
+  isQuotes,
+  isRecipePairType,
+  type AnyPairKind,
   type BasicPairType,
+  type BracketDelimiter,
+  type CancellationToken,
   type EditorState,
   type PairType,
   type Position,
+  type QuoteDelimiter,
   type Range,
   type RangeType,
+  type RecipePairType,
   type SelectionRangeWithPairResult,
+  type SourcePairType,
+  type SurroundingPairResult,
+  type TextWindow,
 } from "./types";
 
 /**
@@ -80,20 +114,27 @@ const selectCurrentSelection = (editorState: EditorState): SelectionRangeWithPai
     return null;
   }
 
-  const text = getTextFromRange(editorState, selection);
+  return selectCustomRange(editorState, selection);
+};
+
+/**
+ * Selects a range given by the caller, such as a range type of a hook
+ */
+export const selectCustomRange = (editorState: EditorState, range: Range): SelectionRangeWithPairResult => {
+  const text = getTextFromRange(editorState, range);
 
   // startRangeとendRangeを追加
   const startRange: Range = {
-    start: selection.start,
-    end: selection.start,
+    start: range.start,
+    end: range.start,
   };
 
   const endRange: Range = {
-    start: selection.end,
-    end: selection.end,
+    start: range.end,
+    end: range.end,
   };
 
-  return { range: selection, startRange, endRange, text };
+  return { range, startRange, endRange, text };
 };
 
 /**
@@ -104,198 +145,98 @@ const isEmptySelection = (selection: Range): boolean => {
 };
 
 /**
- * Gets text from a range in the editor state
+ * Expands a range to the whole lines it covers
+ * A range ending at the start of a line does not cover that line, like a selection of whole lines in the editor.
  */
-const getTextFromRange = (editorState: EditorState, range: Range): string => {
-  if (range.start.line === range.end.line) {
-    // Single line selection
-    const lineText = editorState.getLineText(range.start.line);
-    return lineText.substring(range.start.character, range.end.character);
-  }
+export const expandToLines = (editorState: EditorState, range: Range): SelectionRangeWithPairResult => {
+  const endLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+  const start: Position = { line: range.start.line, character: 0 };
+  const end: Position = { line: endLine, character: editorState.getLineText(endLine).length };
+  const linesRange: Range = { start, end };
 
-  // Multi-line selection
-  const lines: string[] = [];
+  return {
+    range: linesRange,
+    startRange: { start, end: start },
+    endRange: { start: end, end },
+    text: getTextFromRange(editorState, linesRange),
+  };
+};
 
-  // First line (from start character to end of line)
-  lines.push(editorState.getLineText(range.start.line).substring(range.start.character));
+/**
+ * Checks whether a range covers whole lines, so that a pair can be put on its own lines around them
+ * The range may leave out the indentation of its first line and the trailing whitespace of its last line,
+ * or end at the start of the next line; the lines must not all be blank.
+ */
+export const coversWholeLines = (editorState: EditorState, range: Range): boolean => {
+  const endsAtLineStart = range.end.character === 0 && range.end.line > range.start.line;
+  const endLine = endsAtLineStart ? range.end.line - 1 : range.end.line;
+  const textBefore = editorState.getLineText(range.start.line).slice(0, range.start.character);
+  const textAfter = endsAtLineStart ? "" : editorState.getLineText(range.end.line).slice(range.end.character);
+  const lines = Array.from({ length: endLine - range.start.line + 1 }, (_, index) => editorState.getLineText(range.start.line + index));
+
+  return textBefore.trim() === "" && textAfter.trim() === "" && lines.some((line) => line.trim() !== "");
+};
 
-  // Middle lines (complete lines)
-  for (let i = range.start.line + 1; i < range.end.line; i++) {
-    lines.push(editorState.getLineText(i));
+/**
+ * Gets the range a pair is added around, and whether the pair goes on its own lines around it
+ * Code blocks wrap whole lines, and brackets, tags and recipes around whole lines go on their own lines.
+ */
+export const getAddRange = (
+  editorState: EditorState,
+  range: SelectionRangeWithPairResult,
+  pair: PairType
+): { range: SelectionRangeWithPairResult; linewise: boolean } => {
+  if (isFencePairType(pair)) {
+    return { range: expandToLines(editorState, range.range), linewise: false };
   }
 
-  // Last line (from start of line to end character)
-  lines.push(editorState.getLineText(range.end.line).substring(0, range.end.character));
-
-  return lines.join("\n");
-};
+  if (isLinewisePair(pair) && coversWholeLines(editorState, range.range)) {
+    return { range: expandToLines(editorState, range.range), linewise: true };
+  }
 
-// Types for tag operations
-type TagMatch = {
-  name: string;
-  position: Position;
-  index: number;
+  return { range, linewise: false };
 };
 
-type TagPair = {
-  name: string;
-  openingStart: number;
-  openingEnd: number;
-  closingStart: number;
-  closingEnd: number;
+/**
+ * Gets text from a range in the editor state
+ * The text keeps the end of line sequences of the document
+ */
+const getTextFromRange = (editorState: EditorState, range: Range): string => {
+  const { documentText, lineStarts } = editorState;
+  return documentText.slice(positionToOffset(lineStarts, range.start), positionToOffset(lineStarts, range.end));
 };
 
 /**
- * Finds the inner content of a tag at the cursor position
- * Example: <div>inner content</div> -> selects "inner content"
+ * Gets the pair index of the document, building it if the editor state does not carry one
  */
-const findInnerTagContent = (editorState: EditorState): SelectionRangeWithPairResult | null => {
-  const { documentText, cursorPosition } = editorState;
-  const cursorOffset = positionToOffset(editorState, cursorPosition);
-
-  // Find the opening tag before cursor
-  const openingTag = findOpeningTagBeforeCursor(documentText, cursorOffset);
-  if (!openingTag) return null;
-
-  // Find the matching closing tag after the opening tag
-  const closingTag = findMatchingClosingTagForInnerContent(documentText, openingTag.name, openingTag.endIndex);
-  if (!closingTag) return null;
-
-  // Create range from end of opening tag to start of closing tag
-  const openingEndPosition = offsetToPosition(editorState, openingTag.endIndex);
-  const closingStartPosition = offsetToPosition(editorState, closingTag.startIndex);
-
-  const range: Range = {
-    start: openingEndPosition,
-    end: closingStartPosition,
-  };
-
-  const startRange: Range = {
-    start: offsetToPosition(editorState, openingTag.startIndex),
-    end: openingEndPosition,
-  };
-
-  const endRange: Range = {
-    start: closingStartPosition,
-    end: offsetToPosition(editorState, closingTag.endIndex),
-  };
-
-  const text = getTextFromRange(editorState, range);
-  return { range, startRange, endRange, text };
+const getPairIndex = (editorState: EditorState): PairIndex => {
+  return editorState.pairIndex ?? buildPairIndex(editorState.documentText, editorState.languageId);
 };
 
 /**
- * Finds the opening tag before the cursor position
+ * Finds the innermost element whose content contains the offset (boundaries included)
  */
-const findOpeningTagBeforeCursor = (
-  documentText: string,
-  cursorOffset: number
-): { name: string; startIndex: number; endIndex: number } | null => {
-  // Cursor is out of range
-  if (cursorOffset < 0 || cursorOffset >= documentText.length) {
-    return null;
-  }
-
-  // Search for opening tag before cursor
-  let depth = 0;
-  for (let i = cursorOffset; i >= 0; i--) {
-    if (documentText[i] === ">") {
-      depth++;
-    } else if (documentText[i] === "<" && depth > 0) {
-      depth--;
-      if (depth === 0) {
-        // Extract tag name
-        const tagMatch = /<([A-Za-z][\dA-Za-z]*)/.exec(documentText.substring(i));
-        if (tagMatch) {
-          const tagName = tagMatch[1];
-          const startIndex = i;
-          let endIndex = i + tagMatch[0].length;
-
-          // Find the end of the opening tag
-          while (endIndex < documentText.length && documentText[endIndex] !== ">") {
-            endIndex++;
-          }
-
-          if (endIndex < documentText.length) {
-            endIndex++; // Include the '>'
-            return { name: tagName, startIndex, endIndex };
-          }
-        }
-      }
-    }
-  }
-
-  return null;
+const findInnermostElementAt = (elements: readonly IndexedElement[], offset: number): IndexedElement | null => {
+  return (
+    findInnermost(
+      elements,
+      offset,
+      (element) => element.openingStart,
+      (element) => !element.selfClosing && element.openingEnd <= offset && offset <= element.closingStart
+    ) ?? null
+  );
 };
 
 /**
- * Finds the matching closing tag for inner content selection
+ * Finds the inner content of a tag at the cursor position
+ * Example: <div>inner content</div> -> selects "inner content"
  */
-const findMatchingClosingTagForInnerContent = (
-  documentText: string,
-  tagName: string,
-  afterIndex: number
-): { startIndex: number; endIndex: number } | null => {
-  // Search for closing tag after the opening tag
-  let depth = 0;
-  for (let i = afterIndex; i < documentText.length; i++) {
-    if (i + 2 < documentText.length && documentText[i] === "<") {
-      // Check for any opening tag
-      if (documentText[i + 1] !== "/") {
-        const anyOpenTagRegex = /<([A-Za-z][\dA-Za-z]*)/;
-        const anyOpenTagMatch = anyOpenTagRegex.exec(documentText.substring(i));
-        if (anyOpenTagMatch) {
-          // If we find any opening tag, increase depth
-          depth++;
-          // Skip to the end of this tag to avoid double counting
-          let skipTo = i + anyOpenTagMatch[0].length;
-          while (skipTo < documentText.length && documentText[skipTo] !== ">") {
-            skipTo++;
-          }
-          if (skipTo < documentText.length) {
-            i = skipTo;
-          }
-        }
-      } else {
-        // Check for any closing tag
-        const anyCloseTagRegex = /<\/([A-Za-z][\dA-Za-z]*)/;
-        const anyCloseTagMatch = anyCloseTagRegex.exec(documentText.substring(i));
-        if (anyCloseTagMatch) {
-          const closedTagName = anyCloseTagMatch[1];
-
-          // If this is our target tag and we're at the correct nesting level
-          if (closedTagName === tagName && depth === 0) {
-            const startIndex = i;
-            let endIndex = i + anyCloseTagMatch[0].length;
-
-            // Find the end of the closing tag
-            while (endIndex < documentText.length && documentText[endIndex] !== ">") {
-              endIndex++;
-            }
-
-            if (endIndex < documentText.length) {
-              endIndex++; // Include the '>'
-              return { startIndex, endIndex };
-            }
-          }
-
-          // Decrease depth for any closing tag
-          depth--;
-
-          // Skip to the end of this tag
-          let skipTo = i + anyCloseTagMatch[0].length;
-          while (skipTo < documentText.length && documentText[skipTo] !== ">") {
-            skipTo++;
-          }
-          if (skipTo < documentText.length) {
-            i = skipTo;
-          }
-        }
-      }
-    }
-  }
+const findInnerTagContent = (editorState: EditorState): SelectionRangeWithPairResult | null => {
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
+  const element = findInnermostElementAt(getPairIndex(editorState).elements, cursorOffset);
+  if (!element) return null;
 
-  return null;
+  return createSelectionResult(editorState, element);
 };
 
 /**
@@ -303,193 +244,52 @@ const findMatchingClosingTagForInnerContent = (
  * Example: <div>content</div> -> selects "<div>content</div>"
  */
 const findEntireTag = (editorState: EditorState): SelectionRangeWithPairResult | null => {
-  const { documentText, cursorPosition } = editorState;
-  const cursorOffset = positionToOffset(editorState, cursorPosition);
-
-  // Find the closing tag after cursor
-  const closingTag = findClosingTagAfterCursor(documentText, cursorOffset);
-  if (!closingTag) return null;
-
-  // Find the matching opening tag
-  const openingTag = findMatchingOpeningTag(documentText, closingTag.name, closingTag.index);
-  if (!openingTag) return null;
-
-  // Create range from start of opening tag to end of closing tag
-  const openingStartPosition = offsetToPosition(editorState, openingTag.index);
-  const closingEndPosition = offsetToPosition(editorState, closingTag.index + closingTag.name.length + 3); // +3 for "</", ">"
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
+  const element = findInnermostElementAt(getPairIndex(editorState).elements, cursorOffset);
+  if (!element) return null;
 
   const range: Range = {
-    start: openingStartPosition,
-    end: closingEndPosition,
+    start: offsetToPosition(editorState.lineStarts, element.openingStart, editorState.eol),
+    end: offsetToPosition(editorState.lineStarts, element.closingEnd, editorState.eol),
   };
 
   const startRange: Range = {
-    start: openingStartPosition,
-    end: offsetToPosition(editorState, openingTag.index + openingTag.name.length + 2), // +2 for "<" and ">"
+    start: range.start,
+    end: offsetToPosition(editorState.lineStarts, element.openingEnd, editorState.eol),
   };
 
   const endRange: Range = {
-    start: offsetToPosition(editorState, closingTag.index),
-    end: closingEndPosition,
+    start: offsetToPosition(editorState.lineStarts, element.closingStart, editorState.eol),
+    end: range.end,
   };
 
   const text = getTextFromRange(editorState, range);
   return { range, startRange, endRange, text };
 };
 
-/**
- * Finds the closing tag after the cursor
- */
-const findClosingTagAfterCursor = (documentText: string, cursorOffset: number): TagMatch | null => {
-  // Track tag nesting to find the correct closing tag
-  let depth = 0;
-  let i = cursorOffset;
-
-  while (i < documentText.length) {
-    // Look for opening or closing tags
-    if (documentText[i] === "<") {
-      if (i + 1 < documentText.length && documentText[i + 1] === "/") {
-        // This is a closing tag
-        const closeTagRegex = /<\/([A-Za-z][\dA-Za-z]*)/;
-        const closeTagMatch = closeTagRegex.exec(documentText.substring(i));
-
-        if (closeTagMatch) {
-          if (depth === 0) {
-            // This is the closing tag we're looking for
-            return {
-              name: closeTagMatch[1],
-              position: { line: 0, character: 0 }, // Will be converted later if needed
-              index: i,
-            };
-          }
-
-          // Decrease nesting depth
-          depth--;
-
-          // Skip to the end of this tag
-          i += closeTagMatch[0].length;
-          while (i < documentText.length && documentText[i] !== ">") {
-            i++;
-          }
-        }
-      } else {
-        // This is an opening tag
-        const openTagRegex = /<([A-Za-z][\dA-Za-z]*)/;
-        const openTagMatch = openTagRegex.exec(documentText.substring(i));
-
-        if (openTagMatch) {
-          // Increase nesting depth
-          depth++;
-
-          // Skip to the end of this tag
-          i += openTagMatch[0].length;
-          while (i < documentText.length && documentText[i] !== ">") {
-            i++;
-          }
-        }
-      }
-    }
-
-    i++;
-  }
-
-  return null;
-};
-
-/**
- * Finds the matching opening tag for a closing tag
- */
-const findMatchingOpeningTag = (documentText: string, tagName: string, closingTagIndex: number): TagMatch | null => {
-  // Track tag nesting to find the correct opening tag
-  let depth = 0;
-
-  // Search backwards from the closing tag
-  const textBeforeClosingTag = documentText.substring(0, closingTagIndex);
-
-  // Find all opening and closing tags of the same name
-  const openingTagRegex = new RegExp(`<${tagName}(?:\\s[^>]*)?>`, "g");
-  const closingTagRegex = new RegExp(`</${tagName}\\s*>`, "g");
-
-  const openingMatches: { index: number; length: number }[] = [];
-  const closingMatches: { index: number }[] = [];
-
-  // Find all opening tags
-  let openMatch: RegExpExecArray | null;
-  while ((openMatch = openingTagRegex.exec(textBeforeClosingTag)) !== null) {
-    openingMatches.push({
-      index: openMatch.index,
-      length: openMatch[0].length,
-    });
-  }
-
-  // Find all closing tags
-  let closeMatch: RegExpExecArray | null;
-  while ((closeMatch = closingTagRegex.exec(textBeforeClosingTag)) !== null) {
-    closingMatches.push({ index: closeMatch.index });
-  }
-
-  // Sort all matches by index
-  const allMatches = [
-    ...openingMatches.map((m) => ({ type: "open" as const, index: m.index, length: m.length })),
-    ...closingMatches.map((m) => ({ type: "close" as const, index: m.index })),
-  ].sort((a, b) => b.index - a.index); // Sort in reverse order
-
-  // Process matches in reverse order to find the matching opening tag
-  depth = 0;
-  for (const match of allMatches) {
-    if (match.type === "close") {
-      depth++;
-    } else {
-      if (depth === 0) {
-        // This is the matching opening tag
-        return {
-          name: tagName,
-          position: { line: 0, character: 0 }, // Will be converted later if needed
-          index: match.index,
-        };
-      }
-      depth--;
-    }
-  }
-
-  return null;
-};
-
 /**
  * Finds the self-closing tag at the cursor position
+ * Void elements such as <br> and <img> are treated as self-closing in HTML
  * Example: <img src="..." /> -> selects "<img src="..." />"
  */
 const findSelfClosingTag = (editorState: EditorState): SelectionRangeWithPairResult | null => {
-  const { documentText, cursorPosition } = editorState;
-  const cursorOffset = positionToOffset(editorState, cursorPosition);
-
-  // Find self-closing tags
-  const selfClosingTagRegex = /<([A-Za-z][\dA-Za-z]*)[^>]*\/>/g;
-  let match: RegExpExecArray | null;
-  let bestMatch: { start: number; end: number } | null = null;
-
-  // Find all self-closing tags in the document
-  while ((match = selfClosingTagRegex.exec(documentText)) !== null) {
-    const startOffset = match.index;
-    const endOffset = startOffset + match[0].length;
-
-    // If cursor is within this tag
-    if (cursorOffset >= startOffset && cursorOffset <= endOffset) {
-      bestMatch = { start: startOffset, end: endOffset };
-      break;
-    }
-
-    // If this tag is after the cursor and we haven't found a match yet
-    if (startOffset > cursorOffset && !bestMatch) {
-      bestMatch = { start: startOffset, end: endOffset };
-    }
-  }
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
+  const { elements } = getPairIndex(editorState);
+
+  // Prefer the tag containing the cursor, then the first tag after the cursor
+  // Nothing is nested in a self-closing tag, so one containing the cursor is the last element starting at or before it
+  const lastIndex = findLastStartingBefore(elements, cursorOffset + 1, (element) => element.openingStart);
+  const containing = lastIndex === -1 ? undefined : elements[lastIndex];
+  const bestMatch =
+    containing?.selfClosing && cursorOffset <= containing.openingEnd
+      ? containing
+      : elements.slice(lastIndex + 1).find((element) => element.selfClosing);
 
   if (!bestMatch) return null;
 
   // Convert offsets to positions
-  const startPosition = offsetToPosition(editorState, bestMatch.start);
-  const endPosition = offsetToPosition(editorState, bestMatch.end);
+  const startPosition = offsetToPosition(editorState.lineStarts, bestMatch.openingStart, editorState.eol);
+  const endPosition = offsetToPosition(editorState.lineStarts, bestMatch.openingEnd, editorState.eol);
 
   const range: Range = {
     start: startPosition,
@@ -512,52 +312,6 @@ const findSelfClosingTag = (editorState: EditorState): SelectionRangeWithPairRes
   return { range, startRange, endRange, text };
 };
 
-/**
- * Converts a position (line, character) to an offset in the document text
- */
-const positionToOffset = (editorState: EditorState, position: Position): number => {
-  let offset = 0;
-
-  // Add all lines before the target line
-  for (let i = 0; i < position.line; i++) {
-    offset += editorState.getLineText(i).length + 1; // +1 for newline character
-  }
-
-  // Add characters in the target line
-  offset += position.character;
-
-  return offset;
-};
-
-/**
- * Converts an offset in the document text to a position (line, character)
- */
-const offsetToPosition = (editorState: EditorState, offset: number): Position => {
-  let currentOffset = 0;
-  let line = 0;
-  const MAX_LINES = 100000; // Safety limit
-
-  // Find the line that contains the offset
-  while (line < MAX_LINES) {
-    const lineText = editorState.getLineText(line);
-    const lineLength = lineText.length + 1; // +1 for newline character
-
-    if (currentOffset + lineLength > offset) {
-      // This line contains the offset
-      return {
-        line,
-        character: offset - currentOffset,
-      };
-    }
-
-    currentOffset += lineLength;
-    line++;
-  }
-
-  console.error("Maximum line count exceeded in offsetToPosition");
-  return { line: 0, character: 0 };
-};
-
 /**
  * Type for detected pair information
  */
@@ -569,40 +323,68 @@ export type DetectedPair = {
 
 /**
  * Finds all surrounding pairs at the cursor position
+ * @param recipes Recipe pairs found in addition to the built-in pairs
  */
-export const findAllSurroundingPairs = (editorState: EditorState): DetectedPair[] => {
-  const quotePairs = findQuotePairs(editorState);
-  const bracketPairs = findBracketPairs(editorState);
-  const tagPairs = findSurroundingTagPairs(editorState);
+export const findAllSurroundingPairs = (editorState: EditorState, recipes: readonly RecipePairType[] = []): DetectedPair[] => {
+  return findAllSurroundingPairsInIndex(editorState, getPairIndex(editorState), recipes);
+};
 
-  return [...quotePairs, ...bracketPairs, ...tagPairs];
+/**
+ * Finds all surrounding pairs at the cursor position in an index
+ * @param window Part of the index searched for recipes, which are not indexed; the window of the index by default
+ */
+const findAllSurroundingPairsInIndex = (
+  editorState: EditorState,
+  index: PairIndex,
+  recipes: readonly RecipePairType[],
+  window: TextWindow = index.window
+): DetectedPair[] => {
+  const quotePairs = findQuotePairs(editorState, index);
+  const bracketPairs = findBracketPairs(editorState, index);
+  const tagPairs = findSurroundingTagPairs(editorState, index);
+  const markdownPairs = findSurroundingMarkdownPairs(editorState, index);
+  const codeBlockPairs = findSurroundingCodeBlocks(editorState, index).map((foundPair) => createDetectedPair(editorState, foundPair));
+  const recipePairs = findRecipePairs(editorState, index, recipes, window);
+
+  return [...quotePairs, ...bracketPairs, ...tagPairs, ...markdownPairs, ...codeBlockPairs, ...recipePairs];
 };
 
 /**
- * Finds bracket pairs (parentheses, braces, brackets, angle brackets) surrounding the cursor
+ * Finds bracket pairs (parentheses, braces, brackets, angle brackets) and other balanced pairs of the language
+ * (e.g. block comments) surrounding the cursor
  */
-const findBracketPairs = (editorState: EditorState): DetectedPair[] => {
-  const bracketTypes = BRACKETS_DELIMITERS;
-  return findPairsOfTypes(editorState, bracketTypes);
+const findBracketPairs = (editorState: EditorState, index: PairIndex): DetectedPair[] => {
+  const bracketTypes = getAvailablePairKeys(index.languageId).filter((pairType) => !isQuotes(pairType));
+  return findPairsOfTypes(editorState, index, bracketTypes);
 };
 
 /**
  * Finds quote pairs (single, double, backtick) surrounding the cursor
  */
-const findQuotePairs = (editorState: EditorState): DetectedPair[] => {
-  const quoteTypes = QUOTES_DELIMITERS;
-  return findPairsOfTypes(editorState, quoteTypes);
+const findQuotePairs = (editorState: EditorState, index: PairIndex): DetectedPair[] => {
+  const quoteTypes = getQuoteTypes(index);
+  return findPairsOfTypes(editorState, index, quoteTypes);
+};
+
+/**
+ * Gets the quote types of the document
+ * Backticks are code spans in Markdown, which are found by the Markdown scanner instead
+ */
+const getQuoteTypes = (index: PairIndex): readonly QuoteDelimiter[] => {
+  return getAvailablePairKeys(index.languageId).filter(isQuotes);
 };
 
 /**
  * Finds pairs of specified types
  */
-const findPairsOfTypes = (editorState: EditorState, pairTypes: readonly BasicPairType[]): DetectedPair[] => {
+const findPairsOfTypes = (editorState: EditorState, index: PairIndex, pairTypes: readonly BasicPairType[]): DetectedPair[] => {
   const pairs: DetectedPair[] = [];
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
 
   for (const pairType of pairTypes) {
-    const result = findSurroundingPair(editorState, pairType);
-    if (result) {
+    const position = findSurroundingBasicPairs(index, cursorOffset, pairType).at(0);
+    if (position) {
+      const result = createSelectionResult(editorState, position);
       pairs.push({
         pairType,
         range: result.range,
@@ -615,69 +397,46 @@ const findPairsOfTypes = (editorState: EditorState, pairTypes: readonly BasicPai
 };
 
 /**
- * Finds HTML tag pairs surrounding the cursor
+ * Finds the innermost pair of each recipe surrounding the cursor
  */
-const findSurroundingTagPairs = (editorState: EditorState): DetectedPair[] => {
-  const { cursorPosition } = editorState;
-  const cursorOffset = positionToOffset(editorState, cursorPosition);
-  const allTagPairs = findAllTagPairs(editorState.documentText);
-
-  return allTagPairs
-    .filter((pair) => isOffsetBetween(cursorOffset, pair.openingEnd, pair.closingStart))
-    .map((pair) => createDetectedPair(editorState, pair));
+const findRecipePairs = (
+  editorState: EditorState,
+  index: PairIndex,
+  recipes: readonly RecipePairType[],
+  window: TextWindow
+): DetectedPair[] => {
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
+
+  return recipes
+    .map((recipe) => findSurroundingRecipePairs(index, window, cursorOffset, recipe).at(0))
+    .filter((foundPair) => foundPair !== undefined)
+    .map((foundPair) => createDetectedPair(editorState, foundPair));
 };
 
 /**
- * Finds all HTML tag pairs in the document
+ * Finds HTML tag pairs surrounding the cursor
  */
-const findAllTagPairs = (documentText: string): TagPair[] => {
-  const tagPairs: TagPair[] = [];
-  const openingTagRegex = /<([A-Za-z][\dA-Za-z]*)[^>]*>/g;
-  let openingMatch: RegExpExecArray | null;
-
-  while ((openingMatch = openingTagRegex.exec(documentText)) !== null) {
-    const tagName = openingMatch[1];
-    const openingStart = openingMatch.index;
-    const openingEnd = openingStart + openingMatch[0].length;
-
-    const matchingClosingTag = findMatchingClosingTag(documentText, tagName, openingEnd);
-    if (matchingClosingTag) {
-      tagPairs.push({
-        name: tagName,
-        openingStart,
-        openingEnd,
-        closingStart: matchingClosingTag.start,
-        closingEnd: matchingClosingTag.end,
-      });
-    }
-  }
-
-  return tagPairs;
+const findSurroundingTagPairs = (editorState: EditorState, index: PairIndex): DetectedPair[] => {
+  const { cursorPosition } = editorState;
+  const cursorOffset = positionToOffset(editorState.lineStarts, cursorPosition);
+
+  return findEnclosing(
+    index.elements,
+    cursorOffset,
+    (element) => element.openingStart,
+    (element) => !element.selfClosing && isOffsetBetween(cursorOffset, element.openingEnd, element.closingStart)
+  ).map((element) => createDetectedPair(editorState, toFoundTagPair(element)));
 };
 
 /**
- * Finds the matching closing tag for an opening tag
+ * Finds Markdown inline pairs (emphasis, code spans and links) surrounding the cursor
  */
-const findMatchingClosingTag = (documentText: string, tagName: string, afterPosition: number): { start: number; end: number } | null => {
-  const closingTagRegex = new RegExp(`</${tagName}\\s*>`, "g");
-  closingTagRegex.lastIndex = afterPosition;
-
-  let closingMatch: RegExpExecArray | null;
+const findSurroundingMarkdownPairs = (editorState: EditorState, index: PairIndex): DetectedPair[] => {
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
 
-  while ((closingMatch = closingTagRegex.exec(documentText)) !== null) {
-    const closingStart = closingMatch.index;
-    const closingEnd = closingStart + closingMatch[0].length;
-
-    // Skip if there's a nested opening tag between this opening and closing
-    const textBetween = documentText.substring(afterPosition, closingStart);
-    const nestedOpeningRegex = new RegExp(`<${tagName}[^>]*>`, "g");
-
-    if (!nestedOpeningRegex.test(textBetween)) {
-      return { start: closingStart, end: closingEnd };
-    }
-  }
-
-  return null;
+  return findSurroundingMarkdownSpans(index, cursorOffset, () => true)
+    .reverse()
+    .map((span) => createDetectedPair(editorState, toFoundMarkdownPair(span)));
 };
 
 /**
@@ -688,11 +447,11 @@ const isOffsetBetween = (offset: number, start: number, end: number): boolean =>
 };
 
 /**
- * Creates a DetectedPair from a TagPair
+ * Creates a DetectedPair from a found tag or Markdown pair
  */
-const createDetectedPair = (editorState: EditorState, tagPair: TagPair): DetectedPair => {
-  const openingEndPosition = offsetToPosition(editorState, tagPair.openingEnd);
-  const closingStartPosition = offsetToPosition(editorState, tagPair.closingStart);
+const createDetectedPair = (editorState: EditorState, foundPair: FoundPair): DetectedPair => {
+  const openingEndPosition = offsetToPosition(editorState.lineStarts, foundPair.openingEnd, editorState.eol);
+  const closingStartPosition = offsetToPosition(editorState.lineStarts, foundPair.closingStart, editorState.eol);
 
   const range: Range = {
     start: openingEndPosition,
@@ -702,12 +461,147 @@ const createDetectedPair = (editorState: EditorState, tagPair: TagPair): Detecte
   const text = getTextFromRange(editorState, range);
 
   return {
-    pairType: { type: "tag", name: tagPair.name },
+    pairType: foundPair.pairType,
     range,
     text,
   };
 };
 
+/**
+ * Options for detecting pairs in a window around the cursor
+ */
+export type DetectionOptions = {
+  /** Number of characters before and after the cursor scanned first; 0 scans the whole document */
+  windowSize: number;
+  /** Gets the index covering a window (e.g. from a cache); a new index is built by default */
+  getPairIndex?: (window: TextWindow) => PairIndex;
+  /** Token checked before each window is scanned */
+  token?: CancellationToken;
+  /** Recipe pairs detected in addition to the built-in pairs (see detectAllSurroundingPairs) */
+  recipes?: readonly RecipePairType[];
+};
+
+/**
+ * Detects all surrounding pairs at the cursor position
+ * A window around the cursor is scanned first and doubled until a pair is found or the whole document is scanned.
+ * @returns Detected pairs, or null if detection was cancelled
+ */
+export const detectAllSurroundingPairs = async (editorState: EditorState, options: DetectionOptions): Promise<DetectedPair[] | null> => {
+  const recipes = options.recipes ?? [];
+  const pairs = await scanWidening(
+    editorState,
+    options,
+    (index, window) => {
+      const pairsInIndex = findAllSurroundingPairsInIndex(editorState, index, recipes, window);
+      return pairsInIndex.length > 0 ? pairsInIndex : null;
+    },
+    recipes.length > 0
+  );
+
+  if (options.token?.isCancellationRequested) {
+    return null;
+  }
+
+  return pairs ?? [];
+};
+
+/**
+ * Detects the surrounding pair at the cursor position, widening the scanned window like detectAllSurroundingPairs
+ * The window is widened until the pair at the nesting depth of the count is found.
+ * @param count Nesting depth of the pair; 1 is the innermost pair
+ * @returns The surrounding pair, or null if none was found or detection was cancelled
+ */
+export const detectSurroundingPair = async (
+  editorState: EditorState,
+  pair: SourcePairType,
+  options: DetectionOptions,
+  count = 1
+): Promise<SurroundingPairResult | null> => {
+  return await scanWidening(
+    editorState,
+    options,
+    (index, window) => findSurroundingPairsInIndex(editorState, index, pair, window).at(count - 1) ?? null,
+    typeof pair !== "string" && pair.type === "recipe"
+  );
+};
+
+/**
+ * Scans windows of increasing size around the cursor until the callback finds a result
+ * The callback gets the index covering the window, which may be a cached index of a wider window, and the window.
+ * @param searchesWindow Whether the callback searches only the window (e.g. for recipes) rather than the whole index
+ */
+const scanWidening = async <T>(
+  editorState: EditorState,
+  options: DetectionOptions,
+  find: (index: PairIndex, window: TextWindow) => T | null,
+  searchesWindow = false
+): Promise<T | null> => {
+  const { windowSize, token } = options;
+  const getIndex =
+    options.getPairIndex ?? ((window: TextWindow) => buildPairIndex(editorState.documentText, editorState.languageId, window));
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
+
+  // Strings and comments before the cursor, lexed once a window starts after the start of the document
+  let tokensBeforeCursor: Token[] | undefined;
+  const getCodeStart = (offset: number): number => {
+    if (offset === 0) {
+      return 0;
+    }
+
+    tokensBeforeCursor ??= tokenize(editorState.documentText.slice(0, cursorOffset), getLanguageSyntax(editorState.languageId));
+    const tokenBefore = tokensBeforeCursor.at(findLastStartingBefore(tokensBeforeCursor, offset, (token) => token.start));
+    // A token cut off at the cursor may go on after it, so it is treated as containing its end
+    const containsOffset = tokenBefore && (offset < tokenBefore.end || tokenBefore.end === cursorOffset);
+    return containsOffset ? tokenBefore.start : offset;
+  };
+
+  for (let radius = windowSize > 0 ? windowSize : editorState.documentText.length; ; radius *= 2) {
+    if (token?.isCancellationRequested) {
+      return null;
+    }
+
+    const window = getScanWindow(editorState, cursorOffset, radius, getCodeStart);
+    const index = getIndex(window);
+    const result = find(index, window);
+    const isWholeDocumentSearched = searchesWindow
+      ? window.start === 0 && window.end === editorState.documentText.length
+      : coversDocument(index);
+    if (result !== null || isWholeDocumentSearched) {
+      return result;
+    }
+
+    // Yield so that a cancellation can be requested before the wider window is scanned
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+};
+
+/**
+ * Gets the window of the radius around the cursor
+ * The window is aligned to line boundaries when they are in the window, so scanning does not start in the middle of a line.
+ * A window starting inside a string or comment starts at its start instead, so its delimiters are not read as code.
+ * @param getCodeStart Gets the start of the string or comment containing an offset, or the offset if it is in code
+ */
+const getScanWindow = (
+  editorState: EditorState,
+  cursorOffset: number,
+  radius: number,
+  getCodeStart: (offset: number) => number
+): TextWindow => {
+  const { lineStarts, documentText } = editorState;
+  const start = Math.max(0, cursorOffset - radius);
+  const end = Math.min(documentText.length, cursorOffset + radius);
+
+  // First line starting at or after the start
+  const firstLine = start === 0 ? 0 : findLineAt(lineStarts, start - 1) + 1;
+  const alignedStart = firstLine < lineStarts.length && lineStarts[firstLine] <= cursorOffset ? lineStarts[firstLine] : start;
+
+  // End of the last line ending at or before the end
+  const lastLineEnd = lineStarts[findLineAt(lineStarts, end)] - 1;
+  const alignedEnd = end === documentText.length || lastLineEnd < cursorOffset ? end : lastLineEnd;
+
+  return { start: getCodeStart(alignedStart), end: alignedEnd };
+};
+
 /**
  * Type for pair position information
  */
@@ -718,303 +612,423 @@ type PairPosition = {
   closingEnd: number;
 };
 
+/**
+ * Position of a surrounding pair and its type
+ */
+type FoundPair = PairPosition & {
+  pairType: PairType;
+  /** End of the prefix of a string (e.g. f in f"..."), which is kept when the quotes are replaced */
+  prefixEnd?: number;
+};
+
 /**
  * Finds the surrounding pair at the cursor position
+ * @param count Nesting depth of the pair; 1 is the innermost pair, 2 the pair enclosing it, and so on
  */
-export const findSurroundingPair = (editorState: EditorState, pair: PairType): SelectionRangeWithPairResult | null => {
-  const { documentText, cursorPosition } = editorState;
-  const cursorOffset = positionToOffset(editorState, cursorPosition);
-  const delimiter = getPairDelimiter(pair);
+export const findSurroundingPair = (editorState: EditorState, pair: SourcePairType, count = 1): SurroundingPairResult | null => {
+  return findSurroundingPairs(editorState, pair).at(count - 1) ?? null;
+};
 
-  // Handle different pair types
-  if (typeof pair === "string") {
-    return findSurroundingBasicPair(editorState, documentText, cursorOffset, delimiter, pair);
-  } else {
-    return findSurroundingTagPair(editorState, documentText, cursorOffset, delimiter);
-  }
+/**
+ * Finds all pairs of the type surrounding the cursor position
+ * An any-pair source matches pairs of every type of its kind, so the nearest one comes first whatever its delimiter is
+ * @returns Pairs ordered from the innermost to the outermost, so the index is the nesting depth minus one
+ */
+export const findSurroundingPairs = (editorState: EditorState, pair: SourcePairType): SurroundingPairResult[] => {
+  return findSurroundingPairsInIndex(editorState, getPairIndex(editorState), pair);
 };
 
 /**
- * Gets the opening and closing delimiters for a pair
+ * Finds all pairs of the type surrounding the cursor position in an index, from the innermost to the outermost
+ * @param window Part of the index searched for recipes, which are not indexed; the window of the index by default
  */
-const getPairDelimiter = (pair: PairType): { opening: string; closing: string } => {
+const findSurroundingPairsInIndex = (
+  editorState: EditorState,
+  index: PairIndex,
+  pair: SourcePairType,
+  window: TextWindow = index.window
+): SurroundingPairResult[] => {
+  const { cursorPosition } = editorState;
+  const cursorOffset = positionToOffset(editorState.lineStarts, cursorPosition);
+
+  // Handle different pair types
+  let foundPairs: FoundPair[];
   if (typeof pair === "string") {
-    // Basic pair (quotes or brackets)
-    return PAIR_DELIMITERS[pair];
+    foundPairs = findSurroundingBasicPairs(index, cursorOffset, pair);
+  } else if (isAnyPairType(pair)) {
+    foundPairs = findSurroundingAnyPairs(editorState, index, cursorOffset, pair.kind);
+  } else if (isMarkdownPairType(pair)) {
+    foundPairs = findSurroundingMarkdownSpans(index, cursorOffset, (span) => span.kind === pair.delimiter).map(toFoundMarkdownPair);
+  } else if (isLinkPairType(pair)) {
+    foundPairs = findSurroundingMarkdownSpans(index, cursorOffset, (span) => span.kind === "link").map(toFoundMarkdownPair);
+  } else if (isFencePairType(pair)) {
+    foundPairs = findSurroundingCodeBlocks(editorState, index);
+  } else if (isRecipePairType(pair)) {
+    foundPairs = findSurroundingRecipePairs(index, window, cursorOffset, pair);
   } else {
-    // Tag pair
-    return {
-      opening: `<${pair.name}>`,
-      closing: `</${pair.name}>`,
-    };
+    foundPairs = findSurroundingTagPairsNamed(editorState, index, cursorOffset, pair.name).map(toFoundTagPair);
   }
+
+  return foundPairs.map((foundPair) => ({
+    ...createSelectionResult(editorState, foundPair),
+    pairType: foundPair.pairType,
+    ...(foundPair.prefixEnd === undefined
+      ? {}
+      : {
+          prefixRange: {
+            start: offsetToPosition(editorState.lineStarts, foundPair.openingStart, editorState.eol),
+            end: offsetToPosition(editorState.lineStarts, foundPair.prefixEnd, editorState.eol),
+          },
+        }),
+  }));
 };
 
 /**
- * Finds a surrounding basic pair (quotes or brackets)
+ * Finds the surrounding pairs of every type of the kind, from the innermost to the outermost
+ * Only balanced pairs whose content contains the cursor are kept,
+ * so quotes before the cursor and unbalanced brackets are not mistaken for the nearest pair
  */
-const findSurroundingBasicPair = (
-  editorState: EditorState,
-  documentText: string,
-  cursorOffset: number,
-  delimiter: { opening: string; closing: string },
-  _pairType: string
-): SelectionRangeWithPairResult | null => {
-  const { opening, closing } = delimiter;
-  const isQuote = opening === closing;
-
-  // Find balanced pairs
-  const balancedPairs = findBalancedPairs(documentText, opening, closing);
+const findSurroundingAnyPairs = (editorState: EditorState, index: PairIndex, cursorOffset: number, kind: AnyPairKind): FoundPair[] => {
+  const pairTypes: readonly BasicPairType[] =
+    kind === "quote" ? getQuoteTypes(index) : kind === "bracket" ? BRACKETS_DELIMITERS : getAvailablePairKeys(index.languageId);
+  const tagPairs = kind === "auto" ? findSurroundingTagPairsNamed(editorState, index, cursorOffset, null).map(toFoundTagPair) : [];
+  const markdownPairs = kind === "auto" ? findSurroundingMarkdownSpans(index, cursorOffset, () => true).map(toFoundMarkdownPair) : [];
+
+  // Code blocks are also found with the cursor on their fences
+  const codeBlockPairs = kind === "auto" ? findSurroundingCodeBlocks(editorState, index) : [];
+
+  return [
+    ...[
+      ...pairTypes.flatMap((pairType) => findSurroundingBalancedPairs(index, cursorOffset, pairType)),
+      ...tagPairs,
+      ...markdownPairs,
+    ].filter((pair) => pair.openingEnd <= cursorOffset && cursorOffset <= pair.closingStart),
+    ...codeBlockPairs,
+  ].sort((a, b) => b.openingStart - a.openingStart || a.closingEnd - b.closingEnd);
+};
 
-  if (isQuote) {
-    return findSurroundingQuotePair(editorState, cursorOffset, balancedPairs, opening, closing);
-  } else {
-    return findSurroundingBracketPair(editorState, cursorOffset, balancedPairs, opening, closing);
+/**
+ * Finds the surrounding basic pairs (quotes or brackets), from the innermost to the outermost
+ * Delimiters inside strings and comments are ignored unless they are in the same string or comment as the cursor
+ */
+const findSurroundingBasicPairs = (index: PairIndex, cursorOffset: number, pairType: BasicPairType): FoundPair[] => {
+  const pairs = findSurroundingBalancedPairs(index, cursorOffset, pairType);
+  if (pairs.length > 0 || !isBrackets(pairType)) {
+    return pairs;
   }
+
+  // Fallback to the first opening before the cursor and the first closing after it if no balanced pair is found
+  const fallbackPair = findUnbalancedBracketPair(index, cursorOffset, pairType);
+  return fallbackPair ? [toFoundBasicPair(fallbackPair, pairType)] : [];
 };
 
 /**
- * Finds a surrounding quote pair
+ * Finds the balanced basic pairs surrounding the cursor, from the innermost to the outermost
  */
-const findSurroundingQuotePair = (
-  editorState: EditorState,
-  cursorOffset: number,
-  balancedPairs: { start: number; end: number }[],
-  opening: string,
-  closing: string
-): SelectionRangeWithPairResult | null => {
-  // For quotes, find the pair that contains the cursor or is closest
-  let bestPair = null;
-  let minDistance = Number.MAX_SAFE_INTEGER;
-
-  for (const pair of balancedPairs) {
-    // If cursor is inside this pair
-    if (pair.start < cursorOffset && cursorOffset <= pair.end) {
-      bestPair = pair;
-      break;
-    }
+const findSurroundingBalancedPairs = (index: PairIndex, cursorOffset: number, pairType: BasicPairType): FoundPair[] => {
+  // Pairs in the string or comment at the cursor are inside the pairs of the code around it
+  const tokenPairs = findSurroundingPairsInCursorToken(index, cursorOffset, pairType).map((pair) => toFoundBasicPair(pair, pairType));
 
-    // If cursor is exactly at the end of the closing quote
-    if (cursorOffset === pair.end + closing.length) {
-      bestPair = pair;
-      break;
-    }
-
-    // If cursor is after the closing quote, check if this is the closest pair
-    if (pair.end <= cursorOffset) {
-      const distance = cursorOffset - pair.end;
-      if (distance < minDistance) {
-        minDistance = distance;
-        bestPair = pair;
-      }
-    }
+  if (isQuotes(pairType)) {
+    return [...tokenPairs, ...findSurroundingQuotePairs(index, cursorOffset, pairType)];
   }
 
-  if (!bestPair) return null;
+  return [
+    ...tokenPairs,
+    ...findSurroundingBracketStringForm(index, cursorOffset, pairType),
+    ...[
+      ...findSurroundingDelimitingToken(index, cursorOffset, pairType),
+      ...findSurroundingBracketPairs(index, cursorOffset, pairType),
+    ].map((pair) => toFoundBasicPair(pair, pairType)),
+  ];
+};
 
-  // Convert to PairPosition
-  const pairPosition: PairPosition = {
-    openingStart: bestPair.start,
-    openingEnd: bestPair.start + opening.length,
-    closingStart: bestPair.end,
-    closingEnd: bestPair.end + closing.length,
+/**
+ * Converts the offsets of a basic pair to a found pair
+ */
+const toFoundBasicPair = (pair: OffsetPair, pairType: BasicPairType): FoundPair => {
+  const { opening, closing } = getPairDefinition(pairType);
+
+  return {
+    openingStart: pair.start,
+    openingEnd: pair.start + opening.length,
+    closingStart: pair.end,
+    closingEnd: pair.end + closing.length,
+    pairType,
   };
+};
+
+/**
+ * Finds the pairs inside the string or comment that contains the cursor, from the innermost to the outermost
+ * Strings and comments are masked out in the index, so their content is scanned here
+ */
+const findSurroundingPairsInCursorToken = (index: PairIndex, cursorOffset: number, pairType: BasicPairType): OffsetPair[] => {
+  const token = findTokenAtOffset(index, cursorOffset);
+  if (!token) return [];
 
-  return createSelectionResult(editorState, pairPosition);
+  const content = index.documentText.slice(token.contentStart, token.contentEnd);
+  const surroundingPairs = findBasicPairs(content, pairType, getLanguageSyntax(index.languageId))
+    .map((pair) => ({ start: pair.start + token.contentStart, end: pair.end + token.contentStart }))
+    .filter((pair) => pair.start < cursorOffset && (isQuotes(pairType) ? cursorOffset <= pair.end : cursorOffset < pair.end));
+
+  // Pairs are sorted by start, so the innermost one is the last
+  return surroundingPairs.reverse();
 };
 
 /**
- * Finds a surrounding bracket pair
+ * Finds a surrounding quote pair
+ * Quotes do not nest in code, so there is at most one pair
  */
-const findSurroundingBracketPair = (
-  editorState: EditorState,
-  cursorOffset: number,
-  balancedPairs: { start: number; end: number }[],
-  opening: string,
-  closing: string
-): SelectionRangeWithPairResult | null => {
-  // Find all pairs that surround the cursor
-  const surroundingPairs = balancedPairs.filter((pair) => pair.start < cursorOffset && cursorOffset < pair.end);
-
-  // If we have multiple pairs, select the innermost one (smallest range)
-  const surroundingPair =
-    surroundingPairs.length > 0
-      ? surroundingPairs.reduce(
-          (smallest, current) => (current.end - current.start < smallest.end - smallest.start ? current : smallest),
-          surroundingPairs[0]
-        )
-      : null;
-
-  if (!surroundingPair) {
-    // Fallback to the old method if no balanced pair is found
-    const openingIndices = findAllOccurrences(editorState.documentText, opening);
-    const closingIndices = findAllOccurrences(editorState.documentText, closing);
-    const pairPosition = findSurroundingPairPosition(cursorOffset, openingIndices, closingIndices, opening.length, closing.length);
-
-    if (!pairPosition) return null;
-
-    return createSelectionResult(editorState, pairPosition);
+const findSurroundingQuotePairs = (index: PairIndex, cursorOffset: number, quote: QuoteDelimiter): FoundPair[] => {
+  // Quote pairs do not overlap, so the last pair starting before the cursor either contains the cursor,
+  // ends right at the cursor, or is the closest pair before the cursor
+  const pairs = index.pairs[quote];
+  const lastIndex = findLastStartingBefore(pairs, cursorOffset, (pair) => pair.start);
+  const lastPairStart = lastIndex === -1 ? -1 : pairs[lastIndex].start;
+
+  // Strings with a prefix or longer delimiters (e.g. f"..." or """...""") are not paired in the index,
+  // so a string after the last pair is found from the tokens
+  for (let i = findLastStartingBefore(index.tokens, cursorOffset, (token) => token.start); i >= 0; i--) {
+    const token = index.tokens[i];
+    if (token.start < lastPairStart) {
+      break;
+    }
+    if (isStringForm(token) && token.key === quote) {
+      return [toFoundStringForm(token, quote)];
+    }
   }
 
-  // Convert to PairPosition
-  const pairPosition: PairPosition = {
-    openingStart: surroundingPair.start,
-    openingEnd: surroundingPair.start + opening.length,
-    closingStart: surroundingPair.end,
-    closingEnd: surroundingPair.end + closing.length,
+  return lastIndex === -1 ? [] : [toFoundBasicPair(pairs[lastIndex], quote)];
+};
+
+/**
+ * Converts a string token with a prefix or longer delimiters to a found pair
+ */
+const toFoundStringForm = (token: Token, pairType: BasicPairType): FoundPair => {
+  return {
+    openingStart: token.start,
+    openingEnd: token.contentStart,
+    closingStart: token.contentEnd,
+    closingEnd: token.end,
+    pairType,
+    prefixEnd: token.prefixEnd,
   };
+};
 
-  return createSelectionResult(editorState, pairPosition);
+/**
+ * Finds the string containing the cursor that is delimited by brackets (e.g. %w[...] in Ruby)
+ * Such strings are masked out in the index, so they are only found from the tokens
+ */
+const findSurroundingBracketStringForm = (index: PairIndex, cursorOffset: number, bracket: BasicPairType): FoundPair[] => {
+  const token = findTokenAtOffset(index, cursorOffset);
+  return token?.key === bracket && isStringForm(token) ? [toFoundStringForm(token, bracket)] : [];
 };
 
 /**
- * Finds all occurrences of a string in text
+ * Finds the comment or string containing the cursor whose delimiters are the pair (e.g. a block comment)
+ * Strings and comments are masked out in the index, so their delimiters are only found from the tokens
  */
-const findAllOccurrences = (text: string, searchString: string): number[] => {
-  const indices: number[] = [];
-  let searchIndex = 0;
+const findSurroundingDelimitingToken = (index: PairIndex, cursorOffset: number, pairType: BasicPairType): OffsetPair[] => {
+  const token = findTokenAtOffset(index, cursorOffset);
+  if (!token || token.contentEnd === token.end) return [];
+
+  const { opening, closing } = getPairDefinition(pairType);
+  const text = index.documentText;
+  const isDelimitedByPair =
+    token.contentStart - token.start === opening.length &&
+    text.startsWith(opening, token.start) &&
+    token.end - token.contentEnd === closing.length &&
+    text.startsWith(closing, token.contentEnd);
+
+  return isDelimitedByPair && token.start < cursorOffset && cursorOffset < token.contentEnd
+    ? [{ start: token.start, end: token.contentEnd }]
+    : [];
+};
 
-  while (searchIndex < text.length) {
-    const foundIndex = text.indexOf(searchString, searchIndex);
-    if (foundIndex === -1) break;
+/**
+ * Finds the bracket pairs surrounding the cursor, from the innermost to the outermost
+ */
+const findSurroundingBracketPairs = (index: PairIndex, cursorOffset: number, bracket: BasicPairType): OffsetPair[] => {
+  return findEnclosing(
+    index.pairs[bracket],
+    cursorOffset,
+    (pair) => pair.start,
+    (pair) => pair.start < cursorOffset && cursorOffset < pair.end
+  ).reverse();
+};
 
-    indices.push(foundIndex);
-    searchIndex = foundIndex + 1;
+/**
+ * Finds the first opening before the cursor and the first closing after it, for brackets that are not balanced
+ */
+const findUnbalancedBracketPair = (index: PairIndex, cursorOffset: number, bracket: BracketDelimiter): OffsetPair | null => {
+  const { openings, closings } = index.delimiters[bracket];
+  const openingStart = openings.at(0);
+  const closingStart = findFirstAfter(closings, cursorOffset);
+  if (openingStart === undefined || openingStart >= cursorOffset || closingStart === undefined) {
+    return null;
   }
 
-  return indices;
+  return { start: openingStart, end: closingStart };
 };
 
 /**
- * Finds balanced pairs of brackets or quotes in text
+ * Gets the text of a window of an index with strings and comments masked out, except the one containing the cursor
+ * Only the tokens in the window are masked, so the cost does not grow with the document.
  */
-const findBalancedPairs = (text: string, opening: string, closing: string): { start: number; end: number }[] => {
-  const pairs: { start: number; end: number }[] = [];
-
-  // Find all occurrences of opening and closing brackets
-  const openingIndices = findAllOccurrences(text, opening);
-  const closingIndices = findAllOccurrences(text, closing);
-
-  // For quotes, we need special handling since opening and closing are the same
-  if (opening === closing) {
-    // For quotes, pair each consecutive occurrence
-    for (let i = 0; i < openingIndices.length - 1; i += 2) {
-      if (i + 1 < openingIndices.length) {
-        pairs.push({ start: openingIndices[i], end: openingIndices[i + 1] });
-      }
-    }
-    return pairs;
-  }
-
-  // For brackets, use the stack-based approach
-  const stack: number[] = [];
-  const allIndices = [
-    ...openingIndices.map((index) => ({ index, type: "opening" as const })),
-    ...closingIndices.map((index) => ({ index, type: "closing" as const })),
-  ].sort((a, b) => a.index - b.index);
-
-  // Process brackets in order
-  for (const { index, type } of allIndices) {
-    if (type === "opening") {
-      stack.push(index);
-    } else if (stack.length > 0) {
-      // This is a closing bracket and we have an opening bracket on the stack
-      const openingIndex = stack.pop();
-      if (openingIndex !== undefined) {
-        pairs.push({ start: openingIndex, end: index });
-      }
-    }
-  }
+const getMaskedWindowText = (index: PairIndex, window: TextWindow, cursorOffset: number): string => {
+  const { start, end } = window;
+  const toWindowOffset = (offset: number) => Math.min(Math.max(offset - start, 0), end - start);
+  const getStart = (token: Token) => token.start;
+  const firstToken = Math.max(0, findLastStartingBefore(index.tokens, start, getStart));
+  const tokens = index.tokens
+    .slice(firstToken, findLastStartingBefore(index.tokens, end, getStart) + 1)
+    .filter((token) => token.end > start)
+    .map((token) => ({
+      ...token,
+      start: toWindowOffset(token.start),
+      end: toWindowOffset(token.end),
+      contentStart: toWindowOffset(token.contentStart),
+      contentEnd: toWindowOffset(token.contentEnd),
+    }));
+
+  return maskNonCodeText(index.documentText.slice(start, end), tokens, cursorOffset - start);
+};
 
-  return pairs;
+/**
+ * Finds the pairs of a recipe surrounding the cursor, from the innermost to the outermost
+ * Strings and comments are masked out like for brackets, except the one containing the cursor
+ * @param window Part of the index searched, since recipes are not indexed
+ */
+const findSurroundingRecipePairs = (index: PairIndex, window: TextWindow, cursorOffset: number, pair: RecipePairType): FoundPair[] => {
+  const { start } = window;
+  const text = getMaskedWindowText(index, window, cursorOffset);
+  const toPattern = (bun: string) => new RegExp(pair.regex ? bun : toBunPattern(bun), "g");
+
+  return findPatternPairs(text, toPattern(pair.opening), toPattern(pair.closing))
+    .map((found) => ({
+      openingStart: found.openingStart + start,
+      openingEnd: found.openingEnd + start,
+      closingStart: found.closingStart + start,
+      closingEnd: found.closingEnd + start,
+      pairType: pair,
+    }))
+    .filter((found) => found.openingStart < cursorOffset && cursorOffset <= found.closingStart)
+    .reverse();
 };
 
 /**
- * Finds the position of a pair that surrounds the cursor
+ * Spaces padding the content on the same line, or the end or start of a line when the content is on its own lines
  */
-const findSurroundingPairPosition = (
-  cursorOffset: number,
-  openingIndices: number[],
-  closingIndices: number[],
-  openingLength: number,
-  closingLength: number = openingLength
-): PairPosition | null => {
-  for (const openingStart of openingIndices) {
-    // Skip if opening is after cursor
-    if (openingStart >= cursorOffset) continue;
-
-    const openingEnd = openingStart + openingLength;
-
-    // Find the next closing after this opening
-    for (const closingStart of closingIndices) {
-      // Skip if closing is before or at the opening
-      if (closingStart <= openingStart) continue;
-
-      // Check if cursor is between opening and closing
-      if (cursorOffset > openingStart && cursorOffset < closingStart) {
-        return {
-          openingStart,
-          openingEnd,
-          closingStart,
-          closingEnd: closingStart + closingLength,
-        };
-      }
-    }
-  }
+const OPENING_PADDING_PATTERN = String.raw`(?:[^\S\n]+|(?=\r?\n))`;
+const CLOSING_PADDING_PATTERN = String.raw`(?:[^\S\n]+|(?<=\n))`;
+
+/**
+ * Converts a literal bun of a recipe to a pattern
+ * Whitespace padding the content also matches a line break, so a pair added on its own lines is found again.
+ */
+const toBunPattern = (bun: string): string => {
+  const padsContentAfter = /\s$/.test(bun);
+  const padsContentBefore = /^\s/.test(bun);
+  return [padsContentBefore ? CLOSING_PADDING_PATTERN : "", escapeRegExp(bun.trim()), padsContentAfter ? OPENING_PADDING_PATTERN : ""].join(
+    ""
+  );
+};
 
-  return null;
+/**
+ * Escapes the characters of a text that have a meaning in regular expressions
+ */
+const escapeRegExp = (text: string): string => {
+  return text.replace(/[$()*+.?[\\\]^{|}]/g, "\\$&");
 };
 
 /**
- * Finds a surrounding tag pair
+ * Finds the tag pairs with the name surrounding the cursor, from the innermost to the outermost
+ * @param tagName Name of the tags; tags of any name are found if null
  */
-const findSurroundingTagPair = (
+const findSurroundingTagPairsNamed = (
   editorState: EditorState,
-  documentText: string,
+  index: PairIndex,
   cursorOffset: number,
-  delimiter: { opening: string; closing: string }
-): SelectionRangeWithPairResult | null => {
-  const { opening, closing } = delimiter;
-
-  // Find the closest opening tag before cursor
-  const textBeforeCursor = documentText.substring(0, cursorOffset);
-  const tagName = opening.slice(1, -1); // Remove < and >
-  const openingTagRegexp = new RegExp(`<${tagName}[^>]*>`, "g");
-  const openingTagMatch = openingTagRegexp.exec(textBeforeCursor)?.[0];
-
-  if (!openingTagMatch) return null;
-  const lastOpeningIndex = textBeforeCursor.lastIndexOf(openingTagMatch);
-
-  // Find the closest closing tag after the opening tag
-  const openingEnd = lastOpeningIndex + openingTagMatch.length;
-  const textAfterOpening = documentText.substring(openingEnd);
-  const nextClosingIndex = textAfterOpening.indexOf(closing);
+  tagName: string | null
+): IndexedElement[] => {
+  const mode = getTagParseMode(editorState.languageId);
+  return findEnclosing(
+    index.elements,
+    cursorOffset,
+    (element) => element.openingStart,
+    (element) =>
+      !element.selfClosing &&
+      (tagName === null || isSameTagName(element.name, tagName, mode)) &&
+      isOffsetBetween(cursorOffset, element.openingEnd, element.closingStart)
+  ).reverse();
+};
 
-  if (nextClosingIndex === -1) return null;
+/**
+ * Finds the Markdown spans matching the predicate that surround the cursor, from the innermost to the outermost
+ * The cursor may be right next to the delimiters, like for quotes
+ */
+const findSurroundingMarkdownSpans = (
+  index: PairIndex,
+  cursorOffset: number,
+  predicate: (span: IndexedMarkdownSpan) => boolean
+): IndexedMarkdownSpan[] => {
+  return findEnclosing(
+    index.markdownSpans,
+    cursorOffset,
+    (span) => span.openingStart,
+    (span) => predicate(span) && span.openingEnd <= cursorOffset && cursorOffset <= span.closingStart
+  ).reverse();
+};
 
-  const closingStart = openingEnd + nextClosingIndex;
+/**
+ * Converts a Markdown span to a found pair
+ */
+const toFoundMarkdownPair = (span: IndexedMarkdownSpan): FoundPair => {
+  const pairType: PairType = span.kind === "link" ? { type: "link", url: span.url ?? "" } : { type: "markdown", delimiter: span.kind };
+  return { ...span, pairType };
+};
 
-  // Check if cursor is between opening and closing tags
-  if (cursorOffset <= openingEnd || cursorOffset >= closingStart) return null;
+/**
+ * Finds the closed fenced code block containing the cursor, which may also be on one of its fences
+ * The opening includes the line break after the opening fence and the closing includes the line break before
+ * the closing fence, so the content is the lines between the fences.
+ * @returns The code block, or nothing; code blocks never nest
+ */
+const findSurroundingCodeBlocks = (editorState: EditorState, index: PairIndex): FoundPair[] => {
+  const cursorOffset = positionToOffset(editorState.lineStarts, editorState.cursorPosition);
+  const block = index.codeBlocks.at(findLastStartingBefore(index.codeBlocks, cursorOffset + 1, (block) => block.openingStart));
+  if (!block || block.closingStart === block.closingEnd || cursorOffset > block.closingEnd) {
+    return [];
+  }
 
-  const pairPosition = {
-    openingStart: lastOpeningIndex,
-    openingEnd,
-    closingStart,
-    closingEnd: closingStart + closing.length,
-  };
+  const openingEnd = block.openingEnd + editorState.eol.length;
+  return [
+    {
+      openingStart: block.openingStart,
+      openingEnd,
+      // An empty block has no line break of its own before the closing fence
+      closingStart: Math.max(openingEnd, block.closingStart - editorState.eol.length),
+      closingEnd: block.closingEnd,
+      pairType: { type: "fence", fence: block.fence, language: block.info },
+    },
+  ];
+};
 
-  return createSelectionResult(editorState, pairPosition);
+/**
+ * Converts a tag element to a found pair
+ */
+const toFoundTagPair = (element: IndexedElement): FoundPair => {
+  return { ...element, pairType: { type: "tag", name: element.name } };
 };
 
 /**
  * Creates a SelectionRangeResult from a pair position
  */
 const createSelectionResult = (editorState: EditorState, pairPosition: PairPosition): SelectionRangeWithPairResult => {
-  const openingStartPosition = offsetToPosition(editorState, pairPosition.openingStart);
-  const openingEndPosition = offsetToPosition(editorState, pairPosition.openingEnd);
-  const closingStartPosition = offsetToPosition(editorState, pairPosition.closingStart);
-  const closingEndPosition = offsetToPosition(editorState, pairPosition.closingEnd);
+  const openingStartPosition = offsetToPosition(editorState.lineStarts, pairPosition.openingStart, editorState.eol);
+  const openingEndPosition = offsetToPosition(editorState.lineStarts, pairPosition.openingEnd, editorState.eol);
+  const closingStartPosition = offsetToPosition(editorState.lineStarts, pairPosition.closingStart, editorState.eol);
+  const closingEndPosition = offsetToPosition(editorState.lineStarts, pairPosition.closingEnd, editorState.eol);
 
   const range: Range = {
     start: openingEndPosition,
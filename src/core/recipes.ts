@@ -0,0 +1,119 @@
+import type { OperationType, RecipePairType } from "./types";
+
+/**
+ * User-defined pair, modelled on the recipes of vim-sandwich (g:sandwich#recipes)
+ */
+export type Recipe = {
+  /** Opening and closing text of the pair */
+  buns: readonly [string, string];
+  /** Keys that pick the recipe; the first one is shown as the label */
+  input: readonly string[];
+  /** Languages offering the recipe; every language if empty */
+  filetype: readonly string[];
+  /** Operations offering the recipe */
+  kind: readonly OperationType[];
+  /** Whether the buns are regular expressions, which are only used to find the pair */
+  regex: boolean;
+  description?: string;
+};
+
+/**
+ * Recipe as written in the settings, where only the buns and input are required
+ */
+export type UserRecipe = Pick<Recipe, "buns" | "input"> & Partial<Omit<Recipe, "buns" | "input">>;
+
+/**
+ * Role of a pair in an operation
+ * - source: the pair to find (delete and replace)
+ * - destination: the pair to insert (add and replace)
+ */
+export type RecipeTarget = "source" | "destination";
+
+const OPERATIONS: readonly OperationType[] = ["add", "delete", "replace"];
+
+/**
+ * Checks whether a value is an array of strings
+ */
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+};
+
+/**
+ * Checks whether a pattern is a valid regular expression
+ */
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, "g");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Converts a recipe from the settings, or returns null if it is invalid
+ * Only buns and input are required; a recipe offers every operation in every language by default.
+ */
+const resolveRecipe = (userRecipe: unknown): Recipe | null => {
+  if (typeof userRecipe !== "object" || userRecipe === null) {
+    return null;
+  }
+
+  const { buns, input, filetype, kind, regex, description } = userRecipe as Record<string, unknown>;
+  if (!isStringArray(buns) || buns.length !== 2 || buns[0] === "" || buns[1] === "") {
+    return null;
+  }
+  if (!isStringArray(input) || input.length === 0 || input.some((key) => key === "")) {
+    return null;
+  }
+  if (regex === true && !buns.every(isValidPattern)) {
+    return null;
+  }
+
+  return {
+    buns: [buns[0], buns[1]],
+    input,
+    filetype: isStringArray(filetype) ? filetype : [],
+    kind: isStringArray(kind) ? OPERATIONS.filter((operation) => kind.includes(operation)) : OPERATIONS,
+    regex: regex === true,
+    ...(typeof description === "string" ? { description } : {}),
+  };
+};
+
+/**
+ * Converts the recipes from the settings, ignoring invalid ones
+ * @param userRecipes Recipes from the user; anything but an array gives no recipes
+ */
+export const resolveRecipes = (userRecipes: unknown): Recipe[] => {
+  if (!Array.isArray(userRecipes)) {
+    return [];
+  }
+
+  return userRecipes.map(resolveRecipe).filter((recipe) => recipe !== null);
+};
+
+/**
+ * Gets the recipes offered for an operation in a language
+ * Regex recipes are never offered as the destination, since their buns cannot be inserted
+ * @param languageId Language identifier of the document; only recipes of every language are offered if omitted
+ */
+export const getRecipesFor = (
+  recipes: readonly Recipe[],
+  languageId: string | undefined,
+  operation: OperationType,
+  target: RecipeTarget
+): Recipe[] => {
+  return recipes.filter(
+    (recipe) =>
+      recipe.kind.includes(operation) &&
+      (recipe.filetype.length === 0 || (languageId !== undefined && recipe.filetype.includes(languageId))) &&
+      !(recipe.regex && target === "destination")
+  );
+};
+
+/**
+ * Gets the pair type of a recipe
+ */
+export const toRecipePair = (recipe: Recipe): RecipePairType => {
+  return { type: "recipe", opening: recipe.buns[0], closing: recipe.buns[1], regex: recipe.regex };
+};
@@ -0,0 +1,112 @@
+import type { TagPairType } from "./types";
+
+/**
+ * Tag typed to be added: a name and the attributes of its opening tag
+ */
+export type TagInput = {
+  name: string;
+  /** Attributes as typed (e.g. `class="row" id="main"`), or empty */
+  attributes: string;
+};
+
+/**
+ * Maximum number of recent tags remembered
+ */
+export const MAX_RECENT_TAGS = 10;
+
+/**
+ * Checks whether the attributes close every quote and {} expression they open
+ */
+const isBalanced = (attributes: string): boolean => {
+  let quote: string | undefined;
+  let depth = 0;
+
+  for (const char of attributes) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth < 0) {
+        return false;
+      }
+    }
+  }
+
+  return quote === undefined && depth === 0;
+};
+
+/**
+ * Parses the text typed for a tag to add, such as `div class="row"` or `<div class="row">`
+ * The name may have the characters of custom elements, XML namespaces and JSX member components.
+ * @returns The name and attributes, or null if the text does not start with a tag name or leaves a quote open
+ */
+export const parseTagInput = (input: string): TagInput | null => {
+  const text = input.trim().replace(/^</, "").replace(/\/?>$/, "").trim();
+  const name = /^[A-Za-z][\w.:-]*/.exec(text)?.[0];
+  if (!name) {
+    return null;
+  }
+
+  const rest = text.slice(name.length);
+  if (rest !== "" && !/^\s/.test(rest)) {
+    return null;
+  }
+
+  const attributes = rest.trim();
+  return isBalanced(attributes) ? { name, attributes } : null;
+};
+
+/**
+ * Formats a tag typed to be added as it is typed (e.g. `div class="row"`)
+ */
+export const formatTagInput = ({ name, attributes }: TagInput): string => {
+  return attributes ? `${name} ${attributes}` : name;
+};
+
+/**
+ * Creates the pair of a tag typed to be added
+ * The opening tag keeps the attributes, and the closing tag has the name only.
+ */
+export const toTagPair = ({ name, attributes }: TagInput): TagPairType => {
+  return attributes ? { type: "tag", name, openingFullText: `<${name} ${attributes}>` } : { type: "tag", name };
+};
+
+/**
+ * Suggests tags to add from the text typed and the recent tags with attributes
+ * No text suggests the recent tags, and a name alone suggests it with each recent set of attributes.
+ * @param recentTags Recent tags as typed, the most recent first
+ */
+export const suggestTagInputs = (input: string, recentTags: readonly string[]): string[] => {
+  if (input.trim() === "") {
+    return [...recentTags];
+  }
+
+  const tag = parseTagInput(input);
+  if (!tag || tag.attributes) {
+    return [];
+  }
+
+  const suggestions = recentTags.flatMap((recentTag) => {
+    const attributes = parseTagInput(recentTag)?.attributes;
+    return attributes ? [formatTagInput({ name: tag.name, attributes })] : [];
+  });
+  return [...new Set(suggestions)];
+};
+
+/**
+ * Adds a tag to the front of the recent tags if it has attributes, dropping an earlier use of it
+ * @param recentTags Recent tags as typed, the most recent first
+ * @returns The recent tags, with at most MAX_RECENT_TAGS of them
+ */
+export const addRecentTag = (recentTags: readonly string[], tag: TagInput): string[] => {
+  if (!tag.attributes) {
+    return [...recentTags];
+  }
+
+  const text = formatTagInput(tag);
+  return [text, ...recentTags.filter((recentTag) => recentTag !== text)].slice(0, MAX_RECENT_TAGS);
+};
@@ -0,0 +1,484 @@
+/**
+ * Tag parse modes
+ * - html: Case-insensitive names, void elements, optional end tags and raw text elements
+ * - xml: Case-sensitive names, every element must be closed explicitly
+ * - jsx: Like xml, plus fragments (<>), member components (<Foo.Bar>), type arguments (<Select<Option>>)
+ *        and {} attribute expressions
+ */
+export type TagParseMode = "html" | "xml" | "jsx";
+
+/**
+ * Element found by the tag parser
+ * Offsets are document offsets; `*End` offsets are exclusive
+ */
+export type TagElement = {
+  /** Tag name as written in the opening tag (empty for JSX fragments) */
+  name: string;
+  openingStart: number;
+  openingEnd: number;
+  /** Start of the closing tag, or where the element was implicitly closed */
+  closingStart: number;
+  closingEnd: number;
+  /** Whether the element has no content (self-closing syntax or a void element) */
+  selfClosing: boolean;
+  /** Whether the closing tag is written in the document (false for omitted optional end tags) */
+  hasClosingTag: boolean;
+};
+
+/**
+ * HTML elements that never have content or a closing tag
+ */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "keygen",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/**
+ * HTML elements whose content is raw text that may contain "<"
+ */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+
+/**
+ * Block elements that implicitly close an open <p>
+ */
+const P_CLOSERS = [
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "div",
+  "dl",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+];
+
+/**
+ * HTML elements with optional end tags, mapped to the start tags that implicitly close them
+ */
+const OPTIONAL_END_TAG_CLOSERS: Partial<Record<string, readonly string[]>> = {
+  p: P_CLOSERS,
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  option: ["option", "optgroup"],
+  optgroup: ["optgroup"],
+  rb: ["rb", "rt", "rtc", "rp"],
+  rt: ["rb", "rt", "rtc", "rp"],
+  rtc: ["rb", "rtc", "rp"],
+  rp: ["rb", "rt", "rtc", "rp"],
+  thead: ["tbody", "tfoot"],
+  tbody: ["tbody", "tfoot"],
+  tfoot: ["tbody"],
+  tr: ["tr", "tbody", "tfoot"],
+  td: ["td", "th", "tr", "tbody", "tfoot"],
+  th: ["td", "th", "tr", "tbody", "tfoot"],
+  colgroup: [],
+  caption: [],
+  head: ["body"],
+  body: [],
+  html: [],
+};
+
+/**
+ * Pattern for tag names, including custom elements (my-button) and namespaced names (xs:element)
+ */
+const TAG_NAME_PATTERN = /[A-Z_a-z][\w.:-]*/y;
+
+/**
+ * Pattern for JSX tag names, which may be JavaScript identifiers or member expressions (Foo.Bar)
+ */
+const JSX_TAG_NAME_PATTERN = /[$A-Z_a-z][\w$.:-]*/y;
+
+/**
+ * Keywords after which a "<" starts a JSX element rather than a type argument list or comparison
+ */
+const JSX_PRECEDING_KEYWORD_PATTERN = /(?:^|[^\w$])(?:return|yield|await|default|case|else|do)$/;
+/**
+ * Gets the tag parse mode for a language
+ * @param languageId VSCode language identifier
+ */
+export const getTagParseMode = (languageId: string | undefined): TagParseMode => {
+  switch (languageId) {
+    case "xml":
+    case "xsl":
+    case "svg":
+      return "xml";
+    case "javascriptreact":
+    case "typescriptreact":
+      return "jsx";
+    default:
+      return "html";
+  }
+};
+
+type OpenElement = {
+  name: string;
+  normalizedName: string;
+  openingStart: number;
+  openingEnd: number;
+};
+
+/**
+ * Parses the tags of a document into elements
+ * Tags inside comments, CDATA sections, DOCTYPEs, processing instructions and raw text elements are ignored.
+ * Elements that are never closed are not returned unless their end tag is optional.
+ * @returns Elements sorted by the start of their opening tag
+ */
+export const parseTags = (text: string, mode: TagParseMode): TagElement[] => {
+  const elements: TagElement[] = [];
+  const stack: OpenElement[] = [];
+  const normalize = (name: string) => (mode === "html" ? name.toLowerCase() : name);
+
+  // Closes the open elements from the top of the stack down to the index
+  const closeOpenElements = (downTo: number, closingStart: number, closingEnd: number, hasClosingTag: boolean) => {
+    while (stack.length > downTo) {
+      const element = stack.pop();
+      if (!element) {
+        break;
+      }
+
+      const isTarget = stack.length === downTo;
+      if (isTarget && hasClosingTag) {
+        elements.push({ ...toTagElement(element), closingStart, closingEnd, hasClosingTag: true });
+      } else if (mode === "html" && OPTIONAL_END_TAG_CLOSERS[element.normalizedName] !== undefined) {
+        // Omitted end tag: the element ends where the next tag starts
+        elements.push({ ...toTagElement(element), closingStart, closingEnd: closingStart, hasClosingTag: false });
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const tagStart = text.indexOf("<", i);
+    if (tagStart === -1) {
+      break;
+    }
+
+    const markupEnd = skipMarkupDeclaration(text, tagStart);
+    if (markupEnd !== null) {
+      i = markupEnd;
+      continue;
+    }
+
+    if (text[tagStart + 1] === "/") {
+      const name = matchTagName(text, tagStart + 2, mode);
+      const tagEnd = name === null ? -1 : text.indexOf(">", tagStart + 2 + name.length);
+      if (name === null || tagEnd === -1) {
+        i = tagStart + 1;
+        continue;
+      }
+
+      const normalizedName = normalize(name);
+      const openIndex = stack.findLastIndex((element) => element.normalizedName === normalizedName);
+      if (openIndex !== -1) {
+        closeOpenElements(openIndex, tagStart, tagEnd + 1, true);
+      }
+      i = tagEnd + 1;
+      continue;
+    }
+
+    // Outside of JSX children, "<" may be a type argument list or a comparison
+    if (mode === "jsx" && stack.length === 0 && !isJsxTagStart(text, tagStart)) {
+      i = tagStart + 1;
+      continue;
+    }
+
+    const name = matchTagName(text, tagStart + 1, mode);
+    const tagEnd = name === null ? null : findStartTagEnd(text, tagStart + 1 + name.length, mode);
+    if (name === null || tagEnd === null) {
+      i = tagStart + 1;
+      continue;
+    }
+
+    const normalizedName = normalize(name);
+    if (mode === "html") {
+      // Close elements whose optional end tag is implied by this start tag
+      while (stack.length > 0 && OPTIONAL_END_TAG_CLOSERS[stack[stack.length - 1].normalizedName]?.includes(normalizedName)) {
+        closeOpenElements(stack.length - 1, tagStart, tagStart, false);
+      }
+    }
+
+    const element: OpenElement = { name, normalizedName, openingStart: tagStart, openingEnd: tagEnd.end };
+    if (tagEnd.selfClosing || (mode === "html" && VOID_ELEMENTS.has(normalizedName))) {
+      elements.push({ ...toTagElement(element), closingStart: tagEnd.end, closingEnd: tagEnd.end, selfClosing: true });
+      i = tagEnd.end;
+      continue;
+    }
+
+    if (mode === "html" && RAW_TEXT_ELEMENTS.has(normalizedName)) {
+      const closingTag = findRawTextEnd(text, normalizedName, tagEnd.end);
+      if (closingTag) {
+        elements.push({ ...toTagElement(element), closingStart: closingTag.start, closingEnd: closingTag.end, hasClosingTag: true });
+        i = closingTag.end;
+      } else {
+        i = text.length;
+      }
+      continue;
+    }
+
+    stack.push(element);
+    i = tagEnd.end;
+  }
+
+  closeOpenElements(0, text.length, text.length, false);
+
+  return elements.sort((a, b) => a.openingStart - b.openingStart);
+};
+
+/**
+ * Creates an element that is not closed yet
+ */
+const toTagElement = (element: OpenElement): TagElement => {
+  return {
+    name: element.name,
+    openingStart: element.openingStart,
+    openingEnd: element.openingEnd,
+    closingStart: element.openingEnd,
+    closingEnd: element.openingEnd,
+    selfClosing: false,
+    hasClosingTag: false,
+  };
+};
+
+/**
+ * Matches a tag name at the index
+ * In JSX, an empty name is returned for fragments (<> and </>)
+ */
+const matchTagName = (text: string, index: number, mode: TagParseMode): string | null => {
+  if (mode === "jsx" && text[index] === ">") {
+    return "";
+  }
+
+  const pattern = mode === "jsx" ? JSX_TAG_NAME_PATTERN : TAG_NAME_PATTERN;
+  pattern.lastIndex = index;
+  return pattern.exec(text)?.[0] ?? null;
+};
+
+/**
+ * Checks whether a "<" outside of JSX children starts a JSX element
+ * A "<" right after an identifier or a closing bracket is a type argument list (Array<string>) or a comparison (a < b)
+ */
+const isJsxTagStart = (text: string, tagStart: number): boolean => {
+  let i = tagStart - 1;
+  while (i >= 0 && /\s/.test(text[i])) {
+    i--;
+  }
+
+  if (i < 0 || !/[\w$).\]]/.test(text[i])) {
+    return true;
+  }
+
+  return JSX_PRECEDING_KEYWORD_PATTERN.test(text.slice(Math.max(0, i - 10), i + 1));
+};
+
+/**
+ * Skips comments, CDATA sections, DOCTYPEs and processing instructions starting at the index
+ * Returns the index after the declaration, or null if there is none
+ */
+const skipMarkupDeclaration = (text: string, index: number): number | null => {
+  const skipTo = (terminator: string, from: number) => {
+    const end = text.indexOf(terminator, from);
+    return end === -1 ? text.length : end + terminator.length;
+  };
+
+  if (text.startsWith("<!--", index)) {
+    return skipTo("-->", index + 4);
+  }
+  if (text.startsWith("<![CDATA[", index)) {
+    return skipTo("]]>", index + 9);
+  }
+  if (text.startsWith("<!", index)) {
+    return skipTo(">", index + 2);
+  }
+  if (text.startsWith("<?", index)) {
+    return skipTo("?>", index + 2);
+  }
+
+  return null;
+};
+
+/**
+ * Finds the end of a start tag, skipping quoted attribute values that may contain ">"
+ * In JSX, type arguments and {} attribute expressions are skipped as well
+ */
+const findStartTagEnd = (text: string, index: number, mode: TagParseMode): { end: number; selfClosing: boolean } | null => {
+  let i = index;
+
+  if (mode === "jsx" && text[i] === "<") {
+    const typeArgumentsEnd = skipTypeArguments(text, i);
+    if (typeArgumentsEnd === null) {
+      return null;
+    }
+    i = typeArgumentsEnd;
+  }
+
+  while (i < text.length) {
+    const char = text[i];
+    if (mode === "jsx" && char === "{") {
+      const expressionEnd = skipExpression(text, i);
+      if (expressionEnd === null) {
+        return null;
+      }
+      i = expressionEnd;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const quoteEnd = text.indexOf(char, i + 1);
+      if (quoteEnd === -1) {
+        return null;
+      }
+      i = quoteEnd + 1;
+      continue;
+    }
+
+    if (char === ">") {
+      return { end: i + 1, selfClosing: false };
+    }
+
+    if (char === "/" && text[i + 1] === ">") {
+      return { end: i + 2, selfClosing: true };
+    }
+
+    if (char === "<") {
+      // A new tag starts before this one ends
+      return null;
+    }
+
+    i++;
+  }
+
+  return null;
+};
+
+/**
+ * Skips a type argument list starting at the index (e.g. <Option> in <Select<Option>>)
+ * Returns the index after the list, or null if it is not closed
+ */
+const skipTypeArguments = (text: string, index: number): number | null => {
+  let depth = 0;
+
+  for (let i = index; i < text.length; i++) {
+    const char = text[i];
+    if (char === "<") {
+      depth++;
+    } else if (char === ">" && text[i - 1] !== "=") {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    } else if (char === "{" || char === "\n") {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Skips a {} expression starting at the index, including strings that may contain braces
+ * Returns the index after the closing brace, or null if it is not closed
+ */
+const skipExpression = (text: string, index: number): number | null => {
+  let depth = 0;
+  let i = index;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' || char === "'" || char === "`") {
+      i = skipQuoted(text, i);
+      continue;
+    }
+
+    if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+    i++;
+  }
+
+  return null;
+};
+
+/**
+ * Skips a quoted string starting at the index, honoring backslash escapes
+ */
+const skipQuoted = (text: string, index: number): number => {
+  const quote = text[index];
+  let i = index + 1;
+
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] === quote) {
+      return i + 1;
+    }
+    i++;
+  }
+
+  return text.length;
+};
+
+/**
+ * Finds the closing tag of a raw text element
+ */
+const findRawTextEnd = (text: string, normalizedName: string, from: number): { start: number; end: number } | null => {
+  const closingTagPattern = new RegExp(`</${normalizedName}[\\s/>]`, "gi");
+  closingTagPattern.lastIndex = from;
+
+  const match = closingTagPattern.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const end = text.indexOf(">", match.index);
+  return { start: match.index, end: end === -1 ? text.length : end + 1 };
+};
+
+/**
+ * Checks whether two tag names are the same in the parse mode
+ */
+export const isSameTagName = (a: string, b: string, mode: TagParseMode): boolean => {
+  return mode === "html" ? a.toLowerCase() === b.toLowerCase() : a === b;
+};
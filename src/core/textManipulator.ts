@@ -1,87 +1,336 @@
+import { getPairDefinition } from "./pairs";
 import {
-  BracketDelimiter,
   isBrackets,
+  isFencePairType,
+  isLinkPairType,
+  isMarkdownPairType,
+  isRecipePairType,
+  isTagPairType,
   SelectionRangeWithPairResult,
+  type EndOfLine,
+  type FencePairType,
   type OperationType,
   type PairType,
+  type Position,
   type Range,
+  type TextEdit,
+  type TextEditOptions,
   type TextEditResult,
 } from "./types";
 
 /**
  * Get the opening and closing parts of a pair
+ * The fences of a code block include the line breaks that put them on their own lines
  */
-const getPairParts = (pair: PairType): { opening: string; closing: string } => {
+const getPairParts = (pair: PairType, eol: EndOfLine): { opening: string; closing: string } => {
   if (typeof pair === "string") {
-    if (isBrackets(pair)) {
-      return {
-        opening: pair,
-        closing: getBracketClosing(pair),
-      };
-    } else {
-      return {
-        opening: pair,
-        closing: pair,
-      };
-    }
+    const { opening, closing } = getPairDefinition(pair);
+    return { opening, closing };
+  } else if (isMarkdownPairType(pair)) {
+    return {
+      opening: pair.delimiter,
+      closing: pair.delimiter,
+    };
+  } else if (isLinkPairType(pair)) {
+    return {
+      opening: "[",
+      closing: `](${pair.url})`,
+    };
+  } else if (isFencePairType(pair)) {
+    return {
+      opening: `${pair.fence}${pair.language}${eol}`,
+      closing: `${eol}${pair.fence}`,
+    };
+  } else if (isRecipePairType(pair)) {
+    return {
+      opening: pair.opening,
+      closing: pair.closing,
+    };
   } else {
-    // Tag pair
+    // Tag pair; the opening tag may have attributes
     return {
-      opening: `<${pair.name}>`,
+      opening: pair.openingFullText ?? `<${pair.name}>`,
       closing: `</${pair.name}>`,
     };
   }
 };
 
-const getBracketClosing = (pair: BracketDelimiter): string => {
-  switch (pair) {
-    case "(":
-      return ")";
-    case "{":
-      return "}";
-    case "[":
-      return "]";
-    case "<":
-      return ">";
-    default:
-      // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
-      throw new Error(`Unknown bracket delimiter: ${pair}`);
+/**
+ * Check whether two pairs are basic pairs of the same kind (e.g. two quotes or two brackets)
+ */
+const isSameKindOfPair = (pair: PairType, otherPair: PairType): boolean => {
+  return typeof pair === "string" && typeof otherPair === "string" && getPairDefinition(pair).kind === getPairDefinition(otherPair).kind;
+};
+
+/**
+ * Get the opening and closing parts of a pair repeated count times
+ * With padding, a space is added inside each opening and closing
+ */
+const getRepeatedPairParts = (pair: PairType, count: number, padding: boolean, eol: EndOfLine): { opening: string; closing: string } => {
+  const { opening, closing } = getPairParts(pair, eol);
+  const times = Math.max(1, count);
+  const space = padding ? " " : "";
+
+  return {
+    opening: `${opening}${space}`.repeat(times),
+    closing: `${space}${closing}`.repeat(times),
+  };
+};
+
+/**
+ * Get the position after the text when it starts at the position
+ */
+const advancePosition = (position: Position, text: string): Position => {
+  const lines = text.split(/\r\n|\n/);
+  if (lines.length === 1) {
+    return { line: position.line, character: position.character + text.length };
+  }
+
+  return { line: position.line + lines.length - 1, character: lines[lines.length - 1].length };
+};
+
+/**
+ * Exclude the whitespace and line breaks around the range
+ * A range that has only whitespace is kept as is
+ */
+const trimRange = (ranges: SelectionRangeWithPairResult): Range => {
+  const text = ranges.text ?? "";
+  const leading = /^\s*/.exec(text)?.[0].length ?? 0;
+  const trailing = /\s*$/.exec(text)?.[0].length ?? 0;
+  if (leading === text.length) {
+    return ranges.range;
   }
+
+  return {
+    start: advancePosition(ranges.range.start, text.slice(0, leading)),
+    end: advancePosition(ranges.range.start, text.slice(0, text.length - trailing)),
+  };
+};
+
+/**
+ * Get the ranges of the opening and closing of a pair, including the spaces and tabs inside them
+ * Line breaks are not included, so lines are never joined
+ */
+const getPaddedPairRanges = (ranges: SelectionRangeWithPairResult): { openingRange: Range; closingRange: Range } => {
+  const text = ranges.text ?? "";
+  const leading = /^[\t ]*/.exec(text)?.[0].length ?? 0;
+  // Spaces counted as leading padding are not counted again as trailing padding
+  const trailing = leading === text.length ? 0 : (/[\t ]*$/.exec(text)?.[0].length ?? 0);
+
+  return {
+    openingRange: {
+      start: ranges.startRange.start,
+      end: { line: ranges.range.start.line, character: ranges.range.start.character + leading },
+    },
+    closingRange: {
+      start: { line: ranges.range.end.line, character: ranges.range.end.character - trailing },
+      end: ranges.endRange.end,
+    },
+  };
+};
+
+/**
+ * Add a code block around the lines of the range
+ * The range is expected to cover whole lines; the fences are indented like the first line
+ */
+const addFence = (ranges: SelectionRangeWithPairResult, pair: FencePairType, eol: EndOfLine): TextEditResult => {
+  const { opening, closing } = getPairParts(pair, eol);
+  const indent = /^[\t ]*/.exec(ranges.text ?? "")?.[0] ?? "";
+  const start = { line: ranges.range.start.line, character: ranges.range.start.character + indent.length };
+
+  return [
+    {
+      range: { start, end: start },
+      newText: `${opening}${indent}`,
+    },
+    {
+      range: { start: ranges.range.end, end: ranges.range.end },
+      newText: closing.replace(eol, `${eol}${indent}`),
+    },
+  ];
+};
+
+/**
+ * Check whether a pair can be added linewise, on its own lines around the lines it wraps
+ * Brackets, tags and recipes can; quotes and the other delimiters stay on the lines they wrap.
+ */
+export const isLinewisePair = (pair: PairType): boolean => {
+  return typeof pair === "string" ? isBrackets(pair) : isTagPairType(pair) || isRecipePairType(pair);
+};
+
+/**
+ * Get the indentation of the least indented line that is not blank
+ */
+const getBlockIndent = (lines: readonly string[]): string => {
+  return (
+    lines
+      .filter((line) => line.trim() !== "")
+      .map((line) => /^[\t ]*/.exec(line)?.[0] ?? "")
+      .reduce<string | undefined>(
+        (indent, lineIndent) => (indent === undefined || lineIndent.length < indent.length ? lineIndent : indent),
+        undefined
+      ) ?? ""
+  );
+};
+
+/**
+ * Add a pair on its own lines around the lines of the range
+ * The range is expected to cover whole lines; the pair is indented like the least indented line,
+ * and the lines inside are indented by one level for each pair added. Blank lines are left as they are.
+ * Whitespace that pads the content on the same line (e.g. of a "{% " recipe) is trimmed, as the content is on its own lines.
+ */
+const addLinewisePair = (ranges: SelectionRangeWithPairResult, pair: PairType, options: Required<TextEditOptions>): TextEditResult => {
+  const parts = getPairParts(pair, options.eol);
+  const opening = parts.opening.trimEnd();
+  const closing = parts.closing.trimStart();
+  const lines = (ranges.text ?? "").split(options.eol);
+  const indent = getBlockIndent(lines);
+  const levels = Array.from({ length: Math.max(1, options.count) }, (_, level) => `${indent}${options.indentUnit.repeat(level)}`);
+  const innerIndent = options.indentUnit.repeat(levels.length);
+  const openingLines = levels.map((levelIndent) => `${levelIndent}${opening}${options.eol}`).join("");
+  const closingLines = [...levels]
+    .reverse()
+    .map((levelIndent) => `${options.eol}${levelIndent}${closing}`)
+    .join("");
+
+  const lineEdits = lines.flatMap((line, index): TextEditResult => {
+    const start = { line: ranges.range.start.line + index, character: 0 };
+    const lineIndent = line.trim() === "" ? "" : innerIndent;
+    if (index === 0) {
+      return [{ range: { start, end: start }, newText: `${openingLines}${lineIndent}` }];
+    }
+    return lineIndent ? [{ range: { start, end: start }, newText: lineIndent }] : [];
+  });
+
+  return [...lineEdits, { range: { start: ranges.range.end, end: ranges.range.end }, newText: closingLines }];
 };
 
 /**
  * Add a pair around the specified range
  */
-const addPair = (ranges: SelectionRangeWithPairResult, pair: PairType): TextEditResult => {
-  const { opening, closing } = getPairParts(pair);
+const addPair = (ranges: SelectionRangeWithPairResult, pair: PairType, options: Required<TextEditOptions>): TextEditResult => {
+  // Code blocks do not nest and have no padding
+  if (isFencePairType(pair)) {
+    return addFence(ranges, pair, options.eol);
+  }
+
+  if (options.linewise && isLinewisePair(pair)) {
+    return addLinewisePair(ranges, pair, options);
+  }
+
+  const { opening, closing } = getRepeatedPairParts(pair, options.count, options.padding, options.eol);
+  const range = options.trimRange ? trimRange(ranges) : ranges.range;
 
   return [
     {
       range: {
-        start: ranges.range.start,
-        end: ranges.range.start,
+        start: range.start,
+        end: range.start,
       },
       newText: opening,
     },
     {
       range: {
-        start: ranges.range.end,
-        end: ranges.range.end,
+        start: range.end,
+        end: range.end,
       },
       newText: closing,
     },
   ];
 };
 
+/**
+ * Get the length of the indentation of a line
+ */
+const getIndentLength = (line: string): number => {
+  return /^[\t ]*/.exec(line)?.[0].length ?? 0;
+};
+
+/**
+ * Remove the lines of delimiters that are on their own lines, and dedent the lines inside by one level
+ * Each delimiter line is removed on its own, so `},` keeps its line while the line of its `{` is removed;
+ * the lines inside are dedented when at least one delimiter line is removed.
+ * One level is how much more the least indented line inside is indented than the line of the opening delimiter.
+ * @param opening Text put before the first line inside, after its indentation, or in place of the opening delimiter if its line is kept
+ * @param closing Text put after the last line inside, or in place of the closing delimiter if its line is kept
+ * @returns The edits, or null if both delimiters share their lines with other text
+ */
+const removeDelimiterLines = (
+  ranges: SelectionRangeWithPairResult,
+  options: Required<TextEditOptions>,
+  opening = "",
+  closing = ""
+): TextEditResult | null => {
+  const { startRange, endRange } = ranges;
+  const innerText = (ranges.text ?? "").split(options.eol);
+  const isBlank = (text: string) => text.trim() === "";
+  const openingLine = options.getLineText(startRange.start.line);
+  const closingLine = options.getLineText(endRange.end.line);
+  const removesOpeningLine = isBlank(openingLine.slice(0, startRange.start.character)) && isBlank(innerText[0]);
+  const removesClosingLine = isBlank(innerText[innerText.length - 1]) && isBlank(closingLine.slice(endRange.end.character));
+  if (
+    ranges.prefixRange ||
+    (!removesOpeningLine && !removesClosingLine) ||
+    innerText.length < (removesOpeningLine && removesClosingLine ? 3 : 2)
+  ) {
+    return null;
+  }
+
+  // Lines after the opening line, up to the closing delimiter unless its line is removed
+  const lines = innerText.slice(1, removesClosingLine ? -1 : undefined);
+  const blockIndent = lines.reduce((indent, line) => (isBlank(line) ? indent : Math.min(indent, getIndentLength(line))), Infinity);
+  const dedent = Number.isFinite(blockIndent) ? Math.max(0, blockIndent - getIndentLength(openingLine)) : 0;
+  const firstLine = startRange.start.line + 1;
+  const lastLine = endRange.end.line - 1;
+  const dedentLengths = lines.map((line) => (isBlank(line) ? 0 : Math.min(dedent, getIndentLength(line))));
+
+  const openingEdits: TextEditResult = removesOpeningLine
+    ? [
+        {
+          range: { start: { line: startRange.start.line, character: 0 }, end: { line: firstLine, character: dedentLengths[0] } },
+          newText: "",
+        },
+      ]
+    : [{ range: startRange, newText: opening }];
+  if (removesOpeningLine && opening) {
+    const position = { line: firstLine, character: getIndentLength(lines[0]) };
+    openingEdits.push({ range: { start: position, end: position }, newText: opening });
+  }
+
+  // The first line inside is dedented along with the removal of the opening line
+  const dedentEdits = dedentLengths.flatMap((length, index): TextEditResult => {
+    const line = firstLine + index;
+    return length > 0 && !(removesOpeningLine && index === 0)
+      ? [{ range: { start: { line, character: 0 }, end: { line, character: length } }, newText: "" }]
+      : [];
+  });
+
+  const closingEdit = removesClosingLine
+    ? {
+        range: {
+          start: { line: lastLine, character: options.getLineText(lastLine).length },
+          end: { line: endRange.end.line, character: closingLine.length },
+        },
+        newText: closing,
+      }
+    : { range: endRange, newText: closing };
+
+  return [...openingEdits, ...dedentEdits, closingEdit];
+};
+
 /**
  * Delete a pair around the specified range
  * This is a simplified implementation that assumes the pair exists at the boundaries of the range
  */
-const deletePair = (ranges: SelectionRangeWithPairResult): TextEditResult => {
-  const openingRange = ranges.startRange;
+const deletePair = (ranges: SelectionRangeWithPairResult, pair: PairType, options: Required<TextEditOptions>): TextEditResult => {
+  const lineEdits = options.removeDelimiterLines && !isFencePairType(pair) ? removeDelimiterLines(ranges, options) : null;
+  if (lineEdits) {
+    return lineEdits;
+  }
 
-  // Create a range that includes the closing pair
-  const closingRange = ranges.endRange;
+  const { openingRange, closingRange } = options.trimInnerPadding
+    ? getPaddedPairRanges(ranges)
+    : { openingRange: getFenceLineRange(ranges.startRange, pair), closingRange: ranges.endRange };
 
   return [
     {
@@ -97,19 +346,39 @@ const deletePair = (ranges: SelectionRangeWithPairResult): TextEditResult => {
 
 /**
  * Replace a pair around the specified range with another pair
+ * The inner padding is kept unless it is trimmed, or normalised to one space when the new pair is padded
  */
-const replacePair = (ranges: SelectionRangeWithPairResult, destinationPair: PairType): TextEditResult => {
-  const { opening: destOpening, closing: destClosing } = getPairParts(destinationPair);
+const replacePair = (
+  ranges: SelectionRangeWithPairResult,
+  destinationPair: PairType,
+  sourcePair: PairType,
+  options: Required<TextEditOptions>
+): TextEditResult => {
+  if (isFencePairType(destinationPair) && isFencePairType(sourcePair)) {
+    return replaceFence(ranges, destinationPair, sourcePair, options.eol);
+  }
+
+  const { opening: destOpening, closing: destClosing } = getRepeatedPairParts(destinationPair, options.count, options.padding, options.eol);
 
-  // Create a range that includes the opening pair
-  const openingRange: Range = ranges.startRange;
+  // A pair on its own lines replaced with a pair that stays on its lines is put around the lines inside
+  const lineEdits =
+    options.removeDelimiterLines && !isFencePairType(sourcePair) && !isFencePairType(destinationPair) && !isLinewisePair(destinationPair)
+      ? removeDelimiterLines(ranges, options, destOpening, destClosing)
+      : null;
+  if (lineEdits) {
+    return lineEdits;
+  }
 
-  // Create a range that includes the closing pair
-  const closingRange: Range = ranges.endRange;
+  const { openingRange, closingRange } =
+    options.trimInnerPadding || options.padding
+      ? getPaddedPairRanges(ranges)
+      : { openingRange: ranges.startRange, closingRange: ranges.endRange };
+  // A string prefix (e.g. f in f"..." or %w in %w[...]) only applies to pairs of its kind, so it is replaced along with them by other pairs
+  const prefixEnd = isSameKindOfPair(sourcePair, destinationPair) ? ranges.prefixRange?.end : undefined;
 
   return [
     {
-      range: openingRange,
+      range: prefixEnd ? { start: prefixEnd, end: openingRange.end } : openingRange,
       newText: destOpening,
     },
     {
@@ -119,28 +388,199 @@ const replacePair = (ranges: SelectionRangeWithPairResult, destinationPair: Pair
   ];
 };
 
+/**
+ * Get the range of the opening fence of a code block including its indentation, so that deleting it removes the line
+ */
+const getFenceLineRange = (startRange: Range, pair: PairType): Range => {
+  if (!isFencePairType(pair)) {
+    return startRange;
+  }
+
+  return { start: { line: startRange.start.line, character: 0 }, end: startRange.end };
+};
+
+/**
+ * Replace a code block with another one
+ * The fence is kept when only the language changes, since a longer fence (e.g. ````) is needed around content
+ * that has fences itself, and the closing fence keeps the indentation of the opening fence.
+ */
+const replaceFence = (
+  ranges: SelectionRangeWithPairResult,
+  destinationPair: FencePairType,
+  sourcePair: FencePairType,
+  eol: EndOfLine
+): TextEditResult => {
+  const fence = sourcePair.fence.startsWith(destinationPair.fence[0]) ? sourcePair.fence : destinationPair.fence;
+  const { opening, closing } = getPairParts({ ...destinationPair, fence }, eol);
+  const indent = " ".repeat(ranges.startRange.start.character);
+
+  return [
+    {
+      range: ranges.startRange,
+      newText: opening,
+    },
+    {
+      range: ranges.endRange,
+      newText: closing.replace(eol, `${eol}${indent}`),
+    },
+  ];
+};
+
 /**
  * Generate text edits based on the operation type, range, and pair information
+ * The count option repeats the added pair and the padding options control the spaces inside it (see TextEditOptions)
  */
 export const getTextEdits = (
   operation: OperationType,
   ranges: SelectionRangeWithPairResult,
   pair: PairType,
-  sourcePair?: PairType
+  sourcePair?: PairType,
+  options: TextEditOptions = {}
 ): TextEditResult => {
+  const resolvedOptions: Required<TextEditOptions> = {
+    count: options.count ?? 1,
+    padding: options.padding ?? false,
+    trimInnerPadding: options.trimInnerPadding ?? false,
+    trimRange: options.trimRange ?? false,
+    eol: options.eol ?? "\n",
+    linewise: options.linewise ?? false,
+    indentUnit: options.indentUnit ?? "\t",
+    // Delimiter lines can only be found with the text of the lines
+    removeDelimiterLines: (options.removeDelimiterLines ?? false) && options.getLineText !== undefined,
+    getLineText: options.getLineText ?? (() => ""),
+  };
+
   switch (operation) {
     case "add":
-      return addPair(ranges, pair);
+      return addPair(ranges, pair, resolvedOptions);
     case "delete":
-      return deletePair(ranges);
+      return deletePair(ranges, pair, resolvedOptions);
     case "replace":
       if (!sourcePair) {
         throw new Error("Source pair is required for replace operation");
       }
-      return replacePair(ranges, pair);
+      return replacePair(ranges, pair, sourcePair, resolvedOptions);
     default: {
       const exhaustiveCheck: never = operation;
       throw new Error(`Unknown operation: ${exhaustiveCheck as string}`);
     }
   }
 };
+
+/**
+ * Text edits of several selections merged into one set of edits
+ */
+export type MergedTextEdits = {
+  edits: TextEdit[];
+  /** Indexes of the groups left out because their edits overlap the edits of an earlier group */
+  skipped: number[];
+};
+
+/**
+ * Compare two positions in document order
+ */
+const comparePositions = (a: Position, b: Position): number => {
+  return a.line - b.line || a.character - b.character;
+};
+
+/**
+ * Check whether two edits make the same change
+ */
+const isSameEdit = (a: TextEdit, b: TextEdit): boolean => {
+  return (
+    comparePositions(a.range.start, b.range.start) === 0 && comparePositions(a.range.end, b.range.end) === 0 && a.newText === b.newText
+  );
+};
+
+/**
+ * Check whether two edits change the same text
+ * Edits that only touch, like insertions at the boundary of a replaced range, do not overlap.
+ */
+const editsOverlap = (a: TextEdit, b: TextEdit): boolean => {
+  return comparePositions(a.range.start, b.range.end) < 0 && comparePositions(b.range.start, a.range.end) < 0;
+};
+
+/**
+ * Check whether two groups make the same edits, which is the case for cursors that resolved to the same pair
+ */
+const isSameEditGroup = (a: readonly TextEdit[], b: readonly TextEdit[]): boolean => {
+  return a.length === b.length && a.every((edit, index) => isSameEdit(edit, b[index]));
+};
+
+/**
+ * Edit of a merged group, with the span of the group
+ */
+type GroupedTextEdit = {
+  edit: TextEdit;
+  groupIndex: number;
+  groupStart: Position;
+  groupEnd: Position;
+};
+
+/**
+ * Give each edit of the groups the span of its group
+ */
+const toGroupedTextEdits = (groups: readonly (readonly TextEdit[])[]): GroupedTextEdit[] => {
+  return groups.flatMap((group, groupIndex) => {
+    if (group.length === 0) {
+      return [];
+    }
+
+    const groupStart = group
+      .map((edit) => edit.range.start)
+      .reduce((start, position) => (comparePositions(position, start) < 0 ? position : start));
+    const groupEnd = group.map((edit) => edit.range.end).reduce((end, position) => (comparePositions(position, end) > 0 ? position : end));
+    return group.map((edit) => ({ edit, groupIndex, groupStart, groupEnd }));
+  });
+};
+
+/**
+ * Compare two edits in the order they are applied, which is the document order
+ * Insertions of different groups at the same position are applied in array order, so they are ordered to keep the pairs apart or nested:
+ * an edit ending its group comes before one of a group going on, inner groups end first and outer groups start first.
+ */
+const compareGroupedTextEdits = (a: GroupedTextEdit, b: GroupedTextEdit): number => {
+  const byPosition = comparePositions(a.edit.range.start, b.edit.range.start);
+  if (byPosition !== 0 || a.groupIndex === b.groupIndex) {
+    return byPosition;
+  }
+
+  const aEnds = comparePositions(a.edit.range.end, a.groupEnd) === 0;
+  const bEnds = comparePositions(b.edit.range.end, b.groupEnd) === 0;
+  if (aEnds !== bEnds) {
+    return aEnds ? -1 : 1;
+  }
+
+  return aEnds ? comparePositions(b.groupStart, a.groupStart) : comparePositions(b.groupEnd, a.groupEnd);
+};
+
+/**
+ * Merge the text edits of several selections so that they can be applied at once
+ * A group making the same edits as an earlier group is dropped, so that cursors in the same pair edit it once;
+ * an edit of another group that happens to equal one of them is still made (e.g. the quote between 'a' and 'b').
+ * A group with an edit overlapping the edits of an earlier group is left out as a whole.
+ * The edits are sorted into document order, so the result does not depend on the order of the selections.
+ * @param groups Text edits of each selection, the primary selection first
+ */
+export const mergeTextEdits = (groups: readonly (readonly TextEdit[])[]): MergedTextEdits => {
+  const mergedGroups: (readonly TextEdit[])[] = [];
+  const skipped: number[] = [];
+
+  groups.forEach((group, index) => {
+    if (mergedGroups.some((mergedGroup) => isSameEditGroup(mergedGroup, group))) {
+      return;
+    }
+
+    if (group.some((edit) => mergedGroups.some((mergedGroup) => mergedGroup.some((merged) => editsOverlap(merged, edit))))) {
+      skipped.push(index);
+      return;
+    }
+
+    mergedGroups.push(group);
+  });
+
+  const edits = toGroupedTextEdits(mergedGroups)
+    .sort(compareGroupedTextEdits)
+    .map(({ edit }) => edit);
+  return { edits, skipped };
+};
@@ -1,3 +1,6 @@
+import type { PairIndex } from "./pairIndex";
+import { getPairDefinition, getPairKeysOfKind, type PairKey, type PairKeyOfKind } from "./pairs";
+
 /**
  * Operation types
  * - add: Add surrounding pair/tag
@@ -18,20 +21,19 @@ export type RangeType = "_" | "s" | "it" | "at" | "st";
 
 /**
  * Basic pair types
+ * Pairs of delimiters from the pair registry (see PAIR_DEFINITIONS), picked by their key
  */
-export const BRACKETS_DELIMITERS = ["(", "{", "[", "<"] as const;
-export type BracketDelimiter = (typeof BRACKETS_DELIMITERS)[number];
+export type BasicPairType = PairKey;
+export const BRACKETS_DELIMITERS = getPairKeysOfKind("bracket");
+export type BracketDelimiter = PairKeyOfKind<"bracket">;
 export const isBrackets = (pair: BasicPairType): pair is BracketDelimiter => {
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-  return BRACKETS_DELIMITERS.includes(pair as any);
+  return getPairDefinition(pair).kind === "bracket";
 };
-export const QUOTES_DELIMITERS = ["'", '"', "`"] as const;
-export type QuoteDelimiter = (typeof QUOTES_DELIMITERS)[number];
+export const QUOTES_DELIMITERS = getPairKeysOfKind("quote");
+export type QuoteDelimiter = PairKeyOfKind<"quote">;
 export const isQuotes = (pair: BasicPairType): pair is QuoteDelimiter => {
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-  return QUOTES_DELIMITERS.includes(pair as any);
+  return getPairDefinition(pair).kind === "quote";
 };
-export type BasicPairType = BracketDelimiter | QuoteDelimiter;
 
 /**
  * Tag pair type
@@ -39,17 +41,102 @@ export type BasicPairType = BracketDelimiter | QuoteDelimiter;
 export type TagPairType = {
   type: "tag";
   name: string;
+  /** Opening tag with its attributes (e.g. `<div class="row">`); `<name>` if omitted */
   openingFullText?: string;
 };
 
+/**
+ * Markdown inline delimiters
+ * - ** / __: Strong emphasis
+ * - * / _: Emphasis
+ * - ~~: Strikethrough
+ * - ` / ``: Code spans
+ */
+export const MARKDOWN_DELIMITERS = ["**", "*", "__", "_", "~~", "`", "``"] as const;
+export type MarkdownDelimiter = (typeof MARKDOWN_DELIMITERS)[number];
+
+/**
+ * Markdown inline pair type
+ */
+export type MarkdownPairType = {
+  type: "markdown";
+  delimiter: MarkdownDelimiter;
+};
+
+/**
+ * Markdown link pair type ([text](url))
+ */
+export type LinkPairType = {
+  type: "link";
+  url: string;
+};
+
+/**
+ * Markdown fenced code block pair type
+ * The fences are put on their own lines around the wrapped lines
+ */
+export type FencePairType = {
+  type: "fence";
+  /** Fence of backticks or tildes (e.g. "```" or "~~~") */
+  fence: string;
+  /** Language tag after the opening fence; empty for none */
+  language: string;
+};
+
+/**
+ * Pair type defined by a recipe (see Recipe)
+ * With regex, the opening and closing are regular expressions, so the pair can only be found, not inserted
+ */
+export type RecipePairType = {
+  type: "recipe";
+  opening: string;
+  closing: string;
+  regex: boolean;
+};
+
 /**
  * Pair types (all)
  */
-export type PairType = BasicPairType | TagPairType;
+export type PairType = BasicPairType | TagPairType | MarkdownPairType | LinkPairType | FencePairType | RecipePairType;
 export const isTagPairType = (pair: PairType): pair is TagPairType => {
-  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
   return typeof pair !== "string" && pair.type === "tag";
 };
+export const isMarkdownPairType = (pair: PairType): pair is MarkdownPairType => {
+  return typeof pair !== "string" && pair.type === "markdown";
+};
+export const isLinkPairType = (pair: PairType): pair is LinkPairType => {
+  return typeof pair !== "string" && pair.type === "link";
+};
+export const isFencePairType = (pair: PairType): pair is FencePairType => {
+  return typeof pair !== "string" && pair.type === "fence";
+};
+export const isRecipePairType = (pair: PairType): pair is RecipePairType => {
+  return typeof pair !== "string" && pair.type === "recipe";
+};
+
+/**
+ * Kinds of pairs matched by an any-pair source
+ * - quote: the nearest quotes of any type
+ * - bracket: the nearest brackets of any type
+ * - auto: the nearest quotes, brackets, tag, Markdown pair or code block
+ */
+export type AnyPairKind = "quote" | "bracket" | "auto";
+
+/**
+ * Source pair that matches the nearest surrounding pair of any type of its kind
+ */
+export type AnyPairType = {
+  type: "any";
+  kind: AnyPairKind;
+};
+
+/**
+ * Pair types that can be searched around the cursor
+ */
+export type SourcePairType = PairType | AnyPairType;
+export const isAnyPairType = (pair: SourcePairType): pair is AnyPairType => {
+  return typeof pair !== "string" && pair.type === "any";
+};
 
 /**
  * Interface representing editor state (VSCode API independent)
@@ -63,8 +150,23 @@ export type EditorState = {
   selection: Range;
   /** Function to get text of specified line */
   getLineText: (lineNumber: number) => string;
+  /** Offset at which each line starts (see computeLineStarts) */
+  lineStarts: readonly number[];
+  /** End of line sequence of the document */
+  eol: EndOfLine;
+  /** Text of one indentation level in the editor (e.g. a tab or four spaces) */
+  indentUnit?: string;
+  /** Language identifier of the document, used to find strings and comments (e.g. "typescript") */
+  languageId?: string;
+  /** Pair index of the document text; built on demand if omitted */
+  pairIndex?: PairIndex;
 };
 
+/**
+ * End of line sequences
+ */
+export type EndOfLine = "\n" | "\r\n";
+
 /**
  * Position information
  * Abstracted type independent of VSCode API
@@ -83,6 +185,22 @@ export type Range = {
   end: Position;
 };
 
+/**
+ * Part of the document text, as offsets (`end` is exclusive)
+ */
+export type TextWindow = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Token for aborting long-running work
+ * Abstracted type compatible with VSCode's CancellationToken
+ */
+export type CancellationToken = {
+  readonly isCancellationRequested: boolean;
+};
+
 /**
  * Text edit information
  * Abstracted type independent of VSCode API
@@ -100,6 +218,16 @@ export type SelectionRangeWithPairResult = {
   startRange: Range;
   endRange: Range;
   text?: string;
+  /** Prefix of a string at the start of `startRange` (e.g. f in f"..."), which is kept when the pair is replaced with one of the same kind */
+  prefixRange?: Range;
+};
+
+/**
+ * Surrounding pair found around the cursor
+ * The pair type is the type of the delimiters found, so an any-pair source is resolved to a concrete pair
+ */
+export type SurroundingPairResult = SelectionRangeWithPairResult & {
+  pairType: PairType;
 };
 
 /**
@@ -107,6 +235,33 @@ export type SelectionRangeWithPairResult = {
  */
 export type TextEditResult = TextEdit[];
 
+/**
+ * Options for generating text edits
+ */
+export type TextEditOptions = {
+  /** Number of times the pair is added, to wrap several levels at once (default: 1) */
+  count?: number;
+  /** Whether a space is added inside the added pair, like the opening key in vim-surround (add and replace) */
+  padding?: boolean;
+  /** Whether spaces and tabs inside the existing pair are removed with it (delete and replace) */
+  trimInnerPadding?: boolean;
+  /** Whether whitespace and line breaks around the range are left outside the added pair (add) */
+  trimRange?: boolean;
+  /** Line break put between the fences of a code block and the wrapped lines (default: "\n") */
+  eol?: EndOfLine;
+  /** Whether the added pair is put on its own lines around the lines of the range, which are indented (add) */
+  linewise?: boolean;
+  /** Text of one indentation level, by which the lines inside a linewise pair are indented (default: a tab) */
+  indentUnit?: string;
+  /**
+   * Whether the lines of delimiters that are on their own lines are removed and the lines inside dedented by one level
+   * (delete, and replace with a pair that is not linewise; requires getLineText)
+   */
+  removeDelimiterLines?: boolean;
+  /** Function to get the text of a line of the document, to find delimiters on their own lines */
+  getLineText?: (lineNumber: number) => string;
+};
+
 /**
  * Command execution state
  */
@@ -117,26 +272,3 @@ export type CommandState = {
   sourcePair?: PairType;
   destinationPair?: PairType;
 };
-
-/**
- * Bracket pair information
- * Defines opening and closing characters for each pair type
- */
-export type BracketPair = {
-  opening: string;
-  closing: string;
-};
-
-/**
- * Mapping of pair types to their opening and closing characters
- */
-export const PAIR_DELIMITERS: Record<BasicPairType | "tag", BracketPair> = {
-  "'": { opening: "'", closing: "'" },
-  '"': { opening: '"', closing: '"' },
-  "`": { opening: "`", closing: "`" },
-  "(": { opening: "(", closing: ")" },
-  "{": { opening: "{", closing: "}" },
-  "[": { opening: "[", closing: "]" },
-  "<": { opening: "<", closing: ">" },
-  tag: { opening: "", closing: "" }, // Will be set dynamically based on tag name
-};
@@ -0,0 +1,548 @@
+import { computeLineStarts, findLineAt } from "./lines";
+import type { UserRecipe } from "./recipes";
+import type { OperationType } from "./types";
+
+/**
+ * Languages of files with vim-sandwich configuration
+ */
+export type VimConfigLanguage = "vim" | "lua";
+
+/**
+ * Something in the file that was not imported as it is
+ */
+export type RecipeImportNote = {
+  /** Line of the file, starting at 1 */
+  line: number;
+  message: string;
+};
+
+/**
+ * Recipes converted from a vim-sandwich configuration, and notes on what was skipped or ignored
+ */
+export type RecipeImportResult = {
+  recipes: UserRecipe[];
+  notes: RecipeImportNote[];
+};
+
+/**
+ * Value of a Vim script or Lua literal
+ * Anything else, such as a variable or a function call, is kept as an expression that is not evaluated
+ */
+type ConfigValue =
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "list"; items: ConfigValue[] }
+  | { kind: "dict"; entries: Map<string, ConfigValue> }
+  | { kind: "expression"; text: string };
+
+type ParseResult = {
+  value: ConfigValue;
+  end: number;
+};
+
+const OPERATIONS: readonly OperationType[] = ["add", "delete", "replace"];
+
+/**
+ * Recipe options that are converted; the other options of vim-sandwich are ignored
+ * expr, listexpr, regex and external make a recipe impossible to convert, so it is skipped
+ */
+const CONVERTED_OPTIONS = new Set(["buns", "input", "filetype", "kind", "action", "expr", "listexpr", "regex", "external"]);
+
+/**
+ * Vim file types whose VSCode language identifier differs
+ */
+const VIM_FILETYPE_LANGUAGE_IDS: Readonly<Record<string, string>> = {
+  sh: "shellscript",
+  bash: "shellscript",
+  zsh: "shellscript",
+  cs: "csharp",
+  eruby: "erb",
+  htmldjango: "django-html",
+  jinja: "jinja-html",
+  tex: "latex",
+  text: "plaintext",
+  make: "makefile",
+  ps1: "powershell",
+  dosbatch: "bat",
+  objc: "objective-c",
+  objcpp: "objective-cpp",
+};
+
+/**
+ * Characters that may follow a complete value; anything else makes the value part of a larger expression
+ */
+const VALUE_TERMINATORS = new Set([",", ";", "]", "}", ")", "\r", "\n", ""]);
+
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/y;
+const BOOLEAN_PATTERN = /(?:v:)?(true|false)\b/y;
+const LUA_FIELD_NAME_PATTERN = /([A-Z_a-z]\w*)\s*=(?!=)/y;
+const LUA_LONG_BRACKET_PATTERN = /\[(=*)\[/y;
+const VIM_LITERAL_KEY_PATTERN = /[\w-]+/y;
+
+/**
+ * Start of a Vim line continuation ("\ ... ) or of a comment between continuation lines (\"\ ...)
+ */
+const VIM_CONTINUATION_PATTERN = /[\t ]*(?:"\\ [^\n]*|\\)/y;
+
+/**
+ * Converts the recipes of a vim-sandwich configuration (g:sandwich#recipes and the like) to recipes of the settings
+ * Every dictionary or table with buns is converted, wherever it is assigned, since recipes are often built in variables.
+ * Only literal values are read; nothing is evaluated.
+ * @param text Text of a Vim script or Lua file
+ */
+export const importVimRecipes = (text: string, language: VimConfigLanguage): RecipeImportResult => {
+  const lineStarts = computeLineStarts(text);
+  const lineAt = (offset: number) => findLineAt(lineStarts, offset) + 1;
+  const recipes: UserRecipe[] = [];
+  const notes: RecipeImportNote[] = [];
+
+  for (let i = 0; i < text.length; ) {
+    const nonCodeEnd = skipNonCode(text, i, language);
+    if (nonCodeEnd !== null) {
+      i = nonCodeEnd;
+      continue;
+    }
+
+    if (text[i] === "{" || (language === "vim" && text.startsWith("#{", i))) {
+      const { value, end } = parseValue(text, i, language);
+      if (value.kind === "dict" && value.entries.has("buns")) {
+        const { recipe, messages } = convertRecipe(value.entries);
+        if (recipe) {
+          recipes.push(recipe);
+        }
+        notes.push(...messages.map((message) => ({ line: lineAt(i), message })));
+        i = end;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  // Magic characters are functions of vim-sandwich, not pairs
+  text.split("\n").forEach((lineText, line) => {
+    if (lineText.includes("sandwich#magicchar") && !isCommentLine(lineText, language)) {
+      notes.push({ line: line + 1, message: "Magic characters (g:sandwich#magicchar) are not supported" });
+    }
+  });
+
+  return { recipes, notes: notes.sort((a, b) => a.line - b.line) };
+};
+
+/**
+ * Checks whether a whole line is a comment
+ */
+const isCommentLine = (lineText: string, language: VimConfigLanguage): boolean => {
+  const trimmed = lineText.trimStart();
+  return language === "vim" ? trimmed.startsWith('"') : trimmed.startsWith("--");
+};
+
+/**
+ * Finds the end of the comment or string starting at the index
+ * @returns The end, or null if there is code at the index
+ */
+const skipNonCode = (text: string, start: number, language: VimConfigLanguage): number | null => {
+  const char = text[start];
+
+  if (language === "lua") {
+    if (text.startsWith("--", start)) {
+      return skipLuaComment(text, start);
+    }
+    return char === "'" || char === '"' || isLuaLongBracketAt(text, start) ? (parseString(text, start, language)?.end ?? start + 1) : null;
+  }
+
+  // A double quote at the start of a line begins a comment, and elsewhere a string or a trailing comment
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  if (char === '"' && text.slice(lineStart, start).trim() === "") {
+    return findLineEnd(text, start);
+  }
+  if (char === "'" || char === '"') {
+    return parseString(text, start, language)?.end ?? findLineEnd(text, start);
+  }
+
+  return null;
+};
+
+/**
+ * Finds the end of the line containing the index, excluding the line break
+ */
+const findLineEnd = (text: string, start: number): number => {
+  const lineEnd = text.indexOf("\n", start);
+  return lineEnd === -1 ? text.length : lineEnd;
+};
+
+/**
+ * Checks whether a Lua long bracket ([[ or [==[) starts at the index
+ */
+const isLuaLongBracketAt = (text: string, start: number): boolean => {
+  LUA_LONG_BRACKET_PATTERN.lastIndex = start;
+  return LUA_LONG_BRACKET_PATTERN.test(text);
+};
+
+/**
+ * Finds the end of a Lua comment (--... or --[[...]])
+ */
+const skipLuaComment = (text: string, start: number): number => {
+  return isLuaLongBracketAt(text, start + 2) ? (parseString(text, start + 2, "lua")?.end ?? text.length) : findLineEnd(text, start);
+};
+
+/**
+ * Skips whitespace, comments and Vim line continuations
+ */
+const skipBlank = (text: string, start: number, language: VimConfigLanguage): number => {
+  let i = start;
+
+  while (i < text.length) {
+    if (text[i] === "\n" && language === "vim") {
+      VIM_CONTINUATION_PATTERN.lastIndex = i + 1;
+      i = VIM_CONTINUATION_PATTERN.test(text) ? VIM_CONTINUATION_PATTERN.lastIndex : i + 1;
+    } else if (/\s/.test(text[i])) {
+      i++;
+    } else if (language === "lua" && text.startsWith("--", i)) {
+      i = skipLuaComment(text, i);
+    } else {
+      break;
+    }
+  }
+
+  return i;
+};
+
+/**
+ * Parses the value starting at the index
+ * A literal followed by an operator (e.g. 'a' . 'b') is part of an expression, which is not evaluated
+ */
+const parseValue = (text: string, start: number, language: VimConfigLanguage): ParseResult => {
+  const literal = parseLiteral(text, start, language);
+  if (literal) {
+    let next = literal.end;
+    while (text[next] === " " || text[next] === "\t") {
+      next++;
+    }
+
+    const isComment = language === "vim" ? text[next] === '"' : text.startsWith("--", next);
+    if (isComment || VALUE_TERMINATORS.has(text.charAt(next))) {
+      return literal;
+    }
+  }
+
+  return parseExpression(text, start, language);
+};
+
+/**
+ * Parses the literal starting at the index
+ * @returns The literal, or null if there is none
+ */
+const parseLiteral = (text: string, start: number, language: VimConfigLanguage): ParseResult | null => {
+  const char = text[start];
+
+  if (char === "'" || char === '"' || (language === "lua" && isLuaLongBracketAt(text, start))) {
+    return parseString(text, start, language);
+  }
+  if (char === "[" && language === "vim") {
+    return parseList(text, start, language);
+  }
+  if (char === "{") {
+    return language === "vim" ? parseVimDictionary(text, start + 1, false) : parseLuaTable(text, start);
+  }
+  if (language === "vim" && text.startsWith("#{", start)) {
+    return parseVimDictionary(text, start + 2, true);
+  }
+
+  NUMBER_PATTERN.lastIndex = start;
+  const number = NUMBER_PATTERN.exec(text);
+  if (number) {
+    return { value: { kind: "number", value: Number(number[0]) }, end: NUMBER_PATTERN.lastIndex };
+  }
+
+  BOOLEAN_PATTERN.lastIndex = start;
+  const boolean = BOOLEAN_PATTERN.exec(text);
+  if (boolean && (language === "vim" ? boolean[0].startsWith("v:") : !boolean[0].startsWith("v:"))) {
+    return { value: { kind: "number", value: boolean[1] === "true" ? 1 : 0 }, end: BOOLEAN_PATTERN.lastIndex };
+  }
+
+  return null;
+};
+
+/**
+ * Parses a string literal
+ * Vim single-quoted strings escape a quote by doubling it, other strings use backslashes, and Lua long strings have no escapes.
+ * @returns The string, or null if it is not terminated
+ */
+const parseString = (text: string, start: number, language: VimConfigLanguage): ParseResult | null => {
+  if (language === "lua" && isLuaLongBracketAt(text, start)) {
+    const level = LUA_LONG_BRACKET_PATTERN.exec(text.slice(start))?.[1] ?? "";
+    const contentStart = start + level.length + 2;
+    const closing = `]${level}]`;
+    const contentEnd = text.indexOf(closing, contentStart);
+    return contentEnd === -1
+      ? null
+      : { value: { kind: "string", value: text.slice(contentStart, contentEnd) }, end: contentEnd + closing.length };
+  }
+
+  const quote = text[start];
+  const doubledEscape = language === "vim" && quote === "'";
+  let value = "";
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === "\n") {
+      return null;
+    }
+    if (char === quote) {
+      if (doubledEscape && text[i + 1] === quote) {
+        value += quote;
+        i++;
+        continue;
+      }
+      return { value: { kind: "string", value }, end: i + 1 };
+    }
+    if (char === "\\" && !doubledEscape && i + 1 < text.length) {
+      i++;
+      value += { n: "\n", t: "\t", r: "\r" }[text[i]] ?? text[i];
+      continue;
+    }
+
+    value += char;
+  }
+
+  return null;
+};
+
+/**
+ * Parses a Vim list ([...])
+ */
+const parseList = (text: string, start: number, language: VimConfigLanguage): ParseResult | null => {
+  const items: ConfigValue[] = [];
+  let i = skipBlank(text, start + 1, language);
+
+  while (text[i] !== "]") {
+    const item = parseValue(text, i, language);
+    items.push(item.value);
+
+    i = skipBlank(text, item.end, language);
+    if (text[i] === ",") {
+      i = skipBlank(text, i + 1, language);
+    } else if (text[i] !== "]") {
+      return null;
+    }
+  }
+
+  return { value: { kind: "list", items }, end: i + 1 };
+};
+
+/**
+ * Parses a Vim dictionary ({'key': value} or #{key: value})
+ * @param start Index after the opening brace
+ * @param literalKeys Whether the keys are written without quotes (#{...})
+ */
+const parseVimDictionary = (text: string, start: number, literalKeys: boolean): ParseResult | null => {
+  const entries = new Map<string, ConfigValue>();
+  let i = skipBlank(text, start, "vim");
+
+  while (text[i] !== "}") {
+    VIM_LITERAL_KEY_PATTERN.lastIndex = i;
+    const literalKey = literalKeys ? VIM_LITERAL_KEY_PATTERN.exec(text) : null;
+    const key = literalKey
+      ? { value: { kind: "string", value: literalKey[0] }, end: VIM_LITERAL_KEY_PATTERN.lastIndex }
+      : parseString(text, i, "vim");
+    if (key?.value.kind !== "string") {
+      return null;
+    }
+
+    i = skipBlank(text, key.end, "vim");
+    if (text[i] !== ":") {
+      return null;
+    }
+
+    const value = parseValue(text, skipBlank(text, i + 1, "vim"), "vim");
+    entries.set(key.value.value, value.value);
+
+    i = skipBlank(text, value.end, "vim");
+    if (text[i] === ",") {
+      i = skipBlank(text, i + 1, "vim");
+    } else if (text[i] !== "}") {
+      return null;
+    }
+  }
+
+  return { value: { kind: "dict", entries }, end: i + 1 };
+};
+
+/**
+ * Parses a Lua table ({...})
+ * A table with named fields is a dictionary, and one with positional fields only is a list
+ */
+const parseLuaTable = (text: string, start: number): ParseResult | null => {
+  const entries = new Map<string, ConfigValue>();
+  const items: ConfigValue[] = [];
+  let i = skipBlank(text, start + 1, "lua");
+
+  while (text[i] !== "}") {
+    let key: string | undefined;
+
+    LUA_FIELD_NAME_PATTERN.lastIndex = i;
+    const fieldName = LUA_FIELD_NAME_PATTERN.exec(text);
+    if (fieldName) {
+      key = fieldName[1];
+      i = LUA_FIELD_NAME_PATTERN.lastIndex;
+    } else if (text[i] === "[" && !isLuaLongBracketAt(text, i)) {
+      // ["key"] = value
+      const bracketKey = parseString(text, skipBlank(text, i + 1, "lua"), "lua");
+      const closing = bracketKey && skipBlank(text, bracketKey.end, "lua");
+      if (bracketKey?.value.kind !== "string" || !closing || text[closing] !== "]") {
+        return null;
+      }
+      const equals = skipBlank(text, closing + 1, "lua");
+      if (text[equals] !== "=") {
+        return null;
+      }
+      key = bracketKey.value.value;
+      i = equals + 1;
+    }
+
+    const value = parseValue(text, skipBlank(text, i, "lua"), "lua");
+    if (key === undefined) {
+      items.push(value.value);
+    } else {
+      entries.set(key, value.value);
+    }
+
+    i = skipBlank(text, value.end, "lua");
+    if (text[i] === "," || text[i] === ";") {
+      i = skipBlank(text, i + 1, "lua");
+    } else if (text[i] !== "}") {
+      return null;
+    }
+  }
+
+  const value: ConfigValue = entries.size > 0 ? { kind: "dict", entries } : { kind: "list", items };
+  return { value, end: i + 1 };
+};
+
+/**
+ * Reads an expression that is not evaluated, up to the next separator or closing bracket outside of brackets
+ */
+const parseExpression = (text: string, start: number, language: VimConfigLanguage): ParseResult => {
+  let depth = 0;
+  let i = start;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "'" || char === '"') {
+      i = parseString(text, i, language)?.end ?? findLineEnd(text, i);
+      continue;
+    }
+    if (char === "\n" && language === "vim") {
+      // A line without a continuation ends the statement
+      VIM_CONTINUATION_PATTERN.lastIndex = i + 1;
+      if (depth === 0 && !VIM_CONTINUATION_PATTERN.test(text)) break;
+      i = skipBlank(text, i, language);
+      continue;
+    }
+    if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      if (depth === 0) break;
+      depth--;
+    } else if (depth === 0 && (char === "," || char === ";")) {
+      break;
+    }
+
+    i++;
+  }
+
+  return { value: { kind: "expression", text: text.slice(start, i).trim() }, end: i };
+};
+
+/**
+ * Converts a vim-sandwich recipe
+ * @returns The recipe, unless it cannot be converted, and messages on what was skipped or ignored
+ */
+const convertRecipe = (entries: ReadonlyMap<string, ConfigValue>): { recipe?: UserRecipe; messages: string[] } => {
+  const bunsValue = entries.get("buns");
+  const buns = bunsValue?.kind === "list" ? bunsValue.items.map((item) => (item.kind === "string" ? item.value : null)) : [];
+  const name = buns.length === 2 && !buns.includes(null) ? `recipe ${JSON.stringify(buns)}` : "a recipe";
+  const skip = (reason: string) => ({ messages: [`Skipped ${name}: ${reason}`] });
+
+  if (isTruthy(entries.get("expr")) || isTruthy(entries.get("listexpr")) || bunsValue?.kind === "expression") {
+    return skip("expression buns are not supported");
+  }
+  if (entries.has("external")) {
+    return skip("text object recipes (external) are not supported");
+  }
+  if (isTruthy(entries.get("regex"))) {
+    return skip("Vim regular expressions are not supported");
+  }
+  const [opening, closing] = buns;
+  if (buns.length !== 2 || !opening || !closing) {
+    return skip("the buns are not two texts");
+  }
+
+  const messages: string[] = [];
+  const input = toStrings(entries.get("input")).filter((key) => key !== "");
+  const filetypes = toStrings(entries.get("filetype"));
+  const filetype = filetypes.includes("all") ? [] : filetypes.map((type) => VIM_FILETYPE_LANGUAGE_IDS[type] ?? type);
+
+  const kinds = toStrings(entries.get("kind"));
+  const unsupportedKinds = kinds.filter((kind) => kind !== "all" && !(OPERATIONS as readonly string[]).includes(kind));
+  let kind = entries.has("kind") && !kinds.includes("all") ? OPERATIONS.filter((operation) => kinds.includes(operation)) : OPERATIONS;
+  if (unsupportedKinds.length > 0) {
+    messages.push(`Ignored kinds of ${name}: ${unsupportedKinds.join(", ")}`);
+  }
+
+  // A recipe for adding only cannot be deleted, and one for deleting only cannot be added
+  const actions = toStrings(entries.get("action"));
+  if (entries.has("action") && !actions.includes("all")) {
+    kind = kind.filter((operation) => operation === "replace" || actions.includes(operation));
+  }
+  if (kind.length === 0) {
+    return { messages: [...messages, `Skipped ${name}: it is not used to add, delete or replace`] };
+  }
+
+  const ignoredOptions = Array.from(entries.keys()).filter((key) => !CONVERTED_OPTIONS.has(key));
+  if (ignoredOptions.length > 0) {
+    messages.push(`Ignored options of ${name}: ${ignoredOptions.join(", ")}`);
+  }
+
+  return {
+    recipe: {
+      buns: [opening, closing],
+      // Without input keys, vim-sandwich picks a recipe by typing its buns
+      input: input.length > 0 ? input : Array.from(new Set([opening, closing])),
+      ...(filetype.length > 0 ? { filetype } : {}),
+      ...(kind.length < OPERATIONS.length ? { kind } : {}),
+    },
+    messages,
+  };
+};
+
+/**
+ * Gets the texts of a list, ignoring other items
+ */
+const toStrings = (value: ConfigValue | undefined): string[] => {
+  if (value?.kind !== "list") {
+    return value?.kind === "string" ? [value.value] : [];
+  }
+
+  return value.items.flatMap((item) => (item.kind === "string" ? [item.value] : []));
+};
+
+/**
+ * Checks whether a value is true in Vim script
+ * Expressions are not evaluated, so they are taken as true
+ */
+const isTruthy = (value: ConfigValue | undefined): boolean => {
+  switch (value?.kind) {
+    case undefined:
+      return false;
+    case "number":
+      return value.value !== 0;
+    case "string":
+      return Number.parseInt(value.value, 10) > 0;
+    default:
+      return true;
+  }
+};
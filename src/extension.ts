@@ -1,5 +1,13 @@
 import * as vscode from "vscode";
-import { disposeHighlighter, registerSandwichCommand } from "./vscode";
+import {
+  disposeHighlighter,
+  initializeState,
+  registerDocumentCache,
+  registerHooks,
+  registerImportVimRecipesCommand,
+  registerPairManagerCommand,
+  registerSandwichCommand,
+} from "./vscode";
 
 /**
  * This method is called when the extension is activated
@@ -8,10 +16,25 @@ import { disposeHighlighter, registerSandwichCommand } from "./vscode";
 export function activate(context: vscode.ExtensionContext) {
   console.log('Extension "vscode-sandwich" is now active!');
 
+  // Remember values such as the last code block language across sessions
+  initializeState(context);
+
   // Register the sandwich command
   const sandwichCommand = registerSandwichCommand(context);
   context.subscriptions.push(sandwichCommand);
 
+  // Register the command importing vim-sandwich recipes
+  context.subscriptions.push(registerImportVimRecipesCommand(context));
+
+  // Register the command opening the pair manager panel
+  context.subscriptions.push(registerPairManagerCommand(context));
+
+  // Keep the text and pair index of edited documents up to date
+  context.subscriptions.push(registerDocumentCache());
+
+  // Load the hooks of .vscode/sandwich.js in trusted workspaces
+  context.subscriptions.push(registerHooks());
+
   // Register keyboard shortcut command
   const keyboardShortcutCommand = vscode.commands.registerCommand("vscode-sandwich.execute", () => {
     // This will be triggered by the keyboard shortcut (Cmd+K S)
@@ -0,0 +1,134 @@
+import * as assert from "assert";
+import type * as PublishedHookTypes from "../../../types/sandwich";
+import {
+  activateHookModule,
+  applyTextEditTransforms,
+  getHookItemsFor,
+  mergeHooks,
+  resolveHookPair,
+  toHookRecipes,
+  type HookPairContext,
+  type SandwichHookApi,
+} from "../../core/hooks";
+
+const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 5 } };
+
+const context: HookPairContext = {
+  operation: "add",
+  languageId: "typescript",
+  documentText: "hello",
+  cursorPosition: { line: 0, character: 0 },
+  selection: range,
+  getLineText: () => "hello",
+  range,
+  text: "hello",
+};
+
+suite("Core: Hooks Test Suite", () => {
+  test("activateHookModule should collect what the module registers", async () => {
+    const hooks = await activateHookModule({
+      activate: (sandwich: SandwichHookApi) => {
+        sandwich.registerPair({ key: "i", buns: ["t(", ")"] });
+        sandwich.registerRangeType({ key: "w", select: () => range });
+        sandwich.registerTextEditTransform((edits) => edits);
+      },
+    });
+
+    assert.deepStrictEqual(
+      [hooks.pairs.map((pair) => pair.key), hooks.rangeTypes.map((rangeType) => rangeType.key), hooks.transforms.length],
+      [["i"], ["w"], 1]
+    );
+  });
+
+  test("activateHookModule should accept a module that is the activate function", async () => {
+    const hooks = await activateHookModule(async (sandwich: SandwichHookApi) => {
+      await Promise.resolve();
+      sandwich.registerPair({ key: "i", buns: () => ["t(", ")"] });
+    });
+
+    assert.strictEqual(hooks.pairs.length, 1);
+  });
+
+  test("activateHookModule should run a module written against the published types", async () => {
+    // The API must be usable where the published types expect it, so a module checked with them works
+    const toPublishedApi = (api: SandwichHookApi): PublishedHookTypes.SandwichHookApi => api;
+    const activate = (sandwich: PublishedHookTypes.SandwichHookApi) => {
+      sandwich.registerPair({ key: "i", buns: ({ text }) => [`t("${text}", `, ")"] });
+      sandwich.registerTextEditTransform((edits, { destinationPair }) => (typeof destinationPair === "string" ? edits : undefined));
+    };
+
+    const hooks = await activateHookModule((api: SandwichHookApi) => {
+      activate(toPublishedApi(api));
+    });
+
+    assert.deepStrictEqual([hooks.pairs.length, hooks.transforms.length], [1, 1]);
+  });
+
+  test("activateHookModule should reject invalid modules and registrations", async () => {
+    await assert.rejects(activateHookModule({}), /must export an activate function/);
+    await assert.rejects(
+      activateHookModule((sandwich: SandwichHookApi) => {
+        sandwich.registerPair({ key: "i", buns: ["t(", ""] });
+      }),
+      /registerPair requires/
+    );
+  });
+
+  test("getHookItemsFor should filter by language", async () => {
+    const hooks = mergeHooks([
+      await activateHookModule((sandwich: SandwichHookApi) => {
+        sandwich.registerPair({ key: "a", buns: ["<", ">"] });
+        sandwich.registerPair({ key: "b", buns: ["<", ">"], languages: ["typescript"] });
+      }),
+      await activateHookModule((sandwich: SandwichHookApi) => {
+        sandwich.registerPair({ key: "c", buns: ["<", ">"], languages: ["python"] });
+      }),
+    ]);
+
+    assert.deepStrictEqual(
+      getHookItemsFor(hooks.pairs, "typescript").map((pair) => pair.key),
+      ["a", "b"]
+    );
+    assert.deepStrictEqual(
+      getHookItemsFor(hooks.pairs, undefined).map((pair) => pair.key),
+      ["a"]
+    );
+  });
+
+  test("toHookRecipes should convert pairs with fixed buns only", () => {
+    const recipes = toHookRecipes([
+      { key: "i", buns: ["t(", ")"], languages: ["typescript"], description: "Translation" },
+      { key: "f", buns: () => ["f(", ")"] },
+    ]);
+
+    assert.deepStrictEqual(recipes, [
+      {
+        buns: ["t(", ")"],
+        input: ["i"],
+        filetype: ["typescript"],
+        kind: ["add", "delete", "replace"],
+        regex: false,
+        description: "Translation",
+      },
+    ]);
+  });
+
+  test("resolveHookPair should compute the buns from the range", async () => {
+    const pair = await resolveHookPair({ key: "i", buns: ({ text }) => [`t("${text}", `, ")"] }, context);
+    assert.deepStrictEqual(pair, { type: "recipe", opening: 't("hello", ', closing: ")", regex: false });
+
+    assert.strictEqual(await resolveHookPair({ key: "i", buns: () => undefined }, context), undefined);
+    await assert.rejects(resolveHookPair({ key: "i", buns: () => ["", ")"] }, context), /must be two texts/);
+  });
+
+  test("applyTextEditTransforms should apply the transforms in order", async () => {
+    const edits = [{ range, newText: "(" }];
+    const transformed = await applyTextEditTransforms(
+      [(current) => current.map((edit) => ({ ...edit, newText: `${edit.newText}[` })), () => undefined],
+      edits,
+      { ...context, destinationPair: "(" }
+    );
+
+    assert.deepStrictEqual(transformed, [{ range, newText: "([" }]);
+  });
+});
@@ -0,0 +1,143 @@
+import * as assert from "assert";
+import { getLanguageSyntax } from "../../core/languages";
+import { maskNonCodeText, tokenize } from "../../core/lexer";
+
+suite("Core: Lexer Test Suite", () => {
+  test("tokenize should find line comments, block comments and strings", () => {
+    const text = 'a("x"); // c\n/* b */ y';
+    const tokens = tokenize(text, getLanguageSyntax("typescript"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => [token.kind, text.slice(token.start, token.end)]),
+      [
+        ["string", '"x"'],
+        ["comment", "// c"],
+        ["comment", "/* b */"],
+      ]
+    );
+  });
+
+  test("tokenize should skip escaped quotes and end single-line strings at the end of the line", () => {
+    const text = "'it\\'s'\n'open\nnext";
+    const tokens = tokenize(text, getLanguageSyntax("javascript"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => text.slice(token.start, token.end)),
+      ["'it\\'s'", "'open"]
+    );
+  });
+
+  test("tokenize should treat template literal interpolations as code", () => {
+    const text = "`a ${ f(`b`) } c` + 'd'";
+    const tokens = tokenize(text, getLanguageSyntax("typescript"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => text.slice(token.start, token.end)),
+      ["`a ${ f(`b`) } c`", "'d'"]
+    );
+  });
+
+  test("tokenize should not treat Rust lifetimes as character literals", () => {
+    const text = "fn f<'a>(x: &'a str) -> char { 'x' }";
+    const tokens = tokenize(text, getLanguageSyntax("rust"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => text.slice(token.start, token.end)),
+      ["'x'"]
+    );
+  });
+
+  test("tokenize should support nested block comments", () => {
+    const text = "/* a /* b */ c */ d";
+    const tokens = tokenize(text, getLanguageSyntax("rust"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => text.slice(token.start, token.end)),
+      ["/* a /* b */ c */"]
+    );
+  });
+
+  test("tokenize should find Python triple-quoted and prefixed strings", () => {
+    const text = 'x = f"a{b}" + """doc\n"quoted"\n""" + rb\'\\d\' + elif"no"';
+    const tokens = tokenize(text, getLanguageSyntax("python"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => [text.slice(token.start, token.end), text.slice(token.contentStart, token.contentEnd), token.key]),
+      [
+        ['f"a{b}"', "a{b}", '"'],
+        ['"""doc\n"quoted"\n"""', 'doc\n"quoted"\n', '"'],
+        ["rb'\\d'", "\\d", "'"],
+        ['"no"', "no", '"'],
+      ]
+    );
+    assert.strictEqual(tokens[0].prefixEnd, 5, "The prefix should end before the quote");
+  });
+
+  test("tokenize should find raw strings in Rust and C++", () => {
+    const rust = 'let s = r#"a "quoted" b"#;';
+    const cpp = 'auto s = R"x(a )" b)x";';
+
+    assert.deepStrictEqual(
+      tokenize(rust, getLanguageSyntax("rust")).map((token) => rust.slice(token.contentStart, token.contentEnd)),
+      ['a "quoted" b']
+    );
+    assert.deepStrictEqual(
+      tokenize(cpp, getLanguageSyntax("cpp")).map((token) => cpp.slice(token.contentStart, token.contentEnd)),
+      ['a )" b']
+    );
+  });
+
+  test("tokenize should find C# verbatim strings with doubled quotes", () => {
+    const text = 'var s = @"C:\\dir ""x"""; var t = "y";';
+    const tokens = tokenize(text, getLanguageSyntax("csharp"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => text.slice(token.start, token.end)),
+      ['@"C:\\dir ""x"""', '"y"']
+    );
+  });
+
+  test("tokenize should find nested Ruby percent literals", () => {
+    const text = "a = %w[x [y] z] + %q(it's) + %Q|#{b}| + %<c>";
+    const tokens = tokenize(text, getLanguageSyntax("ruby"));
+
+    assert.deepStrictEqual(
+      tokens.map((token) => [text.slice(token.contentStart, token.contentEnd), token.key]),
+      [
+        ["x [y] z", "["],
+        ["it's", "("],
+        ["#{b}", '"'],
+        ["c", "<"],
+      ]
+    );
+    assert.deepStrictEqual(
+      tokens.map((token) => text.slice(token.start, token.prefixEnd)),
+      ["%w", "%q", "%Q", "%"]
+    );
+  });
+
+  test("tokenize should end the prefixes of raw strings before the raw string delimiters", () => {
+    const rust = 'let s = br#"a"#;';
+    const cpp = 'auto s = u8R"x(a)x";';
+
+    assert.deepStrictEqual(
+      tokenize(rust, getLanguageSyntax("rust")).map((token) => rust.slice(token.start, token.prefixEnd)),
+      ["b"]
+    );
+    assert.deepStrictEqual(
+      tokenize(cpp, getLanguageSyntax("cpp")).map((token) => cpp.slice(token.start, token.prefixEnd)),
+      ["u8"]
+    );
+    assert.strictEqual(tokenize('r"a"', getLanguageSyntax("rust")).at(0)?.prefixEnd, undefined, "A raw string without a prefix has none");
+  });
+
+  test("maskNonCodeText should blank out strings and comments except the one containing the cursor", () => {
+    const text = 'f("(", "[x]") // )';
+    const tokens = tokenize(text, getLanguageSyntax("typescript"));
+
+    const masked = maskNonCodeText(text, tokens, 10);
+
+    assert.strictEqual(masked, 'f(" ", "[x]")     ');
+    assert.strictEqual(masked.length, text.length, "Masking should keep offsets");
+  });
+});
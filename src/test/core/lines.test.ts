@@ -0,0 +1,33 @@
+import * as assert from "assert";
+import { computeLineStarts, offsetToPosition, positionToOffset } from "../../core/lines";
+
+suite("Core: Lines Test Suite", () => {
+  test("computeLineStarts should find the start of every line", () => {
+    assert.deepStrictEqual(computeLineStarts("ab\n\ncd\n"), [0, 3, 4, 7]);
+    assert.deepStrictEqual(computeLineStarts(""), [0]);
+  });
+
+  test("positionToOffset and offsetToPosition should convert each other", () => {
+    const lineStarts = computeLineStarts("ab\n\ncd\n");
+
+    assert.strictEqual(positionToOffset(lineStarts, { line: 2, character: 1 }), 5);
+    assert.deepStrictEqual(offsetToPosition(lineStarts, 5, "\n"), { line: 2, character: 1 });
+    assert.deepStrictEqual(offsetToPosition(lineStarts, 3, "\n"), { line: 1, character: 0 });
+    assert.deepStrictEqual(offsetToPosition(lineStarts, 7, "\n"), { line: 3, character: 0 });
+  });
+
+  test("offsetToPosition should not be limited in the number of lines", () => {
+    const lineStarts = computeLineStarts("x\n".repeat(150000));
+
+    assert.deepStrictEqual(offsetToPosition(lineStarts, 2 * 120000 + 1, "\n"), { line: 120000, character: 1 });
+  });
+
+  test("offsetToPosition should clamp offsets inside CRLF to the end of the line", () => {
+    const lineStarts = computeLineStarts("ab\r\ncd");
+
+    assert.deepStrictEqual(lineStarts, [0, 4]);
+    assert.deepStrictEqual(offsetToPosition(lineStarts, 2, "\r\n"), { line: 0, character: 2 });
+    assert.deepStrictEqual(offsetToPosition(lineStarts, 3, "\r\n"), { line: 0, character: 2 });
+    assert.deepStrictEqual(offsetToPosition(lineStarts, 5, "\r\n"), { line: 1, character: 1 });
+  });
+});
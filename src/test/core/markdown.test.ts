@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import { findFencedCodeBlocks, parseMarkdownSpans } from "../../core/markdown";
+
+// Helper function to describe spans as [kind, text inside the delimiters]
+const describeSpans = (text: string): [string, string][] =>
+  parseMarkdownSpans(text).map((span) => [span.kind, text.slice(span.openingEnd, span.closingStart)]);
+
+suite("Core: Markdown Test Suite", () => {
+  test("parseMarkdownSpans should find emphasis, strikethrough and code spans", () => {
+    assert.deepStrictEqual(describeSpans("a **b** *c* __d__ _e_ ~~f~~ `g` ``h`i``"), [
+      ["**", "b"],
+      ["*", "c"],
+      ["__", "d"],
+      ["_", "e"],
+      ["~~", "f"],
+      ["`", "g"],
+      ["``", "h`i"],
+    ]);
+  });
+
+  test("parseMarkdownSpans should find nested emphasis", () => {
+    assert.deepStrictEqual(describeSpans("**bold *italic* text**"), [
+      ["**", "bold *italic* text"],
+      ["*", "italic"],
+    ]);
+  });
+
+  test("parseMarkdownSpans should find links with their URL and skip images", () => {
+    const text = "see [the *docs*](https://example.com/a_(b)) and ![alt](img.png)";
+    const spans = parseMarkdownSpans(text);
+
+    assert.deepStrictEqual(
+      spans.map((span) => [span.kind, span.url]),
+      [
+        ["link", "https://example.com/a_(b)"],
+        ["*", undefined],
+      ]
+    );
+    assert.strictEqual(text.slice(spans[0].closingStart, spans[0].closingEnd), "](https://example.com/a_(b))");
+  });
+
+  test("parseMarkdownSpans should ignore delimiters in code, escapes and words", () => {
+    assert.deepStrictEqual(describeSpans("`*a*` \\*b\\* snake_case_name 2 * 3 * 4"), [["`", "*a*"]]);
+  });
+
+  test("parseMarkdownSpans should not match delimiters across paragraphs or fenced code blocks", () => {
+    assert.deepStrictEqual(describeSpans("*a\n\nb*"), []);
+    assert.deepStrictEqual(describeSpans("*a\n```\nb*\n```\n*c*"), [["*", "c"]]);
+  });
+
+  test("findFencedCodeBlocks should find fences with their info string", () => {
+    const text = "text\n ```ts\ncode\n```\n~~~~\nmore\n";
+    const blocks = findFencedCodeBlocks(text);
+
+    assert.deepStrictEqual(
+      blocks.map((block) => [block.fence, block.info, text.slice(block.openingEnd, block.closingStart)]),
+      [
+        ["```", "ts", "\ncode\n"],
+        ["~~~~", "", "\nmore\n"],
+      ]
+    );
+    assert.strictEqual(blocks[0].openingStart, 6, "The opening should start after the indentation");
+  });
+});
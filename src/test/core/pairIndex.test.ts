@@ -0,0 +1,101 @@
+import * as assert from "assert";
+import { applyTextChanges, buildPairIndex, updatePairIndex } from "../../core/pairIndex";
+
+suite("Core: Pair Index Test Suite", () => {
+  test("buildPairIndex should link nested pairs to their parents", () => {
+    const index = buildPairIndex("f(a, (b), [c]) // (x)", "typescript");
+
+    assert.deepStrictEqual(index.pairs["("], [
+      { start: 1, end: 13, parent: -1 },
+      { start: 5, end: 7, parent: 0 },
+    ]);
+    assert.deepStrictEqual(index.pairs["["], [{ start: 10, end: 12, parent: -1 }]);
+  });
+
+  test("buildPairIndex should balance delimiters longer than one character without overlapping them", () => {
+    const index = buildPairIndex("{{ a {{{b}}} }}", "handlebars");
+
+    assert.deepStrictEqual(index.pairs["{{"], [
+      { start: 0, end: 13, parent: -1 },
+      { start: 5, end: 9, parent: 0 },
+    ]);
+  });
+
+  test("buildPairIndex should link nested tag elements to their parents", () => {
+    const index = buildPairIndex("<div><p>a<br></p><span>b</span></div>", "html");
+
+    assert.deepStrictEqual(
+      index.elements.map((element) => [element.name, element.parent]),
+      [
+        ["div", -1],
+        ["p", 0],
+        ["br", 1],
+        ["span", 0],
+      ]
+    );
+  });
+
+  test("updatePairIndex should shift offsets after typing plain text", () => {
+    const before = "<p>(a) 'b'</p>";
+    const after = "<p>(abc) 'b'</p>";
+    const index = buildPairIndex(before, "html");
+
+    const updated = updatePairIndex(index, after, [{ offset: 5, removedLength: 0, insertedText: "bc" }]);
+
+    assert.ok(updated, "Typing plain text should not require a rebuild");
+    assert.deepStrictEqual(updated.pairs, buildPairIndex(after, "html").pairs);
+    assert.deepStrictEqual(updated.elements, buildPairIndex(after, "html").elements);
+  });
+
+  test("updatePairIndex should keep exclusive ends before text typed right after a delimiter", () => {
+    const before = "/* a */ b";
+    const after = "/* a */x b";
+    const index = buildPairIndex(before, "typescript");
+
+    const updated = updatePairIndex(index, after, [{ offset: 7, removedLength: 0, insertedText: "x" }]);
+
+    assert.ok(updated, "Typing plain text should not require a rebuild");
+    assert.deepStrictEqual(updated.tokens, buildPairIndex(after, "typescript").tokens);
+  });
+
+  test("applyTextChanges should apply changes with offsets in the text before the changes", () => {
+    const changes = [
+      { offset: 1, removedLength: 0, insertedText: "x" },
+      { offset: 6, removedLength: 1, insertedText: "" },
+      { offset: 11, removedLength: 0, insertedText: "y" },
+    ];
+
+    assert.strictEqual(applyTextChanges("(a) [bc] {d}", changes), "(xa) [b] {dy}");
+  });
+
+  test("updatePairIndex should apply multiple changes", () => {
+    const before = "(a) [bc] {d}";
+    const after = "(xa) [b] {dy}";
+    const index = buildPairIndex(before, "typescript");
+
+    const updated = updatePairIndex(index, after, [
+      { offset: 1, removedLength: 0, insertedText: "x" },
+      { offset: 6, removedLength: 1, insertedText: "" },
+      { offset: 11, removedLength: 0, insertedText: "y" },
+    ]);
+
+    assert.ok(updated, "Typing plain text should not require a rebuild");
+    assert.deepStrictEqual(updated.pairs, buildPairIndex(after, "typescript").pairs);
+  });
+
+  test("updatePairIndex should require a rebuild when the change may alter the structure", () => {
+    const index = buildPairIndex("<div>'a' (b) */</div>", "typescript");
+
+    const changes = [
+      { offset: 9, removedLength: 0, insertedText: ")" }, // Delimiter
+      { offset: 6, removedLength: 0, insertedText: "x" }, // Next to a quote
+      { offset: 13, removedLength: 0, insertedText: "x" }, // Splits */
+      { offset: 3, removedLength: 0, insertedText: "x" }, // Renames a tag
+      { offset: 4, removedLength: 0, insertedText: "\n" }, // Line break
+    ];
+
+    for (const change of changes) {
+      assert.strictEqual(updatePairIndex(index, "", [change]), null, JSON.stringify(change));
+    }
+  });
+});
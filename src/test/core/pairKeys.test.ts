@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import {
+  ANY_PAIR_KEYS,
+  DEFAULT_PAIR_KEY_ALIASES,
+  findAutoSelectItem,
+  findKeyedItem,
+  getPairAliasKeys,
+  resolvePairKeyAliases,
+  type KeyedItem,
+} from "../../core/pairKeys";
+import { MARKDOWN_DELIMITERS } from "../../core/types";
+
+suite("Core: Pair Keys Test Suite", () => {
+  test("getPairAliasKeys should list closing delimiters and mnemonic letters", () => {
+    assert.deepStrictEqual(getPairAliasKeys(DEFAULT_PAIR_KEY_ALIASES, "("), [")", "b"]);
+    assert.deepStrictEqual(getPairAliasKeys(DEFAULT_PAIR_KEY_ALIASES, "{"), ["}", "B"]);
+    assert.deepStrictEqual(getPairAliasKeys(DEFAULT_PAIR_KEY_ALIASES, "'"), []);
+  });
+
+  test("resolvePairKeyAliases should add and override aliases", () => {
+    const aliases = resolvePairKeyAliases({ p: "(", b: "[", d: '"' });
+
+    assert.deepStrictEqual(getPairAliasKeys(aliases, "("), [")", "p"]);
+    assert.deepStrictEqual(getPairAliasKeys(aliases, "["), ["b", "]", "r"]);
+    assert.deepStrictEqual(getPairAliasKeys(aliases, '"'), ["d"]);
+  });
+
+  test("resolvePairKeyAliases should remove aliases mapped to null and ignore unknown pairs", () => {
+    const aliases = resolvePairKeyAliases({ a: null, x: "|", "": "(" });
+
+    assert.strictEqual(aliases.a, undefined, "The default alias should be removed");
+    assert.strictEqual(aliases.x, undefined, "Unknown pairs should be ignored");
+    assert.strictEqual(aliases[""], undefined, "Empty keys should be ignored");
+    assert.strictEqual(aliases[">"], "<", "Other defaults should be kept");
+  });
+
+  test("findKeyedItem should pick parentheses and braces with b and B in the source pair list", () => {
+    const items: KeyedItem[] = [
+      { label: ANY_PAIR_KEYS.auto },
+      { label: ANY_PAIR_KEYS.quote },
+      { label: ANY_PAIR_KEYS.bracket },
+      { label: "(", aliases: getPairAliasKeys(DEFAULT_PAIR_KEY_ALIASES, "(") },
+      { label: "{", aliases: getPairAliasKeys(DEFAULT_PAIR_KEY_ALIASES, "{") },
+    ];
+
+    assert.strictEqual(findKeyedItem(items, "b")?.label, "(");
+    assert.strictEqual(findKeyedItem(items, "B")?.label, "{");
+    assert.strictEqual(findKeyedItem(items, ANY_PAIR_KEYS.bracket), items[2]);
+    assert.strictEqual(findKeyedItem(items, "Q"), undefined, "Labels should be matched case-sensitively");
+  });
+
+  test("findKeyedItem should prefer an alias over a label", () => {
+    const items: KeyedItem[] = [{ label: "q" }, { label: "(", aliases: ["q"] }];
+
+    assert.strictEqual(findKeyedItem(items, "q")?.label, "(");
+  });
+
+  test("findAutoSelectItem should wait for the next key when a key begins a longer label", () => {
+    const items: KeyedItem[] = [{ label: "_" }, { label: "__" }, { label: "(", aliases: ["b"] }];
+
+    assert.strictEqual(findAutoSelectItem(items, "_"), undefined);
+    assert.strictEqual(findAutoSelectItem(items, "__")?.label, "__");
+    assert.strictEqual(findAutoSelectItem(items, "b")?.label, "(");
+  });
+
+  test("findKeyedItem should pick italic emphasis with * in the source pair list of a Markdown document", () => {
+    const items: KeyedItem[] = [
+      { label: ANY_PAIR_KEYS.auto },
+      { label: ANY_PAIR_KEYS.quote },
+      { label: ANY_PAIR_KEYS.bracket },
+      ...MARKDOWN_DELIMITERS.map((delimiter) => ({ label: delimiter })),
+    ];
+
+    assert.strictEqual(findKeyedItem(items, "*")?.label, "*");
+    assert.strictEqual(findAutoSelectItem(items, "*"), undefined, "* should wait for the second * of bold emphasis");
+    assert.strictEqual(findAutoSelectItem(items, ANY_PAIR_KEYS.auto), items[0]);
+    assert.ok(
+      Object.values(ANY_PAIR_KEYS).every((key) => !items.slice(3).some((item) => item.label.startsWith(key))),
+      "Keys of the nearest pairs should not begin a Markdown delimiter"
+    );
+  });
+});
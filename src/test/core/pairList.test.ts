@@ -0,0 +1,29 @@
+import * as assert from "assert";
+import { DEFAULT_PAIR_LIST, resolvePairList } from "../../core/pairList";
+import { PAIR_KEYS } from "../../core/pairs";
+
+suite("Core: Pair List Test Suite", () => {
+  test("resolvePairList should offer every pair and tags by default", () => {
+    assert.deepStrictEqual(DEFAULT_PAIR_LIST, [...PAIR_KEYS, "t"]);
+    assert.deepStrictEqual(
+      resolvePairList(undefined).map((entry) => entry.key),
+      DEFAULT_PAIR_LIST
+    );
+  });
+
+  test("resolvePairList should keep the order, labels and descriptions of the entries", () => {
+    assert.deepStrictEqual(resolvePairList(["`", { key: "(", label: "p", description: "Parens" }, "t"]), [
+      { key: "`" },
+      { key: "(", label: "p", description: "Parens" },
+      { key: "t" },
+    ]);
+  });
+
+  test("resolvePairList should ignore unknown, invalid and repeated entries", () => {
+    assert.deepStrictEqual(resolvePairList(["x", { label: "p" }, 1, null, "(", { key: "(", label: "p" }, { key: "[", label: "" }]), [
+      { key: "(" },
+      { key: "[" },
+    ]);
+    assert.deepStrictEqual(resolvePairList([]), []);
+  });
+});
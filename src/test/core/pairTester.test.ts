@@ -0,0 +1,144 @@
+import * as assert from "assert";
+import { runPairTest } from "../../core/pairTester";
+
+suite("Core: Pair Tester Test Suite", () => {
+  test("should delete the pair around the cursor marker", () => {
+    assert.deepStrictEqual(runPairTest({ sample: "foo(b|ar)", operation: "delete", sourcePair: "(" }), {
+      ok: true,
+      text: "foobar",
+      foundText: "bar",
+    });
+  });
+
+  test("should replace the pair at the nesting depth of the count", () => {
+    const result = runPairTest({
+      sample: "[(|a)]",
+      operation: "replace",
+      sourcePair: { type: "any", kind: "auto" },
+      destinationPair: "{",
+      count: 2,
+    });
+    assert.deepStrictEqual(result, { ok: true, text: "{(a)}", foundText: "(a)" });
+  });
+
+  test("should add a pair around the range between two markers, or the line", () => {
+    assert.deepStrictEqual(runPairTest({ sample: "foo |bar| baz", operation: "add", destinationPair: '"' }), {
+      ok: true,
+      text: 'foo "bar" baz',
+    });
+    assert.deepStrictEqual(runPairTest({ sample: "  foo| bar", operation: "add", destinationPair: "'" }), {
+      ok: true,
+      text: "  'foo bar'",
+    });
+  });
+
+  test("should put a pair added around whole lines on its own lines", () => {
+    assert.deepStrictEqual(
+      runPairTest({
+        sample: "  foo| bar",
+        operation: "add",
+        destinationPair: { type: "recipe", opening: "{% ", closing: " %}", regex: false },
+      }),
+      { ok: true, text: "  {%\n\t  foo bar\n  %}" }
+    );
+    assert.deepStrictEqual(
+      runPairTest({
+        sample: "  {%\n\t  foo| bar\n  %}",
+        operation: "delete",
+        sourcePair: { type: "recipe", opening: "{% ", closing: " %}", regex: false },
+      }),
+      { ok: true, text: "  foo bar", foundText: "\n\t  foo bar\n" },
+      "The recipe should be found and deleted again"
+    );
+    assert.deepStrictEqual(runPairTest({ sample: "|a();\nb();\n|c();", operation: "add", destinationPair: "{" }), {
+      ok: true,
+      text: "{\n\ta();\n\tb();\n}\nc();",
+    });
+  });
+
+  test("should add a code block around the whole lines of the range like the add command", () => {
+    assert.deepStrictEqual(
+      runPairTest({
+        sample: "a|b|c\nd",
+        operation: "add",
+        destinationPair: { type: "fence", fence: "```", language: "ts" },
+        languageId: "markdown",
+      }),
+      { ok: true, text: "```ts\nabc\n```\nd" }
+    );
+  });
+
+  test("should leave the whitespace at the ends of the range outside the pair only if told to", () => {
+    assert.deepStrictEqual(runPairTest({ sample: "foo| bar |baz", operation: "add", destinationPair: "(", trimRange: true }), {
+      ok: true,
+      text: "foo (bar) baz",
+    });
+    assert.deepStrictEqual(runPairTest({ sample: "foo| bar |baz", operation: "add", destinationPair: "(" }), {
+      ok: true,
+      text: "foo( bar )baz",
+    });
+  });
+
+  test("should find Ruby percent literals with the key of their bracket and keep the prefix for brackets", () => {
+    const replace = (sample: string, sourcePair: "[" | "(", destinationPair: "(" | "'") =>
+      runPairTest({ sample, operation: "replace", sourcePair, destinationPair, languageId: "ruby" });
+
+    assert.deepStrictEqual(replace("x = %w[a |b]", "[", "("), { ok: true, text: "x = %w(a b)", foundText: "a b" });
+    assert.deepStrictEqual(replace("x = %q(it's|)", "(", "'"), { ok: true, text: "x = 'it's'", foundText: "it's" });
+    assert.strictEqual(
+      runPairTest({ sample: "x = %w[a |b]", operation: "delete", sourcePair: "'", languageId: "ruby" }).ok,
+      false,
+      "A percent literal delimited by brackets should not be found as quotes"
+    );
+  });
+
+  test("should keep the prefix of a string replaced with quotes in every language", () => {
+    const replace = (sample: string, languageId: string, destinationPair: '"' | "'") =>
+      runPairTest({ sample, operation: "replace", sourcePair: '"', destinationPair, languageId });
+
+    assert.deepStrictEqual(replace('f"a|"', "python", "'"), { ok: true, text: "f'a'", foundText: "a" });
+    assert.deepStrictEqual(replace('br#"a|"#', "rust", '"'), { ok: true, text: 'b"a"', foundText: "a" });
+    assert.deepStrictEqual(replace('u8R"x(a|)x"', "cpp", '"'), { ok: true, text: 'u8"a"', foundText: "a" });
+    assert.deepStrictEqual(replace('r#"a|"#', "rust", '"'), { ok: true, text: '"a"', foundText: "a" });
+  });
+
+  test("should remove the lines of delimiters on their own lines unless told not to", () => {
+    const sample = "  {\n    a(|);\n  }\n";
+
+    assert.deepStrictEqual(runPairTest({ sample, operation: "delete", sourcePair: "{" }), {
+      ok: true,
+      text: "  a();\n",
+      foundText: "\n    a();\n  ",
+    });
+    assert.deepStrictEqual(runPairTest({ sample, operation: "delete", sourcePair: "{", removeDelimiterLines: false }), {
+      ok: true,
+      text: "  \n    a();\n  \n",
+      foundText: "\n    a();\n  ",
+    });
+  });
+
+  test("should remove the line of a delimiter on its own line when the other delimiter shares its line", () => {
+    assert.deepStrictEqual(runPairTest({ sample: "x = [\n  {\n    a: |1,\n  },\n];", operation: "delete", sourcePair: "{" }), {
+      ok: true,
+      text: "x = [\n  a: 1,\n  ,\n];",
+      foundText: "\n    a: 1,\n  ",
+    });
+    assert.deepStrictEqual(runPairTest({ sample: "if (x) {\n    a(|);\n}", operation: "delete", sourcePair: "{" }), {
+      ok: true,
+      text: "if (x) \na();",
+      foundText: "\n    a();\n",
+    });
+  });
+
+  test("should report what is missing", () => {
+    assert.deepStrictEqual(runPairTest({ sample: "foo(bar)", operation: "delete", sourcePair: "(" }), {
+      ok: false,
+      message: "Mark the cursor with |, or the range with two |",
+    });
+    assert.deepStrictEqual(runPairTest({ sample: "foo|bar", operation: "delete", sourcePair: "(" }), {
+      ok: false,
+      message: "No surrounding pair found at the cursor",
+    });
+    assert.deepStrictEqual(runPairTest({ sample: "foo|bar", operation: "add" }), { ok: false, message: "Choose the pair to add" });
+  });
+});
@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import { getAvailablePairKeys, getPairDefinition, isPairKey } from "../../core/pairs";
+
+suite("Core: Pairs Test Suite", () => {
+  test("getAvailablePairKeys should offer the pairs of every language and the pairs of the language", () => {
+    assert.deepStrictEqual(getAvailablePairKeys("typescript"), ["'", '"', "`", "(", "{", "[", "<", "/*"]);
+    assert.deepStrictEqual(getAvailablePairKeys(undefined), ["'", '"', "`", "(", "{", "[", "<"]);
+  });
+
+  test("getAvailablePairKeys should leave out pairs excluded in the language", () => {
+    const keys = getAvailablePairKeys("markdown");
+
+    assert.ok(!keys.includes("`"), "Back quotes should be left to code spans");
+    assert.ok(keys.includes("<!--"), "HTML comments should be offered");
+  });
+
+  test("getPairDefinition should give delimiters longer than one character", () => {
+    assert.deepStrictEqual(getPairDefinition("<%="), {
+      opening: "<%=",
+      closing: "%>",
+      kind: "block",
+      description: "Embedded Ruby output",
+      languages: ["erb", "ejs"],
+    });
+  });
+
+  test("isPairKey should only accept keys of the registry", () => {
+    assert.strictEqual(isPairKey("{{"), true);
+    assert.strictEqual(isPairKey("}}"), false);
+    assert.strictEqual(isPairKey("toString"), false);
+  });
+});
@@ -1,6 +1,18 @@
 import * as assert from "assert";
-import { DetectedPair, findAllSurroundingPairs, findSurroundingPair, selectRange } from "../../core/rangeSelector";
-import type { EditorState, Position, Range } from "../../core/types";
+import { computeLineStarts } from "../../core/lines";
+import { buildPairIndex } from "../../core/pairIndex";
+import {
+  coversWholeLines,
+  detectAllSurroundingPairs,
+  DetectedPair,
+  detectSurroundingPair,
+  expandToLines,
+  findAllSurroundingPairs,
+  findSurroundingPair,
+  findSurroundingPairs,
+  selectRange,
+} from "../../core/rangeSelector";
+import { isTagPairType, type EditorState, type Position, type Range } from "../../core/types";
 
 // Helper function to create a simple Range
 const createRange = (startLine: number, startChar: number, endLine: number, endChar: number): Range => ({
@@ -21,15 +33,21 @@ const createMockEditorState = (
   selection: Range,
   lines?: string[] // Optional pre-split lines
 ): EditorState => {
-  const docLines = lines ?? documentText.split("\n");
+  const eol = documentText.includes("\r\n") ? "\r\n" : "\n";
+  const docLines = lines ?? documentText.split(eol);
   return {
     documentText,
     cursorPosition,
     selection,
     getLineText: (lineNumber: number) => docLines[lineNumber] ?? "",
+    lineStarts: computeLineStarts(documentText),
+    eol,
   };
 };
 
+// Helper function to convert line endings to CRLF
+const toCrlf = (text: string): string => text.replace(/\n/g, "\r\n");
+
 suite("Core: Range Selector Test Suite", () => {
   test('selectRange with type "_" should select the line excluding leading whitespace', () => {
     const doc = "line1\n    line2 with cursor\nline3";
@@ -311,12 +329,12 @@ suite("Core: Range Selector Test Suite", () => {
     assert.strictEqual(singleQuotePair.text, "world", "Text should be 'world'");
 
     // Check for p tag
-    const pTagPair = results.find((pair: DetectedPair) => typeof pair.pairType === "object" && pair.pairType.name === "p");
+    const pTagPair = results.find((pair: DetectedPair) => isTagPairType(pair.pairType) && pair.pairType.name === "p");
     assert.ok(pTagPair, "Should detect p tag pair");
     assert.strictEqual(pTagPair.text, "Hello 'world'", "Text should be the p tag content");
 
     // Check for div tag
-    const divTagPair = results.find((pair: DetectedPair) => typeof pair.pairType === "object" && pair.pairType.name === "div");
+    const divTagPair = results.find((pair: DetectedPair) => isTagPairType(pair.pairType) && pair.pairType.name === "div");
     assert.ok(divTagPair, "Should detect div tag pair");
     assert.strictEqual(divTagPair.text, "<p>Hello 'world'</p>", "Text should be the div tag content");
   });
@@ -340,20 +358,24 @@ suite("Core: Range Selector Test Suite", () => {
 
     const results: DetectedPair[] = findAllSurroundingPairs(editorState);
 
-    // Should detect p tag, inner div tag, and brackets
-    assert.strictEqual(results.length, 3, "Should detect 3 pairs: p tag, inner div tag, and brackets");
+    // Should detect p tag, inner div tag, outer div tag, and brackets
+    assert.strictEqual(results.length, 4, "Should detect 4 pairs: p tag, inner div tag, outer div tag, and brackets");
 
     // Check for p tag
-    const pTagPair = results.find((pair: DetectedPair) => typeof pair.pairType === "object" && pair.pairType.name === "p");
+    const pTagPair = results.find((pair: DetectedPair) => isTagPairType(pair.pairType) && pair.pairType.name === "p");
     assert.ok(pTagPair, "Should detect p tag pair");
 
     // Check for inner div tag
     const innerDivTagPair = results.find(
-      (pair: DetectedPair) => typeof pair.pairType === "object" && pair.pairType.name === "div" && pair.text === "<p>Hello world</p>"
+      (pair: DetectedPair) => isTagPairType(pair.pairType) && pair.pairType.name === "div" && pair.text === "<p>Hello world</p>"
     );
     assert.ok(innerDivTagPair, "Should detect inner div tag pair");
 
-    // Outer div tag is not detected with the improved algorithm
+    // Check for outer div tag
+    const outerDivTagPair = results.find(
+      (pair: DetectedPair) => isTagPairType(pair.pairType) && pair.pairType.name === "div" && pair.text === "<div><p>Hello world</p></div>"
+    );
+    assert.ok(outerDivTagPair, "Should detect outer div tag pair");
   });
 
   test("findSurroundingPair should correctly handle nested brackets in template literals", () => {
@@ -421,7 +443,7 @@ suite("Core: Range Selector Test Suite", () => {
 
       // Should detect innermost div tag
       const innerDivTagPair = results.find(
-        (pair: DetectedPair) => typeof pair.pairType === "object" && pair.pairType.name === "div" && pair.text === "world"
+        (pair: DetectedPair) => isTagPairType(pair.pairType) && pair.pairType.name === "div" && pair.text === "world"
       );
       assert.ok(innerDivTagPair, "Should detect innermost div tag pair");
 
@@ -459,4 +481,783 @@ suite("Core: Range Selector Test Suite", () => {
       assert.strictEqual(result.text, "fuga", "Text should be 'fuga'");
     });
   });
+
+  // Tests for quote pairing
+  test("findSurroundingPair should skip backslash-escaped quotes", () => {
+    const doc = 'const text = "say \\"hi\\" now"; const other = "value";';
+    const cursor = createPosition(0, 16); // Cursor at "say"
+    const selection = createRange(0, 16, 0, 16);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, '"');
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(0, 14, 0, 28);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should skip the escaped quotes");
+    assert.strictEqual(result.text, 'say \\"hi\\" now', "Text should include the escaped quotes");
+  });
+
+  test("findSurroundingPair should not let an apostrophe in a comment shift later quote pairs", () => {
+    const doc = "// it's a comment\nconst text = 'hello';";
+    const cursor = createPosition(1, 15); // Cursor inside 'hello'
+    const selection = createRange(1, 15, 1, 15);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, "'");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(1, 14, 1, 19);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should be between the quotes on the second line");
+    assert.strictEqual(result.text, "hello", "Text should be 'hello'");
+  });
+
+  test("findSurroundingPair should not pair double quotes across lines", () => {
+    const doc = 'const a = "unterminated;\nconst b = "value";';
+    const cursor = createPosition(1, 12); // Cursor inside "value"
+    const selection = createRange(1, 12, 1, 12);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, '"');
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(1, 11, 1, 16);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should be between the quotes on the second line");
+    assert.strictEqual(result.text, "value", "Text should be 'value'");
+  });
+
+  test("findSurroundingPair should pair back quotes across lines", () => {
+    const doc = "const text = `first\nsecond`;";
+    const cursor = createPosition(1, 2); // Cursor at "second"
+    const selection = createRange(1, 2, 1, 2);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, "`");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(0, 14, 1, 6);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should span both lines");
+    assert.strictEqual(result.text, "first\nsecond", "Text should be the multi-line template content");
+  });
+
+  // Tests for string- and comment-aware bracket detection
+  test("findSurroundingPair should ignore brackets inside string literals", () => {
+    const doc = 'const face = call(":(", value);';
+    const cursor = createPosition(0, 25); // Cursor at "value"
+    const selection = createRange(0, 25, 0, 25);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "(");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(0, 18, 0, 29);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should be between the parentheses of the call");
+    assert.strictEqual(result.text, '":(", value', "Text should be the arguments of the call");
+  });
+
+  test("findSurroundingPair should ignore brackets inside comments", () => {
+    const doc = "call(first, // TODO)\n  second);";
+    const cursor = createPosition(1, 3); // Cursor at "second"
+    const selection = createRange(1, 3, 1, 3);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "(");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(0, 5, 1, 8);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should end at the parenthesis outside the comment");
+  });
+
+  test("findSurroundingPair should find brackets inside the string containing the cursor", () => {
+    const doc = 'log("value (unit)");';
+    const cursor = createPosition(0, 13); // Cursor at "unit"
+    const selection = createRange(0, 12, 0, 12);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "(");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(0, 12, 0, 16);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should be between the parentheses inside the string");
+    assert.strictEqual(result.text, "unit", "Text should be 'unit'");
+  });
+
+  test("findSurroundingPair should ignore quotes inside comments", () => {
+    const doc = "# don't\nname = 'value'";
+    const cursor = createPosition(1, 10); // Cursor inside 'value'
+    const selection = createRange(1, 10, 1, 10);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "python" };
+
+    const result = findSurroundingPair(editorState, "'");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(1, 8, 1, 13);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should be between the quotes after the comment");
+  });
+
+  test("findSurroundingPair should find prefixed and triple-quoted strings", () => {
+    const doc = 'a = f"x {y}"\nb = """\ndoc "z"\n"""';
+    const editorState = (line: number, character: number) => ({
+      ...createMockEditorState(doc, createPosition(line, character), createRange(line, character, line, character)),
+      languageId: "python",
+    });
+
+    const prefixed = findSurroundingPair(editorState(0, 8), '"');
+    const triple = findSurroundingPair(editorState(2, 1), '"');
+
+    assert.ok(prefixed, "Prefixed string should be found");
+    assert.strictEqual(prefixed.text, "x {y}");
+    assert.deepStrictEqual(prefixed.startRange, createRange(0, 4, 0, 6), "The opening should include the prefix");
+    assert.deepStrictEqual(prefixed.prefixRange, createRange(0, 4, 0, 5));
+    assert.ok(triple, "Triple-quoted string should be found");
+    assert.strictEqual(triple.text, '\ndoc "z"\n');
+    assert.deepStrictEqual(triple.startRange, createRange(1, 4, 1, 7));
+    assert.strictEqual(triple.prefixRange, undefined);
+  });
+
+  test("findSurroundingPair should find Rust raw strings", () => {
+    const doc = 'let s = r#"say "hi""#;';
+    const cursor = createPosition(0, 12);
+    const selection = createRange(0, 12, 0, 12);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "rust" };
+
+    const result = findSurroundingPair(editorState, '"');
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, 'say "hi"');
+    assert.deepStrictEqual(result.endRange, createRange(0, 19, 0, 21));
+  });
+
+  test("findSurroundingPair should find the block comment containing the cursor", () => {
+    const doc = "f(/* a (b) */);";
+    const cursor = createPosition(0, 8); // Cursor inside (b)
+    const selection = createRange(0, 8, 0, 8);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "/*");
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, " a (b) ");
+    assert.deepStrictEqual(result.startRange, createRange(0, 2, 0, 4));
+    assert.deepStrictEqual(result.endRange, createRange(0, 11, 0, 13));
+  });
+
+  test("findAllSurroundingPairs should find pairs of the language with longer delimiters", () => {
+    const doc = "<p>{{ name }}</p>";
+    const cursor = createPosition(0, 7);
+    const selection = createRange(0, 7, 0, 7);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "handlebars" };
+
+    const result = findAllSurroundingPairs(editorState);
+
+    const templatePair = result.find((pair) => pair.pairType === "{{");
+    assert.ok(templatePair, "Template expression should be found");
+    assert.strictEqual(templatePair.text, " name ");
+  });
+
+  test("findSurroundingPair should find the pairs of a recipe", () => {
+    const doc = "{% if a %}{% b %}{% endif %}";
+    const cursor = createPosition(0, 13); // Cursor on b
+    const selection = createRange(0, 13, 0, 13);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, { type: "recipe", opening: "{% ", closing: " %}", regex: false });
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "b");
+    assert.deepStrictEqual(result.startRange, createRange(0, 10, 0, 13));
+  });
+
+  test("findSurroundingPairs should find nested pairs of a regex recipe from the innermost", () => {
+    const doc = "foo(bar(x), y)";
+    const cursor = createPosition(0, 8); // Cursor on x
+    const selection = createRange(0, 8, 0, 8);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPairs(editorState, { type: "recipe", opening: "\\w+\\(", closing: "\\)", regex: true });
+
+    assert.deepStrictEqual(
+      result.map((pair) => [pair.text, pair.startRange]),
+      [
+        ["x", createRange(0, 4, 0, 8)],
+        ["bar(x), y", createRange(0, 0, 0, 4)],
+      ]
+    );
+  });
+
+  // Tests for spec-aware tag matching
+  test('selectRange with type "it" should handle custom elements and ">" in attribute values', () => {
+    const doc = '<my-button data-rule="a > b">Click</my-button>';
+    const cursor = createPosition(0, 31); // Cursor at "Click"
+    const selection = createRange(0, 31, 0, 31);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = selectRange("it", editorState);
+
+    assert.ok(result, "Result should not be null");
+    assert.deepStrictEqual(result.range, createRange(0, 29, 0, 34), "Range should start after the whole opening tag");
+    assert.strictEqual(result.text, "Click", "Text should be the inner content of the custom element");
+  });
+
+  test('selectRange with type "at" should ignore void elements and comments', () => {
+    const doc = "<div>a<br><!-- <span> -->b</div>";
+    const cursor = createPosition(0, 26); // Cursor at "b"
+    const selection = createRange(0, 26, 0, 26);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = selectRange("at", editorState);
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, doc, "Text should be the entire div element");
+  });
+
+  test('selectRange with type "st" should select void elements without a slash', () => {
+    const doc = '<p>Line<br class="x">Next</p>';
+    const cursor = createPosition(0, 9); // Cursor inside the br tag
+    const selection = createRange(0, 9, 0, 9);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = selectRange("st", editorState);
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, '<br class="x">', "Text should be the void element");
+  });
+
+  test("findSurroundingPair should match tag names case-insensitively in HTML", () => {
+    const doc = "<DIV>Hello</div>";
+    const cursor = createPosition(0, 7);
+    const selection = createRange(0, 7, 0, 7);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "html" };
+
+    const result = findSurroundingPair(editorState, { type: "tag", name: "div" });
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "Hello", "Text should be the content of the div element");
+  });
+
+  test("findSurroundingPair should match namespaced tag names case-sensitively in XML", () => {
+    const doc = "<xs:element><XS:ELEMENT>a</XS:ELEMENT>b</xs:element>";
+    const cursor = createPosition(0, 24); // Cursor at "a"
+    const selection = createRange(0, 24, 0, 24);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "xml" };
+
+    const result = findSurroundingPair(editorState, { type: "tag", name: "xs:element" });
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "<XS:ELEMENT>a</XS:ELEMENT>b", "Text should be the content of the lower-case element");
+  });
+
+  // Tests for JSX tags
+  test("findSurroundingPair should detect a JSX fragment", () => {
+    const doc = "return (<><Item /></>);";
+    const cursor = createPosition(0, 12); // Cursor inside the fragment
+    const selection = createRange(0, 12, 0, 12);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescriptreact" };
+
+    const result = findSurroundingPair(editorState, { type: "tag", name: "" });
+
+    assert.ok(result, "Result should not be null");
+    assert.deepStrictEqual(result.startRange, createRange(0, 8, 0, 10), "Start range should be the opening fragment");
+    assert.deepStrictEqual(result.endRange, createRange(0, 18, 0, 21), "End range should be the closing fragment");
+  });
+
+  test('selectRange with type "it" should handle JSX member components with arrow functions in attributes', () => {
+    const doc = "<Foo.Bar onClick={() => go()}>Label</Foo.Bar>";
+    const cursor = createPosition(0, 32); // Cursor at "Label"
+    const selection = createRange(0, 32, 0, 32);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescriptreact" };
+
+    const result = selectRange("it", editorState);
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "Label", "Text should be the children of the component");
+  });
+
+  // Tests for angle bracket disambiguation
+  test("findSurroundingPair should not pair a comparison with an arrow function", () => {
+    const doc = "if (a < b) { list.map((x) => x); }";
+    const cursor = createPosition(0, 24); // Cursor after "(x)"
+    const selection = createRange(0, 24, 0, 24);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "<");
+
+    assert.strictEqual(result, null, "Comparison and arrow operators should not form a pair");
+  });
+
+  test("findSurroundingPair should find angle brackets of generic arguments", () => {
+    const doc = "const m: Map<string, Array<number>> = new Map(), f = (a: number) => a >> 1;";
+    const cursor = createPosition(0, 15); // Cursor at "string"
+    const selection = createRange(0, 15, 0, 15);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "<");
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "string, Array<number>", "Text should be the type arguments of Map");
+  });
+
+  test("findSurroundingPair should treat arrows inside type arguments as operators", () => {
+    const doc = "type Handler = Callback<(event: Event) => void>;";
+    const cursor = createPosition(0, 26); // Cursor at "event"
+    const selection = createRange(0, 26, 0, 26);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "<");
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "(event: Event) => void", "Text should include the whole function type");
+  });
+
+  test("findSurroundingPair should find Rust turbofish angle brackets but not return type arrows", () => {
+    const doc = "fn f() -> u8 { it.collect::<Vec<u8>>() }";
+    const cursor = createPosition(0, 30); // Cursor at "Vec"
+    const selection = createRange(0, 30, 0, 30);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "rust" };
+
+    const result = findSurroundingPair(editorState, "<");
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "Vec<u8>", "Text should be the turbofish type argument");
+  });
+
+  // Tests for windowed detection
+  test("detectSurroundingPair should widen the window until a pair is found", async () => {
+    const doc = `(${"x".repeat(100)}\n  inner\n${"y".repeat(100)})`;
+    const cursor = createPosition(1, 4);
+    const selection = createRange(1, 4, 1, 4);
+    const editorState = createMockEditorState(doc, cursor, selection);
+    const scannedWindows: number[] = [];
+
+    const result = await detectSurroundingPair(editorState, "(", {
+      windowSize: 10,
+      getPairIndex: (window) => {
+        scannedWindows.push(window.end - window.start);
+        return buildPairIndex(doc, undefined, window);
+      },
+    });
+
+    assert.ok(result, "Result should not be null");
+    assert.deepStrictEqual(result.startRange.start, createPosition(0, 0), "Opening parenthesis should be found outside the first window");
+    assert.ok(scannedWindows.length > 1, "The window should have been widened");
+    assert.ok(scannedWindows[0] < doc.length, "The first window should not cover the whole document");
+  });
+
+  test("detectSurroundingPair should not start a window inside a comment", async () => {
+    const doc = "foo(bar, /*\n ) ( \n*/ baz)";
+    const cursor = createPosition(2, 5);
+    const editorState = { ...createMockEditorState(doc, cursor, createRange(2, 5, 2, 5)), languageId: "typescript" };
+
+    for (const windowSize of [5, 10, 20]) {
+      const result = await detectSurroundingPair(editorState, "(", { windowSize });
+
+      assert.ok(result, `Result should not be null with a window of ${windowSize}`);
+      assert.deepStrictEqual(
+        result.startRange.start,
+        createPosition(0, 3),
+        `Real parentheses should be found with a window of ${windowSize}`
+      );
+    }
+  });
+
+  test("detectSurroundingPair should find a recipe in the window of a wider cached index", async () => {
+    const doc = `{%\na /* {% */\nfoo\n" %}" %}\n${"x".repeat(100)}`;
+    const cursor = createPosition(2, 1);
+    const editorState = { ...createMockEditorState(doc, cursor, createRange(2, 1, 2, 1)), languageId: "typescript" };
+    const wholeIndex = buildPairIndex(doc, "typescript");
+
+    for (const windowSize of [2, 5, 10]) {
+      const result = await detectSurroundingPair(
+        editorState,
+        { type: "recipe", opening: "{%", closing: "%}", regex: false },
+        { windowSize, getPairIndex: () => wholeIndex }
+      );
+
+      assert.ok(result, `Result should not be null with a window of ${windowSize}`);
+      assert.deepStrictEqual(
+        result.startRange.start,
+        createPosition(0, 0),
+        `Opening should skip the comment with a window of ${windowSize}`
+      );
+      assert.deepStrictEqual(result.endRange.start, createPosition(3, 6), `Closing should skip the string with a window of ${windowSize}`);
+    }
+  });
+
+  test("detectAllSurroundingPairs should stop when cancelled", async () => {
+    const doc = "(a)";
+    const cursor = createPosition(0, 1);
+    const selection = createRange(0, 1, 0, 1);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = await detectAllSurroundingPairs(editorState, { windowSize: 0, token: { isCancellationRequested: true } });
+
+    assert.strictEqual(result, null, "Cancelled detection should return null");
+  });
+
+  // Tests for counts
+  test("findSurroundingPairs should list surrounding pairs from the innermost to the outermost", () => {
+    const doc = "f(a, g(b, h(c)))";
+    const cursor = createPosition(0, 12); // Cursor on "c"
+    const selection = createRange(0, 12, 0, 12);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const results = findSurroundingPairs(editorState, "(");
+
+    assert.deepStrictEqual(
+      results.map((result) => result.text),
+      ["c", "b, h(c)", "a, g(b, h(c))"],
+      "Pairs should be ordered by nesting depth"
+    );
+  });
+
+  test("findSurroundingPair should find the pair at the nesting depth of the count", () => {
+    const doc = "f(a, g(b, h(c)))";
+    const cursor = createPosition(0, 12);
+    const selection = createRange(0, 12, 0, 12);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    assert.strictEqual(findSurroundingPair(editorState, "(", 2)?.text, "b, h(c)", "Count 2 should find the second pair");
+    assert.strictEqual(findSurroundingPair(editorState, "(", 4), null, "A count deeper than the nesting should find nothing");
+  });
+
+  test("findSurroundingPair should find an outer tag with the same name", () => {
+    const doc = "<div><p><div>text</div></p></div>";
+    const cursor = createPosition(0, 15); // Cursor on "text"
+    const selection = createRange(0, 15, 0, 15);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, { type: "tag", name: "div" }, 2);
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "<p><div>text</div></p>", "Count 2 should skip the inner div");
+  });
+
+  test("findSurroundingPairs should list pairs in the string at the cursor before the pairs around it", () => {
+    const doc = 'f("(a (b))")';
+    const cursor = createPosition(0, 7); // Cursor on "b"
+    const selection = createRange(0, 7, 0, 7);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "javascript" };
+
+    const results = findSurroundingPairs(editorState, "(");
+
+    assert.deepStrictEqual(
+      results.map((result) => result.text),
+      ["b", "a (b)", '"(a (b))"'],
+      "Pairs in the string should come first"
+    );
+  });
+
+  test("detectSurroundingPair should widen the window until the pair at the count is found", async () => {
+    const doc = `(${"x".repeat(100)}\n  (inner)\n${"y".repeat(100)})`;
+    const cursor = createPosition(1, 4);
+    const selection = createRange(1, 4, 1, 4);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = await detectSurroundingPair(editorState, "(", { windowSize: 10 }, 2);
+
+    assert.ok(result, "Result should not be null");
+    assert.deepStrictEqual(result.startRange.start, createPosition(0, 0), "The outer parenthesis should be found");
+  });
+
+  // Tests for any-pair sources
+  test("findSurroundingPair with any quote should find the nearest quotes of any type", () => {
+    const doc = `say("it's", 'a "b" c')`;
+    const cursor = createPosition(0, 17); // Cursor on "b"
+    const selection = createRange(0, 17, 0, 17);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "javascript" };
+
+    const result = findSurroundingPair(editorState, { type: "any", kind: "quote" });
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.pairType, '"', "The double quotes in the string should be nearest");
+    assert.strictEqual(result.text, "b");
+  });
+
+  test("findSurroundingPair with any quote should ignore quotes before the cursor", () => {
+    const doc = `f('a', (b))`;
+    const cursor = createPosition(0, 8); // Cursor on "b"
+    const selection = createRange(0, 8, 0, 8);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    assert.strictEqual(findSurroundingPair(editorState, { type: "any", kind: "quote" }), null, "Quotes before the cursor should not match");
+  });
+
+  test("findSurroundingPairs with any bracket should list brackets of every type by nesting depth", () => {
+    const doc = "f({ a: [1, (2)] })";
+    const cursor = createPosition(0, 12); // Cursor on "2"
+    const selection = createRange(0, 12, 0, 12);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const results = findSurroundingPairs(editorState, { type: "any", kind: "bracket" });
+
+    assert.deepStrictEqual(
+      results.map((result) => result.pairType),
+      ["(", "[", "{", "("],
+      "Brackets should be ordered from the innermost to the outermost"
+    );
+    assert.strictEqual(
+      findSurroundingPair(editorState, { type: "any", kind: "bracket" }, 2)?.text,
+      "1, (2)",
+      "Count 2 should find the brackets"
+    );
+  });
+
+  test("findSurroundingPair with auto should find the innermost pair including tags", () => {
+    const doc = '<div title="x">(<span>text</span>)</div>';
+    const cursor = createPosition(0, 24); // Cursor on "text"
+    const selection = createRange(0, 24, 0, 24);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const results = findSurroundingPairs(editorState, { type: "any", kind: "auto" });
+
+    assert.deepStrictEqual(
+      results.map((result) => result.pairType),
+      [{ type: "tag", name: "span" }, "(", { type: "tag", name: "div" }],
+      "Tags and brackets should be ordered together"
+    );
+  });
+
+  // Tests for Markdown pairs
+  test("findSurroundingPair should find Markdown emphasis and links", () => {
+    const doc = "See **the [guide](https://example.com)** now";
+    const cursor = createPosition(0, 12); // Cursor on "guide"
+    const selection = createRange(0, 12, 0, 12);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "markdown" };
+
+    const bold = findSurroundingPair(editorState, { type: "markdown", delimiter: "**" });
+    assert.ok(bold, "Bold should be found");
+    assert.strictEqual(bold.text, "the [guide](https://example.com)");
+
+    const link = findSurroundingPair(editorState, { type: "link", url: "" });
+    assert.ok(link, "Link should be found");
+    assert.strictEqual(link.text, "guide");
+    assert.deepStrictEqual(link.pairType, { type: "link", url: "https://example.com" }, "The URL of the link should be kept");
+    assert.deepStrictEqual(link.endRange, createRange(0, 16, 0, 38));
+  });
+
+  test("findAllSurroundingPairs should list Markdown pairs instead of back quotes in Markdown", () => {
+    const doc = "a *b `code` c* d";
+    const cursor = createPosition(0, 7); // Cursor on "code"
+    const selection = createRange(0, 7, 0, 7);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "markdown" };
+
+    const results = findAllSurroundingPairs(editorState);
+
+    assert.deepStrictEqual(
+      results.map((result) => result.pairType),
+      [
+        { type: "markdown", delimiter: "*" },
+        { type: "markdown", delimiter: "`" },
+      ]
+    );
+  });
+
+  test("findAllSurroundingPairs should not treat apostrophes in Markdown words as quotes", () => {
+    const doc = "It's 'quoted' and don't";
+    const cursor = createPosition(0, 8); // Cursor on "quoted"
+    const selection = createRange(0, 8, 0, 8);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "markdown" };
+
+    const result = findSurroundingPair(editorState, "'");
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "quoted", "Apostrophes should be skipped");
+  });
+
+  test("findSurroundingPair should find a code block with the cursor anywhere in it", () => {
+    const doc = "text\n  ````ts\n  const a = 1;\n  ````\nafter";
+    const selection = createRange(0, 0, 0, 0);
+    const fence = { type: "fence", fence: "```", language: "" } as const;
+
+    for (const cursor of [createPosition(1, 0), createPosition(2, 5), createPosition(3, 6)]) {
+      const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "markdown" };
+      const result = findSurroundingPair(editorState, fence);
+
+      assert.ok(result, `Result should not be null at ${cursor.line}:${cursor.character}`);
+      assert.strictEqual(result.text, "  const a = 1;", "The content should be the lines between the fences");
+      assert.deepStrictEqual(result.startRange, createRange(1, 2, 2, 0), "The opening should include its line break");
+      assert.deepStrictEqual(result.endRange, createRange(2, 14, 3, 6), "The closing should include the line break before it");
+      assert.deepStrictEqual(result.pairType, { type: "fence", fence: "````", language: "ts" });
+    }
+
+    const outside = { ...createMockEditorState(doc, createPosition(4, 2), selection), languageId: "markdown" };
+    assert.strictEqual(findSurroundingPair(outside, fence), null, "Text after the block should not match");
+  });
+
+  test("expandToLines should cover whole lines, excluding a line the range ends at the start of", () => {
+    const doc = "  first\nsecond\nthird";
+    const editorState = createMockEditorState(doc, createPosition(0, 0), createRange(0, 0, 0, 0));
+
+    const result = expandToLines(editorState, createRange(0, 4, 2, 0));
+
+    assert.deepStrictEqual(result.range, createRange(0, 0, 1, 6));
+    assert.strictEqual(result.text, "  first\nsecond");
+  });
+
+  test("coversWholeLines should accept ranges of whole lines with or without their indentation", () => {
+    const doc = "  first\nsecond  \n\nthird";
+    const editorState = createMockEditorState(doc, createPosition(0, 0), createRange(0, 0, 0, 0));
+
+    assert.strictEqual(coversWholeLines(editorState, createRange(0, 2, 0, 7)), true);
+    assert.strictEqual(coversWholeLines(editorState, createRange(0, 0, 2, 0)), true);
+    assert.strictEqual(coversWholeLines(editorState, createRange(1, 0, 1, 6)), true);
+    assert.strictEqual(coversWholeLines(editorState, createRange(0, 3, 1, 6)), false);
+    assert.strictEqual(coversWholeLines(editorState, createRange(0, 2, 1, 3)), false);
+    assert.strictEqual(coversWholeLines(editorState, createRange(2, 0, 2, 0)), false);
+  });
+
+  test("findSurroundingPair with auto should include Markdown pairs", () => {
+    const doc = "_a (b **c**)_";
+    const cursor = createPosition(0, 8); // Cursor on "c"
+    const selection = createRange(0, 8, 0, 8);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "markdown" };
+
+    const results = findSurroundingPairs(editorState, { type: "any", kind: "auto" });
+
+    assert.deepStrictEqual(
+      results.map((result) => result.pairType),
+      [{ type: "markdown", delimiter: "**" }, "(", { type: "markdown", delimiter: "_" }]
+    );
+  });
+});
+
+suite("Core: Range Selector CRLF Test Suite", () => {
+  test('selectRange with type "_" should select the line excluding leading whitespace', () => {
+    const doc = toCrlf("line1\n    line2 with cursor\nline3");
+    const cursor = createPosition(1, 9); // Cursor on line 2
+    const selection = createRange(1, 9, 1, 9); // No actual selection
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = selectRange("_", editorState);
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(1, 4, 1, 21);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should exclude leading whitespace and the line ending");
+    assert.strictEqual(result.text, "line2 with cursor", "Text should be the content of the line without leading whitespace");
+  });
+
+  test('selectRange with type "s" should keep CRLF in the text of a multi-line selection', () => {
+    const doc = toCrlf("line1\nline2\nline3");
+    const cursor = createPosition(2, 3);
+    const selection = createRange(0, 2, 2, 3);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = selectRange("s", editorState);
+
+    assert.ok(result, "Result should not be null");
+    assert.strictEqual(result.text, "ne1\r\nline2\r\nlin", "Text should keep the line endings of the document");
+  });
+
+  test('selectRange with type "it" should handle multi-line tags', () => {
+    const doc = toCrlf("<div>\n  <p>\n    Hello\n    world\n  </p>\n</div>");
+    const cursor = createPosition(2, 5); // Cursor on the "Hello" line
+    const selection = createRange(2, 5, 2, 5);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = selectRange("it", editorState);
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(1, 5, 4, 2);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should select inner content of the multi-line tag");
+    assert.strictEqual(result.text, "\r\n    Hello\r\n    world\r\n  ", "Text should be the inner content of the multi-line tag");
+  });
+
+  test('selectRange with type "at" should select a tag on a later line', () => {
+    const doc = toCrlf("<div>\n  <p>\n    <span>Hello</span>\n  </p>\n</div>");
+    const cursor = createPosition(2, 12); // Cursor at "Hello"
+    const selection = createRange(2, 12, 2, 12);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = selectRange("at", editorState);
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(2, 4, 2, 22);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should not drift by the carriage returns of previous lines");
+    assert.strictEqual(result.text, "<span>Hello</span>", "Text should be the entire span tag");
+  });
+
+  test("findAllSurroundingPairs should detect multi-line brackets and tags", () => {
+    const doc = toCrlf("<div>\n  call(\n    'a'\n  );\n</div>");
+    const cursor = createPosition(2, 5); // Cursor inside 'a'
+    const selection = createRange(2, 5, 2, 5);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findAllSurroundingPairs(editorState);
+
+    assert.deepStrictEqual(
+      result.map((pair) => [pair.pairType, pair.range]),
+      [
+        ["'", createRange(2, 5, 2, 6)],
+        ["(", createRange(1, 7, 3, 2)],
+        ["<", createRange(0, 1, 4, 5)],
+        [{ type: "tag", name: "div" }, createRange(0, 5, 4, 0)],
+      ]
+    );
+  });
+
+  test("findSurroundingPair should not pair double quotes across lines", () => {
+    const doc = toCrlf('const a = "unterminated;\nconst b = "value";');
+    const cursor = createPosition(1, 12); // Cursor inside "value"
+    const selection = createRange(1, 12, 1, 12);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, '"');
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(1, 11, 1, 16);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should be between the quotes on the second line");
+    assert.strictEqual(result.text, "value", "Text should be 'value'");
+  });
+
+  test("findSurroundingPair should pair back quotes across lines", () => {
+    const doc = toCrlf("const text = `first\nsecond`;");
+    const cursor = createPosition(1, 2); // Cursor at "second"
+    const selection = createRange(1, 2, 1, 2);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = findSurroundingPair(editorState, "`");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(0, 14, 1, 6);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should span both lines");
+    assert.strictEqual(result.text, "first\r\nsecond", "Text should be the multi-line template content");
+  });
+
+  test("findSurroundingPair should ignore brackets inside comments", () => {
+    const doc = toCrlf("call(first, // TODO)\n  second);");
+    const cursor = createPosition(1, 3); // Cursor at "second"
+    const selection = createRange(1, 3, 1, 3);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "typescript" };
+
+    const result = findSurroundingPair(editorState, "(");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(0, 5, 1, 8);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should end at the parenthesis outside the comment");
+  });
+
+  test("findSurroundingPair should ignore quotes inside comments", () => {
+    const doc = toCrlf("# don't\nname = 'value'");
+    const cursor = createPosition(1, 10); // Cursor inside 'value'
+    const selection = createRange(1, 10, 1, 10);
+    const editorState = { ...createMockEditorState(doc, cursor, selection), languageId: "python" };
+
+    const result = findSurroundingPair(editorState, "'");
+
+    assert.ok(result, "Result should not be null");
+    const expectedRange = createRange(1, 8, 1, 13);
+    assert.deepStrictEqual(result.range, expectedRange, "Range should be between the quotes after the comment");
+  });
+
+  test("detectSurroundingPair should widen the window until a pair is found", async () => {
+    const doc = toCrlf(`(${"x".repeat(100)}\n  inner\n${"y".repeat(100)})`);
+    const cursor = createPosition(1, 4);
+    const selection = createRange(1, 4, 1, 4);
+    const editorState = createMockEditorState(doc, cursor, selection);
+
+    const result = await detectSurroundingPair(editorState, "(", { windowSize: 10 });
+
+    assert.ok(result, "Result should not be null");
+    assert.deepStrictEqual(result.startRange.start, createPosition(0, 0), "Opening parenthesis should be at the start of the document");
+    assert.deepStrictEqual(result.endRange.start, createPosition(2, 100), "Closing parenthesis should be at the end of the last line");
+  });
 });
@@ -0,0 +1,49 @@
+import * as assert from "assert";
+import { getRecipesFor, resolveRecipes, toRecipePair, type Recipe } from "../../core/recipes";
+
+suite("Core: Recipes Test Suite", () => {
+  test("resolveRecipes should fill in the defaults of a recipe", () => {
+    assert.deepStrictEqual(resolveRecipes([{ buns: ["{% ", " %}"], input: ["%"] }]), [
+      { buns: ["{% ", " %}"], input: ["%"], filetype: [], kind: ["add", "delete", "replace"], regex: false },
+    ]);
+  });
+
+  test("resolveRecipes should ignore invalid recipes", () => {
+    const recipes = resolveRecipes([
+      { buns: ["("], input: ["p"] },
+      { buns: ["(", ")"], input: [] },
+      { buns: ["(", ")"], input: ["p"], regex: true },
+      { buns: ["\\w+\\(", "\\)"], input: ["f"], regex: true, kind: ["delete", "query"] },
+      "not a recipe",
+    ]);
+
+    assert.deepStrictEqual(
+      recipes.map((recipe) => [recipe.input, recipe.kind]),
+      [[["f"], ["delete"]]]
+    );
+    assert.deepStrictEqual(resolveRecipes({ buns: ["(", ")"] }), []);
+  });
+
+  test("getRecipesFor should filter recipes by operation, language and target", () => {
+    const recipes: Recipe[] = [
+      { buns: ["{% ", " %}"], input: ["%"], filetype: ["jinja-html"], kind: ["add", "replace"], regex: false },
+      { buns: ["\\w+\\(", "\\)"], input: ["f"], filetype: [], kind: ["delete", "replace"], regex: true },
+    ];
+
+    assert.deepStrictEqual(
+      getRecipesFor(recipes, "jinja-html", "replace", "source").map((recipe) => recipe.input[0]),
+      ["%", "f"]
+    );
+    assert.deepStrictEqual(
+      getRecipesFor(recipes, "jinja-html", "replace", "destination").map((recipe) => recipe.input[0]),
+      ["%"]
+    );
+    assert.deepStrictEqual(getRecipesFor(recipes, "python", "add", "destination"), []);
+  });
+
+  test("toRecipePair should give the buns as the opening and closing", () => {
+    const [recipe] = resolveRecipes([{ buns: ["<<", ">>"], input: ["d"] }]);
+
+    assert.deepStrictEqual(toRecipePair(recipe), { type: "recipe", opening: "<<", closing: ">>", regex: false });
+  });
+});
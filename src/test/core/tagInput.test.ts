@@ -0,0 +1,51 @@
+import * as assert from "assert";
+import { addRecentTag, MAX_RECENT_TAGS, parseTagInput, suggestTagInputs, toTagPair } from "../../core/tagInput";
+import { getTextEdits } from "../../core/textManipulator";
+
+suite("Core: Tag Input Test Suite", () => {
+  test("parseTagInput should split the name and the attributes", () => {
+    assert.deepStrictEqual(parseTagInput('div class="row"'), { name: "div", attributes: 'class="row"' });
+    assert.deepStrictEqual(parseTagInput('  <a href="/" title="a > b">  '), { name: "a", attributes: 'href="/" title="a > b"' });
+    assert.deepStrictEqual(parseTagInput("Foo.Bar onClick={() => go()}"), { name: "Foo.Bar", attributes: "onClick={() => go()}" });
+    assert.deepStrictEqual(parseTagInput("my-element"), { name: "my-element", attributes: "" });
+  });
+
+  test("parseTagInput should reject text that is not a tag", () => {
+    assert.strictEqual(parseTagInput(""), null);
+    assert.strictEqual(parseTagInput('"div"'), null);
+    assert.strictEqual(parseTagInput("di@v"), null);
+    assert.strictEqual(parseTagInput('div class="row'), null);
+  });
+
+  test("toTagPair should keep the attributes in the opening tag only", () => {
+    const pair = toTagPair({ name: "div", attributes: 'class="row"' });
+    const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } };
+    const edits = getTextEdits("add", { range, startRange: range, endRange: range, text: "foo" }, pair);
+
+    assert.deepStrictEqual(pair, { type: "tag", name: "div", openingFullText: '<div class="row">' });
+    assert.deepStrictEqual(
+      edits.map((edit) => edit.newText),
+      ['<div class="row">', "</div>"]
+    );
+    assert.deepStrictEqual(toTagPair({ name: "div", attributes: "" }), { type: "tag", name: "div" });
+  });
+
+  test("suggestTagInputs should offer the recent tags, or their attributes with the name typed", () => {
+    const recentTags = ['div class="row"', 'span class="row"', 'a href="/"'];
+
+    assert.deepStrictEqual(suggestTagInputs("", recentTags), recentTags);
+    assert.deepStrictEqual(suggestTagInputs("p", recentTags), ['p class="row"', 'p href="/"']);
+    assert.deepStrictEqual(suggestTagInputs('p id="x"', recentTags), []);
+  });
+
+  test("addRecentTag should keep the tags with attributes, the most recent first", () => {
+    assert.deepStrictEqual(addRecentTag(['div class="row"', 'a href="/"'], { name: "a", attributes: 'href="/"' }), [
+      'a href="/"',
+      'div class="row"',
+    ]);
+    assert.deepStrictEqual(addRecentTag(['a href="/"'], { name: "div", attributes: "" }), ['a href="/"']);
+
+    const manyTags = Array.from({ length: MAX_RECENT_TAGS }, (_, index) => `i data-i="${index}"`);
+    assert.strictEqual(addRecentTag(manyTags, { name: "b", attributes: 'id="x"' }).length, MAX_RECENT_TAGS);
+  });
+});
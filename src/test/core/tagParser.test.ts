@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import { parseTags, type TagElement } from "../../core/tagParser";
+
+// Helper function to describe elements as [name, outer text] for readable assertions
+const describeElements = (text: string, elements: TagElement[]): [string, string][] =>
+  elements.map((element) => [element.name, text.slice(element.openingStart, element.closingEnd)]);
+
+suite("Core: Tag Parser Test Suite", () => {
+  test("parseTags should pair nested elements", () => {
+    const text = "<div><span>a</span><span>b</span></div>";
+
+    const elements = parseTags(text, "html");
+
+    assert.deepStrictEqual(describeElements(text, elements), [
+      ["div", text],
+      ["span", "<span>a</span>"],
+      ["span", "<span>b</span>"],
+    ]);
+  });
+
+  test("parseTags should treat void elements and self-closing tags as elements without content", () => {
+    const text = '<p><img src="a.png"><input /></p>';
+
+    const elements = parseTags(text, "html");
+
+    assert.deepStrictEqual(
+      elements.map((element) => [element.name, element.selfClosing]),
+      [
+        ["p", false],
+        ["img", true],
+        ["input", true],
+      ]
+    );
+  });
+
+  test("parseTags should close elements with omitted optional end tags", () => {
+    const text = "<ul><li>one<li>two</ul>";
+
+    const elements = parseTags(text, "html");
+
+    assert.deepStrictEqual(describeElements(text, elements), [
+      ["ul", text],
+      ["li", "<li>one"],
+      ["li", "<li>two"],
+    ]);
+    assert.strictEqual(elements[1].hasClosingTag, false, "Omitted end tags should be reported");
+  });
+
+  test("parseTags should close an open paragraph at a block element", () => {
+    const text = "<p>text<div>block</div>";
+
+    const elements = parseTags(text, "html");
+
+    assert.deepStrictEqual(describeElements(text, elements), [
+      ["p", "<p>text"],
+      ["div", "<div>block</div>"],
+    ]);
+  });
+
+  test("parseTags should ignore tags in comments, CDATA, DOCTYPE and raw text elements", () => {
+    const text = '<!DOCTYPE html><!-- <a> --><script>if (a < b) { "</div>" }</script><![CDATA[<b>]]>';
+
+    const elements = parseTags(text, "html");
+
+    assert.deepStrictEqual(describeElements(text, elements), [["script", '<script>if (a < b) { "</div>" }</script>']]);
+  });
+
+  test("parseTags should not pair elements that are never closed in XML", () => {
+    const text = "<root><li>item</root>";
+
+    const elements = parseTags(text, "xml");
+
+    assert.deepStrictEqual(describeElements(text, elements), [["root", text]]);
+  });
+
+  test("parseTags should pair JSX fragments and member components", () => {
+    const text = "const a = (<><Foo.Bar>x</Foo.Bar></>);";
+
+    const elements = parseTags(text, "jsx");
+
+    assert.deepStrictEqual(describeElements(text, elements), [
+      ["", "<><Foo.Bar>x</Foo.Bar></>"],
+      ["Foo.Bar", "<Foo.Bar>x</Foo.Bar>"],
+    ]);
+  });
+
+  test("parseTags should skip JSX type arguments and attribute expressions", () => {
+    const text = "return <Select<Option> onChange={(v) => v > 0} render={() => <b>{'}'}</b>}>x</Select>;";
+
+    const elements = parseTags(text, "jsx");
+
+    assert.deepStrictEqual(describeElements(text, elements), [["Select", text.slice(7, -1)]]);
+  });
+
+  test("parseTags should not treat TypeScript generics and comparisons as JSX tags", () => {
+    const text = "const list: Array<string> = []; if (a < b && c<d) { render(<div>ok</div>); }";
+
+    const elements = parseTags(text, "jsx");
+
+    assert.deepStrictEqual(describeElements(text, elements), [["div", "<div>ok</div>"]]);
+  });
+});
@@ -1,6 +1,6 @@
 import * as assert from "assert";
-import { getTextEdits } from "../../core/textManipulator";
-import type { OperationType, PairType, Range, SelectionRangeWithPairResult } from "../../core/types";
+import { getTextEdits, mergeTextEdits } from "../../core/textManipulator";
+import type { OperationType, PairType, Range, SelectionRangeWithPairResult, TextEdit } from "../../core/types";
 
 // Helper function to create a SelectionRangeWithPairResult
 const createSelectionRange = (startLine: number, startChar: number, endLine: number, endChar: number): SelectionRangeWithPairResult => {
@@ -78,6 +78,20 @@ suite("Core: Text Manipulator Test Suite", () => {
       });
       assert.strictEqual(result[1].newText, "</div>");
     });
+
+    test("should add a JSX fragment around the range", () => {
+      const result = getTextEdits("add", testRange, { type: "tag", name: "" });
+
+      assert.strictEqual(result[0].newText, "<>");
+      assert.strictEqual(result[1].newText, "</>");
+    });
+
+    test("should add the pair count times", () => {
+      const result = getTextEdits("add", testRange, divTagPair, undefined, { count: 2 });
+
+      assert.strictEqual(result[0].newText, "<div><div>");
+      assert.strictEqual(result[1].newText, "</div></div>");
+    });
   });
 
   suite("Delete Operation", () => {
@@ -214,6 +228,410 @@ suite("Core: Text Manipulator Test Suite", () => {
     });
   });
 
+  suite("Padding", () => {
+    // "( foo )" on the first line
+    const paddedParentheses: SelectionRangeWithPairResult = {
+      range: { start: { line: 0, character: 1 }, end: { line: 0, character: 6 } },
+      startRange: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+      endRange: { start: { line: 0, character: 6 }, end: { line: 0, character: 7 } },
+      text: " foo ",
+    };
+
+    test("should add delimiters longer than one character with padding", () => {
+      const result = getTextEdits("add", testRange, "<%=", undefined, { padding: true });
+
+      assert.strictEqual(result[0].newText, "<%= ");
+      assert.strictEqual(result[1].newText, " %>");
+    });
+
+    test("should add spaces inside the pair with padding", () => {
+      const result = getTextEdits("add", testRange, "(", undefined, { padding: true, count: 2 });
+
+      assert.strictEqual(result[0].newText, "( ( ");
+      assert.strictEqual(result[1].newText, " ) )");
+    });
+
+    test("should trim whitespace and line breaks around the range before adding", () => {
+      const selection: SelectionRangeWithPairResult = {
+        range: { start: { line: 0, character: 2 }, end: { line: 2, character: 0 } },
+        startRange: { start: { line: 0, character: 2 }, end: { line: 0, character: 2 } },
+        endRange: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } },
+        text: "  foo\n bar \n",
+      };
+
+      const result = getTextEdits("add", selection, "(", undefined, { trimRange: true });
+
+      assert.deepStrictEqual(result[0].range.start, { line: 0, character: 4 }, "Leading spaces should be skipped");
+      assert.deepStrictEqual(result[1].range.start, { line: 1, character: 4 }, "Trailing spaces and the line break should be skipped");
+    });
+
+    test("should keep the inner padding when deleting without trimming", () => {
+      const result = getTextEdits("delete", paddedParentheses, "(");
+
+      assert.deepStrictEqual(result[0].range, paddedParentheses.startRange);
+      assert.deepStrictEqual(result[1].range, paddedParentheses.endRange);
+    });
+
+    test("should delete the inner padding with the pair when trimming", () => {
+      const result = getTextEdits("delete", paddedParentheses, "(", undefined, { trimInnerPadding: true });
+
+      assert.deepStrictEqual(result[0].range, { start: { line: 0, character: 0 }, end: { line: 0, character: 2 } });
+      assert.deepStrictEqual(result[1].range, { start: { line: 0, character: 5 }, end: { line: 0, character: 7 } });
+    });
+
+    test("should keep the inner padding when replacing with an unpadded pair", () => {
+      const result = getTextEdits("replace", paddedParentheses, "[", "(");
+
+      assert.deepStrictEqual(result[0].range, paddedParentheses.startRange);
+      assert.strictEqual(result[0].newText, "[");
+      assert.strictEqual(result[1].newText, "]");
+    });
+
+    test("should normalise the inner padding when replacing with a padded pair", () => {
+      const result = getTextEdits("replace", { ...paddedParentheses, text: "  foo " }, "[", "(", { padding: true });
+
+      assert.deepStrictEqual(result[0].range, { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } });
+      assert.strictEqual(result[0].newText, "[ ");
+      assert.strictEqual(result[1].newText, " ]");
+    });
+  });
+
+  suite("Markdown", () => {
+    test("should add Markdown delimiters around the range", () => {
+      const result = getTextEdits("add", testRange, { type: "markdown", delimiter: "**" });
+
+      assert.strictEqual(result[0].newText, "**");
+      assert.strictEqual(result[1].newText, "**");
+    });
+
+    test("should add a link with its URL after the range", () => {
+      const result = getTextEdits("add", testRange, { type: "link", url: "https://example.com" });
+
+      assert.strictEqual(result[0].newText, "[");
+      assert.strictEqual(result[1].newText, "](https://example.com)");
+    });
+  });
+
+  suite("Code blocks", () => {
+    const fenceRange: SelectionRangeWithPairResult = {
+      range: { start: { line: 2, character: 0 }, end: { line: 2, character: 6 } },
+      startRange: { start: { line: 1, character: 2 }, end: { line: 2, character: 0 } },
+      endRange: { start: { line: 2, character: 6 }, end: { line: 3, character: 6 } },
+      text: "  code",
+    };
+
+    test("should put the fences on their own lines at the indentation of the lines", () => {
+      const result = getTextEdits("add", fenceRange, { type: "fence", fence: "```", language: "ts" }, undefined, { eol: "\r\n" });
+
+      assert.deepStrictEqual(result[0].range.start, { line: 2, character: 2 });
+      assert.strictEqual(result[0].newText, "```ts\r\n  ");
+      assert.deepStrictEqual(result[1].range.start, { line: 2, character: 6 });
+      assert.strictEqual(result[1].newText, "\r\n  ```");
+    });
+
+    test("should delete the fence lines including their indentation", () => {
+      const result = getTextEdits("delete", fenceRange, { type: "fence", fence: "````", language: "ts" });
+
+      assert.deepStrictEqual(result[0].range, { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } });
+      assert.deepStrictEqual(result[1].range, fenceRange.endRange);
+    });
+
+    test("should change only the language when replacing with a fence of the same character", () => {
+      const result = getTextEdits(
+        "replace",
+        fenceRange,
+        { type: "fence", fence: "```", language: "py" },
+        { type: "fence", fence: "````", language: "ts" }
+      );
+
+      assert.strictEqual(result[0].newText, "````py\n");
+      assert.strictEqual(result[1].newText, "\n  ````");
+    });
+  });
+
+  suite("Linewise", () => {
+    const linesRange: SelectionRangeWithPairResult = {
+      range: { start: { line: 1, character: 0 }, end: { line: 3, character: 8 } },
+      startRange: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } },
+      endRange: { start: { line: 3, character: 8 }, end: { line: 3, character: 8 } },
+      text: "    a();\n\n  b(\n    c);",
+    };
+    const at = (line: number, character: number): Range => ({ start: { line, character }, end: { line, character } });
+
+    test("should put the pair on its own lines and indent the lines inside", () => {
+      const result = getTextEdits("add", { ...linesRange, text: "  a();\n\n  b();" }, "{", undefined, { linewise: true, indentUnit: "  " });
+
+      assert.deepStrictEqual(result, [
+        { range: at(1, 0), newText: "  {\n  " },
+        { range: at(3, 0), newText: "  " },
+        { range: at(3, 8), newText: "\n  }" },
+      ]);
+    });
+
+    test("should indent the pair like the least indented line and nest repeated pairs", () => {
+      const crlfRange = { ...linesRange, text: linesRange.text?.replace(/\n/g, "\r\n") };
+      const result = getTextEdits("add", crlfRange, { type: "tag", name: "div" }, undefined, {
+        linewise: true,
+        count: 2,
+        eol: "\r\n",
+        indentUnit: "\t",
+      });
+
+      assert.deepStrictEqual(result[0], { range: at(1, 0), newText: "  <div>\r\n  \t<div>\r\n\t\t" });
+      assert.strictEqual(result[result.length - 1].newText, "\r\n  \t</div>\r\n  </div>");
+    });
+
+    test("should trim the whitespace that pads the buns of a recipe", () => {
+      const recipe = { type: "recipe", opening: "{% ", closing: " %}", regex: false } as const;
+      const result = getTextEdits("add", { ...linesRange, text: "  a();\n\n  b();" }, recipe, undefined, {
+        linewise: true,
+        indentUnit: "  ",
+      });
+
+      assert.deepStrictEqual(
+        result.map((edit) => edit.newText),
+        ["  {%\n  ", "  ", "\n  %}"]
+      );
+    });
+
+    test("should keep quotes on the lines they wrap", () => {
+      const result = getTextEdits("add", linesRange, '"', undefined, { linewise: true });
+
+      assert.deepStrictEqual(
+        result.map((edit) => edit.newText),
+        ['"', '"']
+      );
+    });
+  });
+
+  suite("Delimiter lines", () => {
+    const lines = ["  <div>", "    foo", "", "    bar", "  </div>"];
+    const divRange: SelectionRangeWithPairResult = {
+      range: { start: { line: 0, character: 7 }, end: { line: 4, character: 2 } },
+      startRange: { start: { line: 0, character: 2 }, end: { line: 0, character: 7 } },
+      endRange: { start: { line: 4, character: 2 }, end: { line: 4, character: 8 } },
+      text: "\n    foo\n\n    bar\n  ",
+    };
+    const options = { removeDelimiterLines: true, getLineText: (line: number) => lines[line] ?? "" };
+    const div: PairType = { type: "tag", name: "div" };
+    const range = (startLine: number, startChar: number, endLine: number, endChar: number): Range => ({
+      start: { line: startLine, character: startChar },
+      end: { line: endLine, character: endChar },
+    });
+
+    test("should remove the delimiter lines and dedent the lines inside when deleting", () => {
+      const result = getTextEdits("delete", divRange, div, undefined, options);
+
+      assert.deepStrictEqual(result, [
+        { range: range(0, 0, 1, 2), newText: "" },
+        { range: range(3, 0, 3, 2), newText: "" },
+        { range: range(3, 7, 4, 8), newText: "" },
+      ]);
+    });
+
+    test("should put a pair that is not linewise around the lines inside when replacing", () => {
+      const result = getTextEdits("replace", divRange, '"', div, options);
+
+      assert.deepStrictEqual(result, [
+        { range: range(0, 0, 1, 2), newText: "" },
+        { range: range(1, 4, 1, 4), newText: '"' },
+        { range: range(3, 0, 3, 2), newText: "" },
+        { range: range(3, 7, 4, 8), newText: '"' },
+      ]);
+    });
+
+    test("should keep the lines when replacing with a linewise pair or when disabled", () => {
+      assert.deepStrictEqual(
+        getTextEdits("replace", divRange, { type: "tag", name: "section" }, div, options).map((edit) => edit.range),
+        [divRange.startRange, divRange.endRange]
+      );
+      assert.deepStrictEqual(
+        getTextEdits("delete", divRange, div, undefined, { ...options, removeDelimiterLines: false }).map((edit) => edit.range),
+        [divRange.startRange, divRange.endRange]
+      );
+    });
+
+    test("should remove the line of one delimiter when the other shares its line", () => {
+      // x = [ { a: 1, }, ]; with each part on its own line
+      const objectLines = ["x = [", "  {", "    a: 1,", "  },", "];"];
+      const braceRange: SelectionRangeWithPairResult = {
+        range: range(1, 3, 3, 2),
+        startRange: range(1, 2, 1, 3),
+        endRange: range(3, 2, 3, 3),
+        text: "\n    a: 1,\n  ",
+      };
+      const result = getTextEdits("delete", braceRange, "{", undefined, {
+        ...options,
+        getLineText: (line: number) => objectLines[line] ?? "",
+      });
+
+      assert.deepStrictEqual(result, [
+        { range: range(1, 0, 2, 2), newText: "" },
+        { range: range(3, 2, 3, 3), newText: "" },
+      ]);
+    });
+
+    test("should dedent a block of many lines inside", () => {
+      const innerLines = Array.from({ length: 300000 }, () => "    a,");
+      const blockLines = ["  {", ...innerLines, "  }"];
+      const blockRange: SelectionRangeWithPairResult = {
+        range: range(0, 3, innerLines.length + 1, 2),
+        startRange: range(0, 2, 0, 3),
+        endRange: range(innerLines.length + 1, 2, innerLines.length + 1, 3),
+        text: `\n${innerLines.join("\n")}\n  `,
+      };
+      const result = getTextEdits("delete", blockRange, "{", undefined, {
+        ...options,
+        getLineText: (line: number) => blockLines[line] ?? "",
+      });
+
+      assert.strictEqual(result.length, innerLines.length + 1);
+    });
+
+    test("should keep the lines of delimiters that share their lines", () => {
+      const result = getTextEdits("delete", divRange, div, undefined, {
+        ...options,
+        getLineText: (line: number) => `x${lines[line] ?? ""}x`,
+      });
+
+      assert.deepStrictEqual(
+        result.map((edit) => edit.range),
+        [divRange.startRange, divRange.endRange]
+      );
+    });
+  });
+
+  suite("String prefixes", () => {
+    // f"""text"""
+    const prefixedRange: SelectionRangeWithPairResult = {
+      range: { start: { line: 0, character: 4 }, end: { line: 0, character: 8 } },
+      startRange: { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } },
+      endRange: { start: { line: 0, character: 8 }, end: { line: 0, character: 11 } },
+      text: "text",
+      prefixRange: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+    };
+
+    test("should keep the prefix when replacing the quotes", () => {
+      const result = getTextEdits("replace", prefixedRange, singleQuotePair, doubleQuotePair);
+
+      assert.deepStrictEqual(result[0].range, { start: { line: 0, character: 1 }, end: { line: 0, character: 4 } });
+      assert.strictEqual(result[0].newText, "'");
+      assert.deepStrictEqual(result[1].range, prefixedRange.endRange);
+    });
+
+    test("should replace the prefix along with the quotes when the new pair is not a quote", () => {
+      const result = getTextEdits("replace", prefixedRange, "(", doubleQuotePair);
+
+      assert.deepStrictEqual(result[0].range, prefixedRange.startRange);
+      assert.strictEqual(result[0].newText, "(");
+    });
+
+    test("should delete the prefix along with the quotes", () => {
+      const result = getTextEdits("delete", prefixedRange, doubleQuotePair);
+
+      assert.deepStrictEqual(result[0].range, prefixedRange.startRange);
+    });
+  });
+
+  suite("Recipes", () => {
+    test("should add the buns of a recipe", () => {
+      const result = getTextEdits("add", testRange, { type: "recipe", opening: "{% ", closing: " %}", regex: false }, undefined, {
+        count: 2,
+      });
+
+      assert.strictEqual(result[0].newText, "{% {% ");
+      assert.strictEqual(result[1].newText, " %} %}");
+    });
+  });
+
+  suite("Merging the edits of several selections", () => {
+    const edit = (line: number, start: number, end: number, newText: string): TextEdit => ({
+      range: { start: { line, character: start }, end: { line, character: end } },
+      newText,
+    });
+
+    test("should merge the edits of every selection", () => {
+      const result = mergeTextEdits([
+        [edit(0, 0, 0, '"'), edit(0, 3, 3, '"')],
+        [edit(1, 0, 0, '"'), edit(1, 3, 3, '"')],
+      ]);
+
+      assert.strictEqual(result.edits.length, 4);
+      assert.deepStrictEqual(result.skipped, []);
+    });
+
+    test("should make the same edit once", () => {
+      const result = mergeTextEdits([
+        [edit(0, 0, 1, ""), edit(0, 5, 6, "")],
+        [edit(0, 0, 1, ""), edit(0, 5, 6, "")],
+      ]);
+
+      assert.deepStrictEqual(result, { edits: [edit(0, 0, 1, ""), edit(0, 5, 6, "")], skipped: [] });
+    });
+
+    test("should keep insertions at the boundary of another edit", () => {
+      const result = mergeTextEdits([
+        [edit(0, 0, 0, "("), edit(0, 1, 1, ")")],
+        [edit(0, 1, 1, "("), edit(0, 2, 2, ")")],
+      ]);
+
+      assert.strictEqual(result.edits.length, 4);
+      assert.deepStrictEqual(result.skipped, []);
+    });
+
+    test("should make an edit equal to an edit of another pair", () => {
+      // 'a' and 'b' added around the adjacent selections a and b
+      const result = mergeTextEdits([
+        [edit(0, 0, 0, "'"), edit(0, 1, 1, "'")],
+        [edit(0, 1, 1, "'"), edit(0, 2, 2, "'")],
+      ]);
+
+      assert.deepStrictEqual(result, {
+        edits: [edit(0, 0, 0, "'"), edit(0, 1, 1, "'"), edit(0, 1, 1, "'"), edit(0, 2, 2, "'")],
+        skipped: [],
+      });
+    });
+
+    test("should order insertions at the same position whatever the order of the selections", () => {
+      // ( and ) added around foo and bar of foobar, with bar selected first
+      const result = mergeTextEdits([
+        [edit(0, 3, 3, "("), edit(0, 6, 6, ")")],
+        [edit(0, 0, 0, "("), edit(0, 3, 3, ")")],
+      ]);
+
+      assert.deepStrictEqual(result, {
+        edits: [edit(0, 0, 0, "("), edit(0, 3, 3, ")"), edit(0, 3, 3, "("), edit(0, 6, 6, ")")],
+        skipped: [],
+      });
+    });
+
+    test("should nest insertions at the same position of nested selections", () => {
+      // [ and ] added around foobar, and ( and ) around its bar
+      const result = mergeTextEdits([
+        [edit(0, 3, 3, "("), edit(0, 6, 6, ")")],
+        [edit(0, 0, 0, "["), edit(0, 6, 6, "]")],
+      ]);
+
+      assert.deepStrictEqual(result, {
+        edits: [edit(0, 0, 0, "["), edit(0, 3, 3, "("), edit(0, 6, 6, ")"), edit(0, 6, 6, "]")],
+        skipped: [],
+      });
+    });
+
+    test("should leave out a selection whose edits overlap an earlier one", () => {
+      const result = mergeTextEdits([
+        [edit(0, 0, 1, "["), edit(0, 5, 6, "]")],
+        [edit(0, 0, 1, "{"), edit(0, 5, 6, "}")],
+        [edit(0, 2, 2, "("), edit(0, 3, 3, ")")],
+      ]);
+
+      assert.deepStrictEqual(result, {
+        edits: [edit(0, 0, 1, "["), edit(0, 2, 2, "("), edit(0, 3, 3, ")"), edit(0, 5, 6, "]")],
+        skipped: [1],
+      });
+    });
+  });
+
   suite("Error Handling", () => {
     test("should throw error for unknown operation type", () => {
       assert.throws(
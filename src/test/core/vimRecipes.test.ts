@@ -0,0 +1,86 @@
+import * as assert from "assert";
+import { importVimRecipes } from "../../core/vimRecipes";
+
+suite("Core: Vim Recipes Test Suite", () => {
+  test("should import recipes of a Vim script", () => {
+    const text = [
+      '" Recipes of vim-sandwich',
+      "let g:sandwich#recipes = deepcopy(g:sandwich#default_recipes)",
+      "let g:sandwich#recipes += [",
+      "      \\   {'buns': ['{% ', ' %}'], 'input': ['%'], 'filetype': ['htmldjango']},",
+      '      \\   {"buns": ["\\"", "\\""], "nesting": 0},',
+      '      "\\ Comments may come between continuation lines',
+      "      \\   #{buns: ['''', ''''], input: ['q'], kind: ['add', 'replace']},",
+      "      \\ ]",
+    ].join("\n");
+
+    const { recipes, notes } = importVimRecipes(text, "vim");
+
+    assert.deepStrictEqual(recipes, [
+      { buns: ["{% ", " %}"], input: ["%"], filetype: ["django-html"] },
+      { buns: ['"', '"'], input: ['"'] },
+      { buns: ["'", "'"], input: ["q"], kind: ["add", "replace"] },
+    ]);
+    assert.deepStrictEqual(notes, [{ line: 5, message: 'Ignored options of recipe ["\\"","\\""]: nesting' }]);
+  });
+
+  test("should import recipes of a Lua file", () => {
+    const text = [
+      "-- Recipes of vim-sandwich",
+      "vim.g['sandwich#recipes'] = {",
+      "  { buns = { '<<', '>>' }, input = { 'a' }, filetype = { 'sh', 'all' } },",
+      "  { buns = { [[\\begin{]], [[}]] }; kind = { 'add' }, action = { 'add' } },",
+      "  --[[ { buns = { '(', ')' } }, ]]",
+      "  { ['buns'] = { \"'\", \"'\" }, ['input'] = { \"s\" }, regex = false },",
+      "}",
+    ].join("\n");
+
+    const { recipes, notes } = importVimRecipes(text, "lua");
+
+    assert.deepStrictEqual(recipes, [
+      { buns: ["<<", ">>"], input: ["a"] },
+      { buns: ["\\begin{", "}"], input: ["\\begin{", "}"], kind: ["add"] },
+      { buns: ["'", "'"], input: ["s"] },
+    ]);
+    assert.deepStrictEqual(notes, []);
+  });
+
+  test("should report recipes that cannot be imported", () => {
+    const text = [
+      "let g:sandwich#recipes = [",
+      "      \\ {'buns': ['FuncName()', '\")\"'], 'expr': 1, 'input': ['f']},",
+      "      \\ {'buns': s:buns, 'input': ['b']},",
+      "      \\ {'buns': ['\\w\\+(', ')'], 'regex': 1, 'input': ['r']},",
+      "      \\ {'external': ['it', 'at'], 'noremap': 1, 'buns': ['<', '>']},",
+      "      \\ {'buns': ['(', ')'], 'kind': ['query', 'textobj']},",
+      "      \\ {'buns': ['[ ', ' ]'], 'kind': ['all', 'textobj'], 'motionwise': ['line'], 'action': ['delete']},",
+      "      \\ ]",
+      "let g:sandwich#magicchar#f#patterns = []",
+    ].join("\n");
+
+    const { recipes, notes } = importVimRecipes(text, "vim");
+
+    assert.deepStrictEqual(recipes, [{ buns: ["[ ", " ]"], input: ["[ ", " ]"], kind: ["delete", "replace"] }]);
+    assert.deepStrictEqual(notes, [
+      { line: 2, message: 'Skipped recipe ["FuncName()","\\")\\""]: expression buns are not supported' },
+      { line: 3, message: "Skipped a recipe: expression buns are not supported" },
+      { line: 4, message: 'Skipped recipe ["\\\\w\\\\+(",")"]: Vim regular expressions are not supported' },
+      { line: 5, message: 'Skipped recipe ["<",">"]: text object recipes (external) are not supported' },
+      { line: 6, message: 'Ignored kinds of recipe ["(",")"]: query, textobj' },
+      { line: 6, message: 'Skipped recipe ["(",")"]: it is not used to add, delete or replace' },
+      { line: 7, message: 'Ignored kinds of recipe ["[ "," ]"]: textobj' },
+      { line: 7, message: 'Ignored options of recipe ["[ "," ]"]: motionwise' },
+      { line: 9, message: "Magic characters (g:sandwich#magicchar) are not supported" },
+    ]);
+  });
+
+  test("should not import recipes in comments and strings", () => {
+    const text = [
+      "\" let g:sandwich#recipes = [{'buns': ['(', ')']}]",
+      "let s:help = \"{'buns': ['(', ')']}\"",
+      "let s:recipe = {'buns': ['((', '))']} \" {'buns': ['[', ']']}",
+    ].join("\n");
+
+    assert.deepStrictEqual(importVimRecipes(text, "vim").recipes, [{ buns: ["((", "))"], input: ["((", "))"] }]);
+  });
+});
@@ -1,4 +1,9 @@
 /**
  * Re-export from the new commandHandler directory
  */
-export { executeSandwichCommand, registerSandwichCommand } from "./commandHandler/index";
+export {
+  executeSandwichCommand,
+  registerImportVimRecipesCommand,
+  registerPairManagerCommand,
+  registerSandwichCommand,
+} from "./commandHandler/index";
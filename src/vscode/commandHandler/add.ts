@@ -1,33 +1,43 @@
 import * as vscode from "vscode";
-import { selectRange } from "../../core/rangeSelector";
-import type { Range, RangeType } from "../../core/types";
+import { createHookContext, getHookItemsFor, type HookRangeType } from "../../core/hooks";
+import { getAddRange, selectCustomRange, selectRange } from "../../core/rangeSelector";
+import type { EditorState, RangeType, SelectionRangeWithPairResult } from "../../core/types";
+import { getConfig } from "../config";
 import { getHighlighter } from "../highlighter";
+import { getHooks } from "../hooks";
 import {
   ValueQuickPickItem,
   convertToVSCodeRange,
   createCommonQuickPick,
   getAndApplyTextEdits,
-  getCurrentEditorState,
+  getCurrentEditorStates,
+  getTargetPair,
   isHtmlLikeDocument,
   showDestinationPairQuickPick,
+  type EditTarget,
+  type PairTarget,
 } from "./common";
 
 /**
  * Show range type selection quick pick for add operation
+ * Range types of hooks come after the built-in ones
  */
-export async function showRangeTypeQuickPick(isHtml: boolean): Promise<RangeType | undefined> {
-  const editorState = getCurrentEditorState();
+export async function showRangeTypeQuickPick(isHtml: boolean): Promise<RangeType | HookRangeType | undefined> {
+  const editorStates = getCurrentEditorStates();
+  const editorState = editorStates.at(0);
   if (!editorState) {
     return undefined;
   }
 
   // Base range types that are always available
-  const baseRangeTypes: ValueQuickPickItem<RangeType>[] = [{ label: "_", description: "Current line", value: "_" as const }];
+  const baseRangeTypes: ValueQuickPickItem<RangeType | HookRangeType>[] = [
+    { label: "_", description: "Current line", value: "_" as const },
+  ];
 
   // Add selection option only if there is an actual selection
-  const hasSelection =
-    editorState.selection.start.line !== editorState.selection.end.line ||
-    editorState.selection.start.character !== editorState.selection.end.character;
+  const hasSelection = editorStates.some(
+    ({ selection }) => selection.start.line !== selection.end.line || selection.start.character !== selection.end.character
+  );
 
   if (hasSelection) {
     baseRangeTypes.push({ label: "s", description: "Current selection", value: "s" as const });
@@ -42,15 +52,49 @@ export async function showRangeTypeQuickPick(isHtml: boolean): Promise<RangeType
     );
   }
 
+  const hookRangeTypes = getHookItemsFor((await getHooks()).rangeTypes, editorState.languageId);
+  baseRangeTypes.push(
+    ...hookRangeTypes.map((rangeType) => ({
+      label: rangeType.key,
+      description: rangeType.description ?? "Range of .vscode/sandwich.js",
+      value: rangeType,
+    }))
+  );
+
   return await createCommonQuickPick(baseRangeTypes, "Select range type");
 }
 
+/**
+ * Select the range of a range type of a hook
+ */
+async function selectHookRange(rangeType: HookRangeType, editorState: EditorState): Promise<SelectionRangeWithPairResult | null> {
+  const range = await rangeType.select(createHookContext(editorState, "add"));
+  return range ? selectCustomRange(editorState, range) : null;
+}
+
+/**
+ * Select the range of the range type in each selection
+ * Selections without the range are left out.
+ */
+async function selectAddTargets(rangeType: RangeType | HookRangeType, editorStates: readonly EditorState[]): Promise<PairTarget[]> {
+  const targets: PairTarget[] = [];
+  for (const editorState of editorStates) {
+    const range = typeof rangeType === "string" ? selectRange(rangeType, editorState) : await selectHookRange(rangeType, editorState);
+    if (range) {
+      targets.push({ editorState, range });
+    }
+  }
+
+  return targets;
+}
+
 /**
  * Execute add operation
+ * The pair is added around the range of each selection
  */
 export async function executeAddOperation(): Promise<void> {
-  const editorState = getCurrentEditorState();
-  if (!editorState) {
+  const editorStates = getCurrentEditorStates();
+  if (editorStates.length === 0) {
     vscode.window.showErrorMessage("No active editor");
     return;
   }
@@ -65,21 +109,19 @@ export async function executeAddOperation(): Promise<void> {
   }
 
   // Get range based on range type
-  const rangeResult = selectRange(rangeType, editorState);
-  if (!rangeResult) {
-    vscode.window.showErrorMessage(`Failed to select range for type: ${rangeType}`);
+  const targets = await selectAddTargets(rangeType, editorStates);
+  if (targets.length === 0) {
+    vscode.window.showErrorMessage(`Failed to select range for type: ${typeof rangeType === "string" ? rangeType : rangeType.key}`);
     return;
   }
 
-  const targetRange: Range = rangeResult.range;
-
-  // Highlight the selected range
+  // Highlight the selected ranges
   const highlighter = getHighlighter();
-  highlighter.highlight(convertToVSCodeRange(targetRange));
+  highlighter.highlightRanges(targets.map(({ range }) => convertToVSCodeRange(range.range)));
 
   // Show pair selection for the destination
-  const destinationPair = await showDestinationPairQuickPick(isHtml);
-  if (!destinationPair) {
+  const destinationSelection = await showDestinationPairQuickPick(isHtml, undefined, targets);
+  if (!destinationSelection) {
     getHighlighter().clearHighlights();
     return;
   }
@@ -87,6 +129,21 @@ export async function executeAddOperation(): Promise<void> {
   // Clear highlights
   getHighlighter().clearHighlights();
 
+  const editTargets = targets.flatMap(({ editorState, range }, index): EditTarget[] => {
+    const destinationPair = getTargetPair(destinationSelection, index);
+    if (!destinationPair) {
+      return [];
+    }
+
+    // Code blocks wrap whole lines, and brackets, tags and recipes around whole lines go on their own lines
+    const addRange = getAddRange(editorState, range, destinationPair);
+    return [{ editorState, range: addRange.range, destinationPair, options: { linewise: addRange.linewise } }];
+  });
+
   // Apply text edits
-  await getAndApplyTextEdits("add", rangeResult, destinationPair);
+  await getAndApplyTextEdits("add", editTargets, {
+    count: destinationSelection.count,
+    padding: destinationSelection.padded,
+    trimRange: getConfig("trimSelection"),
+  });
 }
@@ -1,22 +1,68 @@
 import * as vscode from "vscode";
-import { findAllSurroundingPairs } from "../../core/rangeSelector";
-import { getTextEdits } from "../../core/textManipulator";
+import {
+  applyTextEditTransforms,
+  createHookContext,
+  getHookItemsFor,
+  resolveHookPair,
+  toHookRecipes,
+  type HookPair,
+} from "../../core/hooks";
+import { isMarkdownLanguage } from "../../core/markdown";
+import {
+  ANY_PAIR_KEYS,
+  findAutoSelectItem,
+  findKeyedItem,
+  getPairAliasKeys,
+  resolvePairKeyAliases,
+  type PairKeyAliases,
+} from "../../core/pairKeys";
+import { resolvePairList, TAG_PAIR_LIST_KEY, type PairListEntry } from "../../core/pairList";
+import { getAvailablePairKeys, getPairDefinition } from "../../core/pairs";
+import { detectAllSurroundingPairs, detectSurroundingPair, type DetectionOptions } from "../../core/rangeSelector";
+import { getRecipesFor, resolveRecipes, toRecipePair, type RecipeTarget } from "../../core/recipes";
+import { addRecentTag, parseTagInput, suggestTagInputs, toTagPair } from "../../core/tagInput";
+import { getTextEdits, mergeTextEdits } from "../../core/textManipulator";
 import type {
+  BasicPairType,
   Position as CorePosition,
   Range as CoreRange,
   EditorState,
+  FencePairType,
+  LinkPairType,
+  MarkdownDelimiter,
   OperationType,
   PairType,
+  RecipePairType,
   SelectionRangeWithPairResult,
+  SourcePairType,
+  SurroundingPairResult,
+  TagPairType,
   TextEdit,
+  TextEditOptions,
+} from "../../core/types";
+import {
+  isAnyPairType,
+  isBrackets,
+  isFencePairType,
+  isLinkPairType,
+  isMarkdownPairType,
+  isQuotes,
+  isRecipePairType,
+  isTagPairType,
+  MARKDOWN_DELIMITERS,
 } from "../../core/types";
 import { getConfig } from "../config";
+import { getDocumentText, getLineStarts, getPairIndex } from "../documentCache";
+import { getHooks } from "../hooks";
+import { getState, setState } from "../state";
 
 /**
  * Type for QuickPick items with a value property
+ * Aliases are other keys that pick the item; keys are matched case-sensitively (see findKeyedItem)
  */
 export type ValueQuickPickItem<T> = vscode.QuickPickItem & {
   value: T;
+  aliases?: readonly string[];
 };
 
 /**
@@ -55,23 +101,30 @@ export function convertToVSCodeRange(range: CoreRange): vscode.Range {
 }
 
 /**
- * Get current editor state
+ * Get the text of one indentation level from the tab settings of an editor
  */
-export function getCurrentEditorState(): EditorState | null {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
-    return null;
-  }
+function getIndentUnit(editor: vscode.TextEditor): string {
+  const { insertSpaces, indentSize, tabSize } = editor.options;
+  const size = typeof indentSize === "number" ? indentSize : typeof tabSize === "number" ? tabSize : 4;
+  return insertSpaces === false ? "\t" : " ".repeat(size);
+}
 
+/**
+ * Create the editor state of a selection of an editor
+ */
+function createEditorState(editor: vscode.TextEditor, editorSelection: vscode.Selection): EditorState {
   const document = editor.document;
   const cursorPosition: CorePosition = {
-    line: editor.selection.active.line,
-    character: editor.selection.active.character,
+    line: editorSelection.active.line,
+    character: editorSelection.active.character,
   };
-  const selection: CoreRange = convertToCoreRange(editor.selection);
+  const selection: CoreRange = convertToCoreRange(editorSelection);
 
+  // Text, line starts and pairs are cached per document version and only computed when needed
   return {
-    documentText: document.getText(),
+    get documentText() {
+      return getDocumentText(document);
+    },
     cursorPosition,
     selection,
     getLineText: (lineNumber: number) => {
@@ -80,60 +133,201 @@ export function getCurrentEditorState(): EditorState | null {
       }
       return document.lineAt(lineNumber).text;
     },
+    get lineStarts() {
+      return getLineStarts(document);
+    },
+    eol: document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n",
+    indentUnit: getIndentUnit(editor),
+    languageId: document.languageId,
+    get pairIndex() {
+      return getPairIndex(document);
+    },
+  };
+}
+
+/**
+ * Get current editor state of the primary selection
+ */
+export function getCurrentEditorState(): EditorState | null {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return null;
+  }
+
+  return createEditorState(editor, editor.selection);
+}
+
+/**
+ * Get the editor state of each selection of the active editor, the primary selection first
+ * A column selection has a selection on each line.
+ */
+export function getCurrentEditorStates(): EditorState[] {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return [];
+  }
+
+  return editor.selections.map((selection) => createEditorState(editor, selection));
+}
+
+/**
+ * Get options for detecting pairs in the active document
+ * @param token Token that aborts detection
+ */
+export function getDetectionOptions(token?: vscode.CancellationToken): DetectionOptions {
+  const document = vscode.window.activeTextEditor?.document;
+
+  return {
+    windowSize: getConfig("detectionWindowSize"),
+    getPairIndex: document && ((window) => getPairIndex(document, window)),
+    token,
   };
 }
 
+/**
+ * Value picked in a quick pick that accepts a count prefix
+ * The key is the label or alias typed to pick the value
+ */
+export type CountedValue<T> = {
+  value: T;
+  count: number;
+  key: string;
+};
+
+/**
+ * Pair picked by the user, with the count typed before its key
+ * The count selects the nesting depth of a surrounding pair, or the number of levels to add.
+ * A bracket picked with its opening key is padded like in vim-surround:
+ * spaces are added inside a new pair, and removed with an existing pair.
+ */
+export type PairSelection<T extends SourcePairType = PairType> = {
+  pair: T;
+  count: number;
+  padded: boolean;
+  /** Pair of each target range when the pair is computed from the range; undefined where none was computed */
+  targetPairs?: (T | undefined)[];
+};
+
+/**
+ * Range of a selection that an operation works on
+ */
+export type PairTarget<T extends SelectionRangeWithPairResult = SelectionRangeWithPairResult> = {
+  editorState: EditorState;
+  range: T;
+};
+
+/**
+ * Pair edited in the range of a selection
+ */
+export type EditTarget = PairTarget & {
+  destinationPair: PairType;
+  sourcePair?: PairType;
+  /** Options of this target, over the options of the operation */
+  options?: TextEditOptions;
+};
+
+/**
+ * Get the pair picked for a target range
+ * @param index Index of the target range in the ranges given to the quick pick
+ */
+export function getTargetPair<T extends SourcePairType>(selection: PairSelection<T>, index: number): T | undefined {
+  return selection.targetPairs ? selection.targetPairs[index] : selection.pair;
+}
+
 /**
  * Create a common quick pick with enhanced behavior
  * This function creates a QuickPick that can automatically select an item when there's only one option
  * based on the ENTER_TO_CONFIRM configuration
+ * When the items are still being computed, the quick pick is shown as busy until they are available
  */
 export async function createCommonQuickPick<T>(
-  items: ValueQuickPickItem<T>[],
+  items: ValueQuickPickItem<T>[] | Promise<ValueQuickPickItem<T>[]>,
   placeHolder: string,
   onFilterChange?: (value: string, quickPick: vscode.QuickPick<ValueQuickPickItem<T>>) => void
 ): Promise<T | undefined> {
+  const result = await showQuickPick(items, placeHolder, false, onFilterChange);
+  return result?.value;
+}
+
+/**
+ * Create a quick pick that accepts a count prefix like Vim (e.g. "2(" picks "(" with a count of 2)
+ * Digits typed before the item key are removed from the input and shown in the title
+ */
+export async function createCountableQuickPick<T>(
+  items: ValueQuickPickItem<T>[] | Promise<ValueQuickPickItem<T>[]>,
+  placeHolder: string
+): Promise<CountedValue<T> | undefined> {
+  return await showQuickPick(items, placeHolder, true);
+}
+
+/**
+ * Show a quick pick and resolve with the picked value and the count typed before it
+ */
+async function showQuickPick<T>(
+  items: ValueQuickPickItem<T>[] | Promise<ValueQuickPickItem<T>[]>,
+  placeHolder: string,
+  countable: boolean,
+  onFilterChange?: (value: string, quickPick: vscode.QuickPick<ValueQuickPickItem<T>>) => void
+): Promise<CountedValue<T> | undefined> {
   const quickPick = vscode.window.createQuickPick<ValueQuickPickItem<T>>();
-  quickPick.items = items;
   quickPick.placeholder = placeHolder;
 
   const enterToConfirm = getConfig("enterToConfirm");
 
-  return new Promise<T | undefined>((resolve) => {
-    let selectedValue: T | undefined;
+  return new Promise<CountedValue<T> | undefined>((resolve, reject) => {
+    let selectedValue: CountedValue<T> | undefined;
+    let isHidden = false;
+    let countText = "";
+
+    const getCount = () => (countText === "" ? 1 : parseInt(countText, 10));
 
-    // Find an item that exactly matches the input value
-    const findExactMatchItem = (items: readonly ValueQuickPickItem<T>[], value: string): ValueQuickPickItem<T> | undefined => {
-      return items.find((item) => item.label.toLowerCase() === value.toLowerCase());
+    const select = (item: ValueQuickPickItem<T>, key: string) => {
+      selectedValue = { value: item.value, count: getCount(), key };
+      quickPick.hide();
+      resolve(selectedValue);
     };
 
     // Handle auto-selection when there's an exact match or only one matching item
     const handleAutoSelection = (value: string) => {
       if (!enterToConfirm && quickPick.items.length > 0 && value) {
-        const exactMatch = findExactMatchItem(quickPick.items, value);
+        const exactMatch = findAutoSelectItem(quickPick.items, value);
         if (exactMatch) {
-          selectedValue = exactMatch.value;
-          quickPick.hide();
-          resolve(selectedValue);
+          select(exactMatch, value);
           return;
         }
       }
     };
 
+    // Move leading digits from the input to the count; a count cannot start with 0
+    const takeCount = (value: string): boolean => {
+      const digits = /^\d+/.exec(value)?.[0];
+      if (!countable || digits === undefined || (countText === "" && digits.startsWith("0"))) {
+        return false;
+      }
+
+      countText += digits;
+      quickPick.title = `Count: ${countText}`;
+      // Setting the value fires onDidChangeValue again with the rest of the input
+      quickPick.value = value.slice(digits.length);
+      return true;
+    };
+
     quickPick.onDidChangeActive((activeItems) => {
       // If ENTER_TO_CONFIRM is false, check for exact match or single active item
       if (!enterToConfirm && activeItems.length === 1 && quickPick.value) {
-        const exactMatch = findExactMatchItem(quickPick.items, quickPick.value);
+        const exactMatch = findAutoSelectItem(quickPick.items, quickPick.value);
         if (exactMatch) {
-          selectedValue = exactMatch.value;
-          quickPick.hide();
-          resolve(selectedValue);
+          select(exactMatch, quickPick.value);
           return;
         }
       }
     });
 
     quickPick.onDidChangeValue((value) => {
+      if (takeCount(value)) {
+        return;
+      }
+
       if (onFilterChange) {
         onFilterChange(value, quickPick);
       }
@@ -143,17 +337,45 @@ export async function createCommonQuickPick<T>(
     });
 
     quickPick.onDidAccept(() => {
-      const selection = quickPick.activeItems[0];
-      // selection is always truthy when onDidAccept is triggered
-      selectedValue = selection.value;
-      quickPick.hide();
+      // Aliases are not shown as labels, so an alias filters out its item and is matched here
+      const exactMatch = findKeyedItem(quickPick.items, quickPick.value);
+      const selection = quickPick.activeItems.at(0) ?? exactMatch;
+      if (selection) {
+        select(selection, selection === exactMatch ? quickPick.value : selection.label);
+      }
     });
 
     quickPick.onDidHide(() => {
+      isHidden = true;
       resolve(selectedValue);
       quickPick.dispose();
     });
 
+    if (Array.isArray(items)) {
+      quickPick.items = items;
+    } else {
+      quickPick.busy = true;
+      quickPick.placeholder = "Detecting pairs...";
+      items.then(
+        (resolvedItems) => {
+          if (isHidden) {
+            return;
+          }
+
+          quickPick.items = resolvedItems;
+          quickPick.busy = false;
+          quickPick.placeholder = placeHolder;
+
+          // Keys typed while the items were being computed are applied now
+          handleAutoSelection(quickPick.value);
+        },
+        (error: unknown) => {
+          reject(error instanceof Error ? error : new Error(String(error)));
+          quickPick.hide();
+        }
+      );
+    }
+
     quickPick.show();
   });
 }
@@ -186,143 +408,439 @@ export function isHtmlLikeDocument(): boolean {
 }
 
 /**
- * Create basic pair options for QuickPick
+ * Check if current document is JSX/TSX
+ */
+export function isJsxDocument(): boolean {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return false;
+  }
+
+  const jsxLanguages = ["javascriptreact", "typescriptreact"];
+
+  return jsxLanguages.includes(editor.document.languageId);
+}
+
+/**
+ * Check if current document is Markdown
+ */
+export function isMarkdownDocument(): boolean {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    return false;
+  }
+
+  return isMarkdownLanguage(editor.document.languageId);
+}
+
+/**
+ * Create a QuickPick item for a basic pair
+ * The alias keys of the pair are shown in the description
+ * @param entry Entry of the pair list; a label other than the key of the pair makes the key an alias
  */
-function createBasicPairOptions(): ValueQuickPickItem<PairType>[] {
-  const basicPairMap: Record<string, string> = {
-    "'": "Single quotes",
-    '"': "Double quotes",
-    "`": "Back quotes",
-    "(": "Parentheses",
-    "{": "Braces",
-    "[": "Brackets",
-    "<": "Angle brackets",
+function createBasicPairOption(
+  pairType: BasicPairType,
+  aliases: PairKeyAliases,
+  entry: PairListEntry = { key: pairType }
+): ValueQuickPickItem<PairType> {
+  const label = entry.label ?? pairType;
+  const aliasKeys = [...(label === pairType ? [] : [pairType]), ...getPairAliasKeys(aliases, pairType)];
+  const description = entry.description ?? getPairDefinition(pairType).description;
+
+  return {
+    label,
+    description: aliasKeys.length > 0 ? `${description} (also ${aliasKeys.join(" ")})` : description,
+    value: pairType,
+    aliases: aliasKeys,
   };
+}
 
-  return Object.entries(basicPairMap).map(([value, description]) => ({
-    label: value,
-    description,
-    value: value as PairType,
-  }));
+/**
+ * Get the pair list of the active document, which may be set per language
+ */
+function getPairList(): PairListEntry[] {
+  return resolvePairList(getConfig("defaultPairs", vscode.window.activeTextEditor?.document));
 }
 
 /**
- * Create HTML tag option for QuickPick
+ * Create options for QuickPick from the pair list: the basic pairs offered in the language and tags
+ */
+function createPairListOptions(languageId: string | undefined, isHtml: boolean): ValueQuickPickItem<PairType>[] {
+  const aliases = getPairKeyAliases();
+  const availableKeys = new Set<string>(getAvailablePairKeys(languageId));
+
+  return getPairList().flatMap((entry) => {
+    if (entry.key === TAG_PAIR_LIST_KEY) {
+      return createTagOptions(isHtml, entry);
+    }
+
+    return availableKeys.has(entry.key) ? [createBasicPairOption(entry.key, aliases, entry)] : [];
+  });
+}
+
+/**
+ * Descriptions of the Markdown delimiters
+ */
+const MARKDOWN_DELIMITER_DESCRIPTIONS: Record<MarkdownDelimiter, string> = {
+  "**": "Bold",
+  "*": "Italic",
+  __: "Bold (underscores)",
+  _: "Italic (underscores)",
+  "~~": "Strikethrough",
+  "`": "Code span",
+  "``": "Code span (double back quotes)",
+};
+
+/**
+ * Create a QuickPick item for a Markdown delimiter
  */
-function createHtmlTagOption(tagName = ""): ValueQuickPickItem<PairType> {
+function createMarkdownPairOption(delimiter: MarkdownDelimiter): ValueQuickPickItem<PairType> {
   return {
-    label: "t",
-    description: "HTML tag",
-    value: { type: "tag", name: tagName },
+    label: delimiter,
+    description: MARKDOWN_DELIMITER_DESCRIPTIONS[delimiter],
+    value: { type: "markdown", delimiter },
   };
 }
 
 /**
- * Show pair selection quick pick for source pair (shows only detected pairs)
+ * Link pair that is resolved by asking for the URL after selection
  */
-export async function showSourcePairQuickPick(isHtml: boolean): Promise<PairType | undefined> {
-  const editorState = getCurrentEditorState();
+const LINK_URL_PROMPT_PAIR: LinkPairType = { type: "link", url: "" };
+
+/**
+ * Create Markdown link option for QuickPick
+ */
+function createLinkOption(): ValueQuickPickItem<PairType> {
+  return {
+    label: "l",
+    description: "Link [text](url)",
+    value: LINK_URL_PROMPT_PAIR,
+  };
+}
+
+/**
+ * Create Markdown options for QuickPick based on the document type
+ */
+function createMarkdownOptions(isMarkdown: boolean): ValueQuickPickItem<PairType>[] {
+  if (!isMarkdown) {
+    return [];
+  }
+
+  return [...MARKDOWN_DELIMITERS.map(createMarkdownPairOption), createLinkOption(), ...createFenceOptions()];
+}
+
+/**
+ * Code block pairs that are resolved by asking for the language after selection
+ */
+const BACKTICK_FENCE_PROMPT_PAIR: FencePairType = { type: "fence", fence: "```", language: "" };
+const TILDE_FENCE_PROMPT_PAIR: FencePairType = { type: "fence", fence: "~~~", language: "" };
+
+/**
+ * Create Markdown code block options for QuickPick
+ */
+function createFenceOptions(): ValueQuickPickItem<PairType>[] {
+  return [
+    { label: "c", description: "Code block ```lang", value: BACKTICK_FENCE_PROMPT_PAIR },
+    { label: "~~~", description: "Code block ~~~lang", value: TILDE_FENCE_PROMPT_PAIR },
+  ];
+}
+
+/**
+ * Create QuickPick items for the recipes offered for the operation in the language
+ * The first input key of a recipe is its label and the others are aliases.
+ * Recipes come before the built-in pairs, so a recipe replaces a built-in pair with the same key.
+ * Pairs of hooks with fixed buns are offered like recipes, after the recipes of the settings.
+ */
+async function createRecipeOptions(
+  languageId: string | undefined,
+  operation: OperationType,
+  target: RecipeTarget
+): Promise<ValueQuickPickItem<RecipePairType>[]> {
+  const hookRecipes = toHookRecipes((await getHooks()).pairs);
+  const recipes = getRecipesFor([...resolveRecipes(getConfig("recipes")), ...hookRecipes], languageId, operation, target);
+
+  return recipes.map((recipe) => ({
+    label: recipe.input[0],
+    description: recipe.description ?? `${recipe.buns[0]}...${recipe.buns[1]}${recipe.regex ? " (regex)" : ""}`,
+    value: toRecipePair(recipe),
+    aliases: recipe.input.slice(1),
+  }));
+}
+
+/**
+ * Create QuickPick items for the pairs of hooks whose buns are computed when they are added
+ * Each item has a placeholder pair, which is mapped to the pair of the hook to compute after selection.
+ */
+async function createComputedHookPairOptions(
+  languageId: string | undefined
+): Promise<{ options: ValueQuickPickItem<PairType>[]; hookPairs: Map<PairType, HookPair> }> {
+  const hookPairs = new Map<PairType, HookPair>();
+  const options = getHookItemsFor((await getHooks()).pairs, languageId)
+    .filter((hookPair) => typeof hookPair.buns === "function")
+    .map((hookPair) => {
+      const placeholder: RecipePairType = { type: "recipe", opening: "", closing: "", regex: false };
+      hookPairs.set(placeholder, hookPair);
+      return { label: hookPair.key, description: hookPair.description ?? "Pair of .vscode/sandwich.js", value: placeholder };
+    });
+
+  return { options, hookPairs };
+}
+
+/**
+ * Compute the pair of a hook for the target range
+ * @param target Range the pair is put around; the selection if omitted
+ */
+async function computeHookPair(hookPair: HookPair, operation: OperationType, target?: PairTarget): Promise<RecipePairType | undefined> {
+  const editorState = target?.editorState ?? getCurrentEditorState();
   if (!editorState) {
     return undefined;
   }
 
-  // Find all surrounding pairs at the cursor position
-  const detectedPairs = findAllSurroundingPairs(editorState);
+  return await resolveHookPair(hookPair, {
+    ...createHookContext(editorState, operation),
+    range: target?.range.range ?? editorState.selection,
+    text: target?.range.text ?? "",
+  });
+}
 
-  // If no pairs were detected, show default options
-  if (detectedPairs.length === 0) {
-    return showDefaultPairOptions(isHtml);
+/**
+ * Get the key aliases of the pairs from the configuration
+ */
+function getPairKeyAliases(): PairKeyAliases {
+  return resolvePairKeyAliases(getConfig("pairKeyAliases"));
+}
+
+/**
+ * Tag pair that is resolved by asking for the tag name after selection
+ */
+const TAG_NAME_PROMPT_PAIR: TagPairType = { type: "tag", name: "" };
+
+/**
+ * JSX fragment (<>...</>)
+ */
+const FRAGMENT_PAIR: TagPairType = { type: "tag", name: "" };
+
+/**
+ * Create options for the nearest pair of any type
+ * The auto option comes first so that Enter picks the nearest pair
+ */
+function createAnyPairOptions(detectedPairs: DetectedPairInfo[]): ValueQuickPickItem<SourcePairType>[] {
+  const options: ValueQuickPickItem<SourcePairType>[] = [
+    { label: ANY_PAIR_KEYS.auto, description: "Nearest pair (auto)", value: { type: "any", kind: "auto" } },
+  ];
+
+  const basicPairTypes = detectedPairs.map((pair) => pair.pairType).filter((pairType) => typeof pairType === "string");
+  if (basicPairTypes.some(isQuotes)) {
+    options.push({ label: ANY_PAIR_KEYS.quote, description: "Nearest quotes", value: { type: "any", kind: "quote" } });
+  }
+  if (basicPairTypes.some(isBrackets)) {
+    options.push({ label: ANY_PAIR_KEYS.bracket, description: "Nearest brackets", value: { type: "any", kind: "bracket" } });
   }
 
-  // Create quick pick items from detected pairs
-  const pairs = createQuickPickItemsFromDetectedPairs(detectedPairs, isHtml);
+  return options;
+}
 
-  // Remove duplicates
-  const uniquePairs = removeDuplicatePairOptions(pairs);
+/**
+ * Check whether a key pads the pair, which is the case for the opening key of a bracket or of another balanced pair
+ */
+function isPaddingKey(pair: SourcePairType, key: string): boolean {
+  return typeof pair === "string" && !isQuotes(pair) && key === pair;
+}
 
-  const selectedValue = await createCommonQuickPick(uniquePairs, "Select pair");
+/**
+ * Get the description of a pair for messages
+ */
+export function describePair(pair: SourcePairType): string {
+  if (typeof pair === "string") {
+    return pair;
+  }
 
-  // Handle tag selection if needed
-  if (selectedValue && typeof selectedValue === "object") {
-    return await handleTagNameSelection(detectedPairs);
+  if (isAnyPairType(pair)) {
+    return { quote: "quote", bracket: "bracket", auto: "delimiter" }[pair.kind];
+  }
+
+  if (isMarkdownPairType(pair)) {
+    return pair.delimiter;
+  }
+
+  if (isLinkPairType(pair)) {
+    return "link";
+  }
+
+  if (isFencePairType(pair)) {
+    return "code block";
   }
 
-  return selectedValue;
+  if (isRecipePairType(pair)) {
+    return `${pair.opening}...${pair.closing}`;
+  }
+
+  return pair.name || "fragment";
+}
+
+/**
+ * Create HTML tag option for QuickPick
+ * @param entry Entry of the pair list; a label other than "t" makes "t" an alias
+ */
+function createHtmlTagOption(entry?: PairListEntry): ValueQuickPickItem<PairType> {
+  const label = entry?.label ?? TAG_PAIR_LIST_KEY;
+
+  return {
+    label,
+    description: entry?.description ?? "HTML tag",
+    value: TAG_NAME_PROMPT_PAIR,
+    aliases: label === TAG_PAIR_LIST_KEY ? [] : [TAG_PAIR_LIST_KEY],
+  };
+}
+
+/**
+ * Create JSX fragment option for QuickPick
+ */
+function createFragmentOption(): ValueQuickPickItem<PairType> {
+  return {
+    label: "f",
+    description: "Fragment <></>",
+    value: FRAGMENT_PAIR,
+  };
 }
 
 /**
- * Show default pair options when no pairs are detected
+ * Create tag options for QuickPick based on the document type
+ * @param entry Entry of tags in the pair list
  */
-async function showDefaultPairOptions(isHtml: boolean): Promise<PairType | undefined> {
-  const pairs = createBasicPairOptions();
+function createTagOptions(isHtml: boolean, entry?: PairListEntry): ValueQuickPickItem<PairType>[] {
+  if (!isHtml) {
+    return [];
+  }
+
+  return isJsxDocument() ? [createHtmlTagOption(entry), createFragmentOption()] : [createHtmlTagOption(entry)];
+}
 
-  // Add tag option for HTML-like files
-  if (isHtml) {
-    pairs.push(createHtmlTagOption());
+/**
+ * Show pair selection quick pick for source pair (shows only detected pairs)
+ * A count typed before the pair key selects the Nth surrounding pair
+ */
+export async function showSourcePairQuickPick(
+  isHtml: boolean,
+  operation: OperationType = "delete"
+): Promise<PairSelection<SourcePairType> | undefined> {
+  const editorState = getCurrentEditorState();
+  if (!editorState) {
+    return undefined;
   }
 
-  const selectedValue = await createCommonQuickPick(pairs, "Select pair");
+  const isMarkdown = isMarkdownDocument();
+  const recipeOptions = await createRecipeOptions(editorState.languageId, operation, "source");
+
+  // Find all surrounding pairs at the cursor position while the quick pick is shown
+  const cancellationTokenSource = new vscode.CancellationTokenSource();
+  let detectedPairs: DetectedPairInfo[] = [];
+  const items: Promise<ValueQuickPickItem<SourcePairType>[]> = detectAllSurroundingPairs(editorState, {
+    ...getDetectionOptions(cancellationTokenSource.token),
+    recipes: recipeOptions.map((option) => option.value),
+  }).then((pairs) => {
+    detectedPairs = pairs ?? [];
+
+    // If no pairs were detected, show default options
+    if (detectedPairs.length === 0) {
+      return removeDuplicatePairOptions([
+        ...recipeOptions,
+        ...createPairListOptions(editorState.languageId, isHtml),
+        ...createMarkdownOptions(isMarkdown),
+      ]);
+    }
+
+    // Create quick pick items from detected pairs and remove duplicates
+    return [
+      ...createAnyPairOptions(detectedPairs),
+      ...removeDuplicatePairOptions(createQuickPickItemsFromDetectedPairs(detectedPairs, isHtml, recipeOptions)),
+    ];
+  });
+
+  const selected = await createCountableQuickPick(items, "Select pair (type a count first for an outer pair)");
+
+  // Abort detection if the quick pick was closed before it finished
+  cancellationTokenSource.cancel();
+  cancellationTokenSource.dispose();
+
+  if (!selected) {
+    return undefined;
+  }
 
   // Handle tag selection if needed
-  if (selectedValue && typeof selectedValue === "object" && !selectedValue.name) {
-    return await promptForTagName();
+  if (selected.value === TAG_NAME_PROMPT_PAIR) {
+    const tagPair = await handleTagNameSelection(detectedPairs);
+    return tagPair && { pair: tagPair, count: selected.count, padded: false };
   }
 
-  return selectedValue;
+  return { pair: selected.value, count: selected.count, padded: isPaddingKey(selected.value, selected.key) };
 }
 
 /**
  * Create QuickPick items from detected pairs
+ * Detected recipes come first, so they take precedence over built-in pairs with the same key.
+ * Basic pairs and tags follow the pair list: pairs not in the list are left out, and the others come in its order.
+ * @param recipeOptions Options of the recipes that were detected with their pairs
  */
-function createQuickPickItemsFromDetectedPairs(detectedPairs: DetectedPairInfo[], isHtml: boolean): ValueQuickPickItem<PairType>[] {
+function createQuickPickItemsFromDetectedPairs(
+  detectedPairs: DetectedPairInfo[],
+  isHtml: boolean,
+  recipeOptions: readonly ValueQuickPickItem<RecipePairType>[]
+): ValueQuickPickItem<PairType>[] {
   const pairs: ValueQuickPickItem<PairType>[] = [];
-  const basicPairMap: Record<string, string> = {
-    "'": "Single quotes",
-    '"': "Double quotes",
-    "`": "Back quotes",
-    "()": "Parentheses",
-    "{}": "Braces",
-    "[]": "Brackets",
-    "<>": "Angle brackets",
-  };
+  const recipePairs: ValueQuickPickItem<PairType>[] = [];
+  const listedPairs: { option: ValueQuickPickItem<PairType>; order: number }[] = [];
+  const aliases = getPairKeyAliases();
+  const pairList = getPairList();
+  const tagOrder = pairList.findIndex((entry) => entry.key === TAG_PAIR_LIST_KEY);
 
   let hasTagOption = false;
+  let hasFragmentOption = false;
 
   for (const pair of detectedPairs) {
     if (typeof pair.pairType === "string") {
-      // Basic pair (quotes)
-      pairs.push({
-        label: pair.pairType,
-        description: basicPairMap[pair.pairType],
-        value: pair.pairType,
-      });
-    } else if (isHtml && !hasTagOption) {
+      // Basic pair (quotes and brackets)
+      const pairType = pair.pairType;
+      const order = pairList.findIndex((entry) => entry.key === pairType);
+      if (order !== -1) {
+        listedPairs.push({ option: createBasicPairOption(pairType, aliases, pairList[order]), order });
+      }
+    } else if (isMarkdownPairType(pair.pairType)) {
+      // Markdown emphasis, strikethrough and code spans
+      pairs.push(createMarkdownPairOption(pair.pairType.delimiter));
+    } else if (isLinkPairType(pair.pairType)) {
+      // Markdown link; the URL of the surrounding link is kept when it is the source
+      pairs.push(createLinkOption());
+    } else if (isFencePairType(pair.pairType)) {
+      // Markdown code block, with backticks or tildes
+      pairs.push({ label: "c", description: "Code block", value: pair.pairType });
+    } else if (isRecipePairType(pair.pairType)) {
+      // Recipe from the settings
+      const recipePair = pair.pairType;
+      recipePairs.push(...recipeOptions.filter((option) => option.value === recipePair));
+    } else if (tagOrder === -1) {
+      // Tags are left out of the pair list
+      continue;
+    } else if (isHtml && pair.pairType.name === "" && !hasFragmentOption) {
+      // JSX fragment (add only once)
+      listedPairs.push({ option: createFragmentOption(), order: tagOrder });
+      hasFragmentOption = true;
+    } else if (isHtml && pair.pairType.name !== "" && !hasTagOption) {
       // Tag pair (add only once)
-      pairs.push({
-        label: "t",
-        description: `HTML tag`,
-        value: pair.pairType,
-      });
+      listedPairs.push({ option: createHtmlTagOption(pairList[tagOrder]), order: tagOrder });
       hasTagOption = true;
     }
   }
 
-  return pairs;
+  const sortedListedPairs = listedPairs.toSorted((a, b) => a.order - b.order).map(({ option }) => option);
+  return [...recipePairs, ...sortedListedPairs, ...pairs];
 }
 
 /**
  * Remove duplicate pair options
  */
 function removeDuplicatePairOptions(pairs: ValueQuickPickItem<PairType>[]): ValueQuickPickItem<PairType>[] {
-  return pairs.filter(
-    (pair, index, self) =>
-      index ===
-      self.findIndex(
-        (p) =>
-          typeof p.value === typeof pair.value &&
-          (typeof p.value === "string" ? p.value === pair.value : p.value.name === (pair.value as { type: string; name: string }).name)
-      )
-  );
+  return pairs.filter((pair, index, self) => index === self.findIndex((p) => p.label === pair.label));
 }
 
 /**
@@ -355,9 +873,10 @@ function createTagNameOptions(detectedPairs: DetectedPairInfo[]): ValueQuickPick
 
   // Extract unique tag names from detected pairs
   for (const pair of detectedPairs.toReversed()) {
-    if (typeof pair.pairType === "object" && "name" in pair.pairType) {
+    if (isTagPairType(pair.pairType)) {
       const tagName = pair.pairType.name;
-      if (!tagNames.has(tagName)) {
+      // Fragments have their own option
+      if (tagName !== "" && !tagNames.has(tagName)) {
         tagNames.add(tagName);
         tagOptions.push({
           label: tagName,
@@ -372,48 +891,171 @@ function createTagNameOptions(detectedPairs: DetectedPairInfo[]): ValueQuickPick
 }
 
 /**
- * Prompt user for tag name
+ * Prompt user for tag name, with the attributes of the opening tag
+ * Tags with attributes are remembered, so that their attributes can be picked again.
  */
 async function promptForTagName(): Promise<PairType | undefined> {
-  const tagName = await vscode.window.showInputBox({
-    placeHolder: "Enter tag name",
-    prompt: "Enter tag name (e.g., div, span, p)",
+  const recentTags = getState("recentTags");
+  const input = await showTagInputQuickPick(recentTags);
+  if (!input) {
+    return undefined;
+  }
+
+  const tag = parseTagInput(input);
+  if (!tag) {
+    vscode.window.showErrorMessage(`Invalid tag: ${input}`);
+    return undefined;
+  }
+
+  await setState("recentTags", addRecentTag(recentTags, tag));
+  return toTagPair(tag);
+}
+
+/**
+ * Show a quick pick to type a tag name with attributes, offering the recent tags with attributes
+ * The text typed is the first item, so Enter picks it unless another item is chosen.
+ * @returns The text typed or picked, or undefined if the quick pick was closed
+ */
+async function showTagInputQuickPick(recentTags: readonly string[]): Promise<string | undefined> {
+  const quickPick = vscode.window.createQuickPick();
+  quickPick.placeholder = 'Enter tag name and attributes (e.g., div, span class="note")';
+
+  const updateItems = (value: string) => {
+    const typed = value.trim() ? [{ label: value.trim(), description: "Tag" }] : [];
+    const suggestions = suggestTagInputs(value, recentTags)
+      .filter((suggestion) => suggestion !== value.trim())
+      .map((suggestion) => ({ label: suggestion, description: "Recent attributes" }));
+    quickPick.items = [...typed, ...suggestions];
+  };
+
+  return new Promise<string | undefined>((resolve) => {
+    let selectedValue: string | undefined;
+
+    quickPick.onDidChangeValue(updateItems);
+
+    quickPick.onDidAccept(() => {
+      selectedValue = quickPick.activeItems.at(0)?.label ?? (quickPick.value.trim() || undefined);
+      quickPick.hide();
+    });
+
+    quickPick.onDidHide(() => {
+      resolve(selectedValue);
+      quickPick.dispose();
+    });
+
+    updateItems("");
+    quickPick.show();
+  });
+}
+
+/**
+ * Prompt user for link URL
+ */
+async function promptForLinkUrl(): Promise<PairType | undefined> {
+  const url = await vscode.window.showInputBox({
+    placeHolder: "Enter URL",
+    prompt: "Enter link URL (e.g., https://example.com)",
   });
 
-  if (!tagName) {
+  if (url === undefined) {
     return undefined;
   }
 
-  return { type: "tag", name: tagName };
+  return { type: "link", url };
 }
 
 /**
- * Show pair selection quick pick for destination pair (shows all options)
+ * Prompt user for the language of a code block
+ * The language entered is remembered as the default of the next code block
+ * @param language Language shown first, such as the language of the code block being replaced
  */
-export async function showDestinationPairQuickPick(isHtml: boolean): Promise<PairType | undefined> {
-  const pairs = createBasicPairOptions();
+async function promptForFenceLanguage(fence: string, language: string): Promise<PairType | undefined> {
+  const input = await vscode.window.showInputBox({
+    placeHolder: "Enter language (leave empty for none)",
+    prompt: "Enter code block language (e.g., ts, python, sh)",
+    value: language,
+  });
 
-  // Add tag option for HTML-like files
-  if (isHtml) {
-    pairs.push(createHtmlTagOption());
+  if (input === undefined) {
+    return undefined;
   }
 
-  const selectedValue = await createCommonQuickPick(pairs, "Select pair");
+  const trimmedLanguage = input.trim();
+  await setState("lastFenceLanguage", trimmedLanguage);
+  return { type: "fence", fence, language: trimmedLanguage };
+}
+
+/**
+ * Show pair selection quick pick for destination pair (shows all options)
+ * A count typed before the pair key adds the pair that many times
+ * @param sourcePair Pair being replaced, if any; a code block gives its language as the default of the new one
+ * @param targets Ranges the pair is put around; the pairs of hooks are computed for each of them
+ */
+export async function showDestinationPairQuickPick(
+  isHtml: boolean,
+  sourcePair?: PairType,
+  targets: readonly PairTarget[] = []
+): Promise<PairSelection | undefined> {
+  // Add tag options for HTML-like files and Markdown options for Markdown files
+  const isMarkdown = isMarkdownDocument();
+  const languageId = vscode.window.activeTextEditor?.document.languageId;
+  const operation = sourcePair ? "replace" : "add";
+  const { options: hookPairOptions, hookPairs } = await createComputedHookPairOptions(languageId);
+  const pairs = removeDuplicatePairOptions([
+    ...(await createRecipeOptions(languageId, operation, "destination")),
+    ...hookPairOptions,
+    ...createPairListOptions(languageId, isHtml),
+    ...createMarkdownOptions(isMarkdown),
+  ]);
+
+  const selected = await createCountableQuickPick(pairs, "Select pair (type a count first to add several levels)");
+
+  if (!selected) {
+    return undefined;
+  }
 
   // Handle tag selection if needed
-  if (selectedValue && typeof selectedValue === "object" && !selectedValue.name) {
-    return await promptForTagName();
+  if (selected.value === TAG_NAME_PROMPT_PAIR) {
+    const tagPair = await promptForTagName();
+    return tagPair && { pair: tagPair, count: selected.count, padded: false };
+  }
+
+  // Handle pairs computed by hooks, which are computed for each target range
+  const hookPair = hookPairs.get(selected.value);
+  if (hookPair) {
+    if (targets.length === 0) {
+      const computedPair = await computeHookPair(hookPair, operation);
+      return computedPair && { pair: computedPair, count: selected.count, padded: false };
+    }
+
+    const targetPairs = await Promise.all(targets.map((target) => computeHookPair(hookPair, operation, target)));
+    const computedPair = targetPairs.find((pair) => pair !== undefined);
+    return computedPair && { pair: computedPair, count: selected.count, padded: false, targetPairs };
   }
 
-  return selectedValue;
+  // Handle link selection if needed
+  if (selected.value === LINK_URL_PROMPT_PAIR) {
+    const linkPair = await promptForLinkUrl();
+    return linkPair && { pair: linkPair, count: selected.count, padded: false };
+  }
+
+  // Handle code block selection if needed
+  if (selected.value === BACKTICK_FENCE_PROMPT_PAIR || selected.value === TILDE_FENCE_PROMPT_PAIR) {
+    const language = sourcePair && isFencePairType(sourcePair) ? sourcePair.language : getState("lastFenceLanguage");
+    const fencePair = await promptForFenceLanguage(selected.value.fence, language);
+    return fencePair && { pair: fencePair, count: 1, padded: false };
+  }
+
+  return { pair: selected.value, count: selected.count, padded: isPaddingKey(selected.value, selected.key) };
 }
 
 /**
  * Show pair selection quick pick (legacy function for backward compatibility)
  * @deprecated Use showSourcePairQuickPick or showDestinationPairQuickPick instead
  */
-export async function showPairQuickPick(isHtml: boolean, forSource = true): Promise<PairType | undefined> {
-  return forSource ? showSourcePairQuickPick(isHtml) : showDestinationPairQuickPick(isHtml);
+export async function showPairQuickPick(isHtml: boolean, forSource = true): Promise<SourcePairType | undefined> {
+  const selected = forSource ? await showSourcePairQuickPick(isHtml) : await showDestinationPairQuickPick(isHtml);
+  return selected?.pair;
 }
 
 /**
@@ -434,19 +1076,73 @@ export async function applyTextEdits(edits: vscode.TextEdit[]): Promise<boolean>
 }
 
 /**
- * Get text edits and apply them
+ * Find the surrounding pair of each selection at the nesting depth of the count
+ * Selections without the pair are left out; a message is shown if some or all of them have none.
+ */
+export async function findSurroundingPairTargets(
+  editorStates: readonly EditorState[],
+  sourcePair: SourcePairType,
+  count: number
+): Promise<PairTarget<SurroundingPairResult>[]> {
+  const targets: PairTarget<SurroundingPairResult>[] = [];
+  for (const editorState of editorStates) {
+    const surroundingPair = await detectSurroundingPair(editorState, sourcePair, getDetectionOptions(), count);
+    if (surroundingPair) {
+      targets.push({ editorState, range: surroundingPair });
+    }
+  }
+
+  if (targets.length === 0) {
+    vscode.window.showErrorMessage(`No surrounding ${describePair(sourcePair)} pair found at cursor position`);
+  } else if (targets.length < editorStates.length) {
+    vscode.window.showWarningMessage(
+      `No surrounding ${describePair(sourcePair)} pair found at ${editorStates.length - targets.length} of ${editorStates.length} cursors`
+    );
+  }
+
+  return targets;
+}
+
+/**
+ * Get text edits for each target and apply them as one edit
+ * Edits that overlap the edits of an earlier target are left out, so the targets of the primary selection come first.
  */
 export async function getAndApplyTextEdits(
   operation: OperationType,
-  targetRange: SelectionRangeWithPairResult,
-  destinationPair: PairType,
-  sourcePair?: PairType
+  targets: readonly EditTarget[],
+  options?: TextEditOptions
 ): Promise<boolean> {
-  // Get text edits
-  const coreEdits = getTextEdits(operation, targetRange, destinationPair, sourcePair);
+  const { transforms } = await getHooks();
+  const editGroups: TextEdit[][] = [];
+  for (const { editorState, range, destinationPair, sourcePair, options: targetOptions } of targets) {
+    // Get text edits; code blocks and pairs on their own lines use the lines, line breaks and indentation of the editor
+    const coreEdits = getTextEdits(operation, range, destinationPair, sourcePair, {
+      eol: editorState.eol,
+      indentUnit: editorState.indentUnit,
+      getLineText: editorState.getLineText,
+      ...options,
+      ...targetOptions,
+    });
+
+    // Let the hooks change the edits
+    editGroups.push(
+      transforms.length > 0
+        ? await applyTextEditTransforms(transforms, coreEdits, {
+            ...createHookContext(editorState, operation),
+            destinationPair,
+            sourcePair,
+          })
+        : coreEdits
+    );
+  }
+
+  const { edits, skipped } = mergeTextEdits(editGroups);
+  if (skipped.length > 0) {
+    vscode.window.showWarningMessage(`Skipped ${skipped.length} of ${targets.length} cursors whose edits overlap another cursor`);
+  }
 
   // Convert core edits to VSCode edits
-  const vscodeEdits = coreEdits.map((edit: TextEdit) => {
+  const vscodeEdits = edits.map((edit: TextEdit) => {
     return new vscode.TextEdit(convertToVSCodeRange(edit.range), edit.newText);
   });
 
@@ -1,16 +1,22 @@
 import * as vscode from "vscode";
-import { findSurroundingPair } from "../../core/rangeSelector";
-import type { Range } from "../../core/types";
 import { getConfig } from "../config";
 import { getHighlighter } from "../highlighter";
-import { convertToVSCodeRange, getAndApplyTextEdits, getCurrentEditorState, isHtmlLikeDocument, showSourcePairQuickPick } from "./common";
+import {
+  convertToVSCodeRange,
+  findSurroundingPairTargets,
+  getAndApplyTextEdits,
+  getCurrentEditorStates,
+  isHtmlLikeDocument,
+  showSourcePairQuickPick,
+} from "./common";
 
 /**
  * Execute delete operation
+ * The surrounding pair of each selection is deleted
  */
 export async function executeDeleteOperation(): Promise<void> {
-  const editorState = getCurrentEditorState();
-  if (!editorState) {
+  const editorStates = getCurrentEditorStates();
+  if (editorStates.length === 0) {
     vscode.window.showErrorMessage("No active editor");
     return;
   }
@@ -21,27 +27,23 @@ export async function executeDeleteOperation(): Promise<void> {
   const isHtml = isHtmlLikeDocument();
 
   // Show pair selection for the source
-  const sourcePair = await showSourcePairQuickPick(isHtml);
-  if (!sourcePair) {
+  const sourceSelection = await showSourcePairQuickPick(isHtml);
+  if (!sourceSelection) {
     return;
   }
+  const { pair: sourcePair, count } = sourceSelection;
 
-  // Find surrounding pair at cursor position
-  const surroundingPair = findSurroundingPair(editorState, sourcePair);
-  if (!surroundingPair) {
-    vscode.window.showErrorMessage(
-      `No surrounding ${typeof sourcePair === "string" ? sourcePair : sourcePair.name} pair found at cursor position`
-    );
+  // Find the surrounding pairs at the nesting depth of the count
+  const targets = await findSurroundingPairTargets(editorStates, sourcePair, count);
+  if (targets.length === 0) {
     return;
   }
 
-  const targetRange: Range = surroundingPair.range;
-
   // Confirm deletion
   if (enterToConfirm) {
-    // Highlight the selected range
+    // Highlight the selected ranges
     const highlighter = getHighlighter();
-    highlighter.highlight(convertToVSCodeRange(targetRange));
+    highlighter.highlightRanges(targets.map(({ range }) => convertToVSCodeRange(range.range)));
     const confirmation = await vscode.window.showQuickPick(["Yes", "No"], { placeHolder: "Delete this pair?" });
 
     if (confirmation !== "Yes") {
@@ -54,5 +56,9 @@ export async function executeDeleteOperation(): Promise<void> {
   }
 
   // Apply text edits
-  await getAndApplyTextEdits("delete", surroundingPair, sourcePair);
+  await getAndApplyTextEdits(
+    "delete",
+    targets.map(({ editorState, range }) => ({ editorState, range, destinationPair: range.pairType })),
+    { trimInnerPadding: sourceSelection.padded, removeDelimiterLines: getConfig("removeDelimiterLines") }
+  );
 }
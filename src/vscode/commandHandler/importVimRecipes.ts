@@ -0,0 +1,57 @@
+import * as vscode from "vscode";
+import { importVimRecipes, type RecipeImportNote } from "../../core/vimRecipes";
+import { getConfig, setConfig } from "../config";
+
+/**
+ * Execute the command importing the recipes of a vim-sandwich configuration
+ * The recipes are added to the user settings, and anything that was not imported is listed in a report.
+ */
+export async function executeImportVimRecipesCommand(): Promise<void> {
+  try {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: "Import Recipes",
+      filters: { "Vim script or Lua": ["vim", "lua"], "All files": ["*"] },
+    });
+    const uri = uris?.[0];
+    if (!uri) {
+      return;
+    }
+
+    const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    const { recipes, notes } = importVimRecipes(text, uri.path.endsWith(".lua") ? "lua" : "vim");
+
+    // Keep the existing recipes, and do not add the same recipe twice
+    const existing = getConfig("recipes");
+    const existingKeys = new Set(existing.map((recipe) => JSON.stringify(recipe)));
+    const added = recipes.filter((recipe) => !existingKeys.has(JSON.stringify(recipe)));
+    if (added.length > 0) {
+      await setConfig("recipes", [...existing, ...added], true);
+    }
+
+    const skipped = notes.length > 0 ? ` See the report for ${notes.length} unsupported item(s).` : "";
+    vscode.window.showInformationMessage(`Imported ${added.length} of ${recipes.length} recipe(s).${skipped}`);
+
+    if (notes.length > 0) {
+      await showImportReport(uri, notes);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Show what was not imported in an untitled document
+ */
+async function showImportReport(uri: vscode.Uri, notes: readonly RecipeImportNote[]): Promise<void> {
+  const fileName = uri.path.slice(uri.path.lastIndexOf("/") + 1);
+  const content = [
+    `# vim-sandwich recipes not imported from ${fileName}`,
+    "",
+    ...notes.map((note) => `- Line ${note.line}: ${note.message}`),
+    "",
+  ].join("\n");
+
+  const document = await vscode.workspace.openTextDocument({ content, language: "markdown" });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
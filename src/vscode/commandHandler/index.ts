@@ -1,7 +1,9 @@
 import * as vscode from "vscode";
+import { openPairManager } from "../pairManager";
 import { executeAddOperation } from "./add";
 import { showOperationQuickPick } from "./common";
 import { executeDeleteOperation } from "./delete";
+import { executeImportVimRecipesCommand } from "./importVimRecipes";
 import { executeReplaceOperation } from "./replace";
 
 /**
@@ -43,3 +45,17 @@ export async function executeSandwichCommand(): Promise<void> {
 export function registerSandwichCommand(_context: vscode.ExtensionContext): vscode.Disposable {
   return vscode.commands.registerCommand("vscode-sandwich.execute", executeSandwichCommand);
 }
+
+/**
+ * Register the command importing vim-sandwich recipes
+ */
+export function registerImportVimRecipesCommand(_context: vscode.ExtensionContext): vscode.Disposable {
+  return vscode.commands.registerCommand("vscode-sandwich.importVimRecipes", executeImportVimRecipesCommand);
+}
+
+/**
+ * Register the command opening the pair manager panel
+ */
+export function registerPairManagerCommand(context: vscode.ExtensionContext): vscode.Disposable {
+  return vscode.commands.registerCommand("vscode-sandwich.openPairManager", () => openPairManager(context.extensionUri));
+}
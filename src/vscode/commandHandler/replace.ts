@@ -1,22 +1,25 @@
 import * as vscode from "vscode";
-import { findSurroundingPair } from "../../core/rangeSelector";
-import type { Range } from "../../core/types";
+import { getConfig } from "../config";
 import { getHighlighter } from "../highlighter";
 import {
   convertToVSCodeRange,
+  findSurroundingPairTargets,
   getAndApplyTextEdits,
-  getCurrentEditorState,
+  getCurrentEditorStates,
+  getTargetPair,
   isHtmlLikeDocument,
   showDestinationPairQuickPick,
   showSourcePairQuickPick,
+  type EditTarget,
 } from "./common";
 
 /**
  * Execute replace operation
+ * The surrounding pair of each selection is replaced
  */
 export async function executeReplaceOperation(): Promise<void> {
-  const editorState = getCurrentEditorState();
-  if (!editorState) {
+  const editorStates = getCurrentEditorStates();
+  if (editorStates.length === 0) {
     vscode.window.showErrorMessage("No active editor");
     return;
   }
@@ -25,29 +28,26 @@ export async function executeReplaceOperation(): Promise<void> {
   const isHtml = isHtmlLikeDocument();
 
   // Show pair selection for the source
-  const sourcePair = await showSourcePairQuickPick(isHtml);
-  if (!sourcePair) {
+  const sourceSelection = await showSourcePairQuickPick(isHtml, "replace");
+  if (!sourceSelection) {
     return;
   }
+  const { pair: sourcePair, count } = sourceSelection;
 
-  // Find surrounding pair at cursor position
-  const surroundingPair = findSurroundingPair(editorState, sourcePair);
-  if (!surroundingPair) {
-    vscode.window.showErrorMessage(
-      `No surrounding ${typeof sourcePair === "string" ? sourcePair : sourcePair.name} pair found at cursor position`
-    );
+  // Find the surrounding pairs at the nesting depth of the count
+  const targets = await findSurroundingPairTargets(editorStates, sourcePair, count);
+  const primaryTarget = targets.at(0);
+  if (!primaryTarget) {
     return;
   }
 
-  const targetRange: Range = surroundingPair.range;
-
-  // Highlight the selected range
+  // Highlight the selected ranges
   const highlighter = getHighlighter();
-  highlighter.highlight(convertToVSCodeRange(targetRange));
+  highlighter.highlightRanges(targets.map(({ range }) => convertToVSCodeRange(range.range)));
 
   // Show pair selection for the destination
-  const destinationPair = await showDestinationPairQuickPick(isHtml);
-  if (!destinationPair) {
+  const destinationSelection = await showDestinationPairQuickPick(isHtml, primaryTarget.range.pairType, targets);
+  if (!destinationSelection) {
     highlighter.clearHighlights();
     return;
   }
@@ -55,6 +55,16 @@ export async function executeReplaceOperation(): Promise<void> {
   // Clear highlights
   highlighter.clearHighlights();
 
+  const editTargets = targets.flatMap(({ editorState, range }, index): EditTarget[] => {
+    const destinationPair = getTargetPair(destinationSelection, index);
+    return destinationPair ? [{ editorState, range, destinationPair, sourcePair: range.pairType }] : [];
+  });
+
   // Apply text edits
-  await getAndApplyTextEdits("replace", surroundingPair, destinationPair, sourcePair);
+  await getAndApplyTextEdits("replace", editTargets, {
+    count: destinationSelection.count,
+    padding: destinationSelection.padded,
+    trimInnerPadding: sourceSelection.padded,
+    removeDelimiterLines: getConfig("removeDelimiterLines"),
+  });
 }
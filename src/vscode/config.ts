@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { DEFAULT_PAIR_LIST } from "../core/pairList";
 
 /**
  * Configuration section name for this extension
@@ -8,15 +9,28 @@ const CONFIG_SECTION = "vscodeSandwich";
 /**
  * Configuration keys
  */
-export type ConfigKey = "enterToConfirm" | "defaultPairs" | "highlightColor";
+export type ConfigKey =
+  | "enterToConfirm"
+  | "defaultPairs"
+  | "highlightColor"
+  | "detectionWindowSize"
+  | "pairKeyAliases"
+  | "trimSelection"
+  | "removeDelimiterLines"
+  | "recipes";
 
 /**
  * Default configuration values
  */
 export const DEFAULT_CONFIG = {
   enterToConfirm: false,
-  defaultPairs: ["'", '"', "`", "t"],
+  defaultPairs: DEFAULT_PAIR_LIST,
   highlightColor: "rgba(255, 255, 0, 0.3)",
+  detectionWindowSize: 50000,
+  pairKeyAliases: {},
+  trimSelection: false,
+  removeDelimiterLines: true,
+  recipes: [],
 };
 
 /**
@@ -24,17 +38,23 @@ export const DEFAULT_CONFIG = {
  */
 export type ConfigValues = {
   enterToConfirm: boolean;
-  defaultPairs: readonly string[];
+  defaultPairs: readonly unknown[];
   highlightColor: string;
+  detectionWindowSize: number;
+  pairKeyAliases: Readonly<Record<string, string | null>>;
+  trimSelection: boolean;
+  removeDelimiterLines: boolean;
+  recipes: readonly unknown[];
 };
 
 /**
  * Get a configuration value
  * @param key Configuration key
+ * @param scope Scope of the value, such as a document whose language-specific settings apply
  * @returns Configuration value
  */
-export const getConfig = <K extends ConfigKey>(key: K): ConfigValues[K] => {
-  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+export const getConfig = <K extends ConfigKey>(key: K, scope?: vscode.ConfigurationScope): ConfigValues[K] => {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION, scope);
 
   const defaultValue = DEFAULT_CONFIG[key];
   const value = config.get(key, defaultValue);
@@ -42,6 +62,25 @@ export const getConfig = <K extends ConfigKey>(key: K): ConfigValues[K] => {
   return value as unknown as ConfigValues[K];
 };
 
+/**
+ * Settings a configuration value is read from and written to
+ */
+export type ConfigTarget = "user" | "workspace";
+
+/**
+ * Get a configuration value as written in the settings that decide it, without the default
+ * @param key Configuration key
+ * @returns The value and target of the workspace settings if they set the value, otherwise those of the user settings
+ */
+export const inspectConfig = <K extends ConfigKey>(key: K): { value: ConfigValues[K] | undefined; target: ConfigTarget } => {
+  const inspected = vscode.workspace.getConfiguration(CONFIG_SECTION).inspect<ConfigValues[K]>(key);
+  if (inspected?.workspaceValue !== undefined) {
+    return { value: inspected.workspaceValue, target: "workspace" };
+  }
+
+  return { value: inspected?.globalValue, target: "user" };
+};
+
 /**
  * Set a configuration value
  * @param key Configuration key
@@ -0,0 +1,142 @@
+import * as vscode from "vscode";
+import { computeLineStarts } from "../core/lines";
+import { applyTextChanges, buildPairIndex, coversWindow, updatePairIndex, type PairIndex, type TextChange } from "../core/pairIndex";
+import type { TextWindow } from "../core/types";
+
+/**
+ * Cached text, line-start table and pair index of a document version
+ */
+type DocumentCacheEntry = {
+  version: number;
+  text: string;
+  lineStarts?: number[];
+  index?: PairIndex;
+  /** Changes made since the version, one batch per change event; they are applied to the index when it is next needed */
+  pendingChanges?: TextChange[][];
+};
+
+/**
+ * Maximum number of change events kept for an index; with more, the index is rebuilt when it is next needed
+ */
+const MAX_PENDING_CHANGE_BATCHES = 16;
+
+// Cache entries by document URI
+const documentCache = new Map<string, DocumentCacheEntry>();
+
+/**
+ * Get the cache entry of the current document version
+ * The text is copied and the pending changes are applied to the index only here, so typing does no work until the next query
+ */
+function getCacheEntry(document: vscode.TextDocument): DocumentCacheEntry {
+  const key = document.uri.toString();
+  const entry = documentCache.get(key);
+  if (entry?.version === document.version) {
+    return entry;
+  }
+
+  const text = document.getText();
+  const index = entry?.index && entry.pendingChanges ? updateIndex(entry.index, entry.pendingChanges, text) : undefined;
+  const newEntry: DocumentCacheEntry = { version: document.version, text, index };
+  documentCache.set(key, newEntry);
+  return newEntry;
+}
+
+/**
+ * Apply batches of changes to a pair index one after another
+ * @param text Text after the last batch
+ * @returns The updated index, or undefined if it must be rebuilt
+ */
+function updateIndex(index: PairIndex, changeBatches: readonly TextChange[][], text: string): PairIndex | undefined {
+  let updated: PairIndex | null = index;
+  for (const [batchIndex, changes] of changeBatches.entries()) {
+    const isLastBatch = batchIndex === changeBatches.length - 1;
+    updated = updatePairIndex(updated, isLastBatch ? text : applyTextChanges(updated.documentText, changes), changes);
+    if (!updated) {
+      return undefined;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Get the text of a document
+ * The text is copied from the document once per version
+ * @param document The document
+ * @returns The full document text
+ */
+export function getDocumentText(document: vscode.TextDocument): string {
+  return getCacheEntry(document).text;
+}
+
+/**
+ * Get the line-start table of a document
+ * @param document The document
+ * @returns Offset at which each line starts
+ */
+export function getLineStarts(document: vscode.TextDocument): readonly number[] {
+  const entry = getCacheEntry(document);
+  entry.lineStarts ??= computeLineStarts(entry.text);
+  return entry.lineStarts;
+}
+
+/**
+ * Get the pair index of a document
+ * The cached index is reused while the document version is unchanged and it covers the window,
+ * so detection and editing share one index
+ * @param document The document
+ * @param window Part of the document to index; the whole document by default
+ * @returns The pair index of the current document version
+ */
+export function getPairIndex(document: vscode.TextDocument, window?: TextWindow): PairIndex {
+  const entry = getCacheEntry(document);
+  const requestedWindow = window ?? { start: 0, end: entry.text.length };
+  if (entry.index?.languageId === document.languageId && coversWindow(entry.index, requestedWindow)) {
+    return entry.index;
+  }
+
+  entry.index = buildPairIndex(entry.text, document.languageId, requestedWindow);
+  return entry.index;
+}
+
+/**
+ * Record the changes of a changed document
+ * Offsets of the pair index are shifted on the next query when the changes keep the structure of the document,
+ * otherwise the index is rebuilt on demand
+ * @param event The change event
+ */
+function handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+  const { document, contentChanges } = event;
+  const key = document.uri.toString();
+  const entry = documentCache.get(key);
+  if (!entry || entry.version === document.version || contentChanges.length === 0) {
+    return;
+  }
+
+  // Without an index there is nothing to update; the text is copied again when it is next needed
+  const pendingChanges = entry.pendingChanges ?? [];
+  if (!entry.index || pendingChanges.length >= MAX_PENDING_CHANGE_BATCHES) {
+    documentCache.delete(key);
+    return;
+  }
+
+  pendingChanges.push(
+    contentChanges.map((change) => ({ offset: change.rangeOffset, removedLength: change.rangeLength, insertedText: change.text }))
+  );
+  entry.pendingChanges = pendingChanges;
+}
+
+/**
+ * Register the listeners that keep the document cache up to date
+ * @returns Disposable that unregisters the listeners and clears the cache
+ */
+export function registerDocumentCache(): vscode.Disposable {
+  return vscode.Disposable.from(
+    vscode.workspace.onDidChangeTextDocument(handleDocumentChange),
+    vscode.workspace.onDidCloseTextDocument((document) => documentCache.delete(document.uri.toString())),
+    {
+      dispose: () => {
+        documentCache.clear();
+      },
+    }
+  );
+}
@@ -0,0 +1,113 @@
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { activateHookModule, mergeHooks, NO_HOOKS, type SandwichHooks } from "../core/hooks";
+
+/**
+ * Path of the hook module in a workspace folder
+ */
+const HOOK_MODULE_PATH = ".vscode/sandwich.js";
+
+/**
+ * Files of the hook module and the modules it may require from the .vscode directory; a change to them loads the hooks again
+ */
+const HOOK_HELPER_MODULES_GLOB = "**/.vscode/**/*.{js,cjs}";
+
+// Hooks of the workspace, loaded again when a hook module changes
+let hooks: SandwichHooks = NO_HOOKS;
+let loadingHooks: Promise<void> = Promise.resolve();
+
+/**
+ * Get the hooks registered by the hook modules of the workspace
+ * Hooks being loaded are waited for; there are none unless the workspace is trusted.
+ */
+export async function getHooks(): Promise<SandwichHooks> {
+  await loadingHooks;
+  return hooks;
+}
+
+/**
+ * Load the hook module of each workspace folder
+ * Hook modules run code from the workspace, so they are only loaded in a trusted workspace.
+ */
+async function loadHooks(): Promise<void> {
+  if (!vscode.workspace.isTrusted) {
+    hooks = NO_HOOKS;
+    return;
+  }
+
+  const loadedHooks: SandwichHooks[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const uri = vscode.Uri.joinPath(folder.uri, HOOK_MODULE_PATH);
+    if (uri.scheme !== "file" || !(await fileExists(uri))) {
+      continue;
+    }
+
+    try {
+      loadedHooks.push(await activateHookModule(requireFresh(uri.fsPath)));
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to load ${HOOK_MODULE_PATH} of ${folder.name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  hooks = mergeHooks(loadedHooks);
+}
+
+/**
+ * Check whether a file exists
+ */
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load a CommonJS module, dropping the cached module and the modules it requires so that changes to them are picked up
+ * Packages under node_modules are kept cached.
+ */
+function requireFresh(modulePath: string): unknown {
+  const requireModule = createRequire(modulePath);
+  const evict = (module: NodeJS.Module | undefined) => {
+    // Modules already evicted are no longer cached, so cycles end
+    if (!module || !(module.id in requireModule.cache) || module.id.split(path.sep).includes("node_modules")) {
+      return;
+    }
+    Reflect.deleteProperty(requireModule.cache, module.id);
+    module.children.forEach(evict);
+  };
+
+  evict(requireModule.cache[requireModule.resolve(modulePath)]);
+  return requireModule(modulePath);
+}
+
+/**
+ * Register the listeners that load the hook modules again when they or their modules change, or the workspace becomes trusted
+ * @returns Disposable that unregisters the listeners and drops the hooks
+ */
+export function registerHooks(): vscode.Disposable {
+  const reload = () => {
+    loadingHooks = loadingHooks.then(loadHooks);
+  };
+  const watcher = vscode.workspace.createFileSystemWatcher(HOOK_HELPER_MODULES_GLOB);
+  reload();
+
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidCreate(reload),
+    watcher.onDidChange(reload),
+    watcher.onDidDelete(reload),
+    vscode.workspace.onDidGrantWorkspaceTrust(reload),
+    vscode.workspace.onDidChangeWorkspaceFolders(reload),
+    {
+      dispose: () => {
+        hooks = NO_HOOKS;
+      },
+    }
+  );
+}
@@ -6,8 +6,22 @@
 // Re-export from config
 export { ConfigKey, getConfig } from "./config";
 
+// Re-export from state
+export { getState, initializeState, setState } from "./state";
+
 // Re-export from highlighter
 export { disposeHighlighter, getHighlighter } from "./highlighter";
 
+// Re-export from documentCache
+export { getDocumentText, getLineStarts, getPairIndex, registerDocumentCache } from "./documentCache";
+
+// Re-export from hooks
+export { getHooks, registerHooks } from "./hooks";
+
 // Re-export from commandHandler
-export { executeSandwichCommand, registerSandwichCommand } from "./commandHandler";
+export {
+  executeSandwichCommand,
+  registerImportVimRecipesCommand,
+  registerPairManagerCommand,
+  registerSandwichCommand,
+} from "./commandHandler";
@@ -0,0 +1,235 @@
+import { randomUUID } from "node:crypto";
+import * as vscode from "vscode";
+import { runPairTest } from "../core/pairTester";
+import { isPairKey, PAIR_DEFINITIONS, PAIR_KEYS } from "../core/pairs";
+import { resolveRecipes, toRecipePair } from "../core/recipes";
+import type { OperationType, SourcePairType } from "../core/types";
+import type { PairManagerMessage, PairManagerPanelMessage, PairManagerState, PairRow } from "../webview/pairManagerMessages";
+import { getConfig, inspectConfig, onConfigChange, setConfig, type ConfigTarget } from "./config";
+import { getHooks } from "./hooks";
+
+// Panel shown by the command, reused while it is open
+let currentPanel: vscode.WebviewPanel | undefined;
+
+// Operations a pair is offered in, unless it can only be added
+const ALL_OPERATIONS: readonly OperationType[] = ["add", "delete", "replace"];
+
+/**
+ * Open the panel listing the built-in pairs and editing the recipes of the settings
+ * @param extensionUri URI of the extension, where the script of the panel is loaded from
+ */
+export async function openPairManager(extensionUri: vscode.Uri): Promise<void> {
+  if (currentPanel) {
+    currentPanel.reveal();
+    return;
+  }
+
+  const languageId = vscode.window.activeTextEditor?.document.languageId;
+  const scriptRoot = vscode.Uri.joinPath(extensionUri, "dist", "webview");
+  const panel = vscode.window.createWebviewPanel("vscodeSandwich.pairManager", "Sandwich Pairs", vscode.ViewColumn.Active, {
+    enableScripts: true,
+    localResourceRoots: [scriptRoot],
+  });
+  currentPanel = panel;
+
+  const postMessage = async (message: PairManagerPanelMessage) => {
+    await panel.webview.postMessage(message);
+  };
+  const postState = async () => {
+    await postMessage({ type: "state", state: await createState(languageId) });
+  };
+
+  const configListener = onConfigChange((event) => {
+    if (event.affectsConfiguration("vscodeSandwich.recipes")) {
+      void postState();
+    }
+  });
+  panel.onDidDispose(() => {
+    configListener.dispose();
+    currentPanel = undefined;
+  });
+
+  panel.webview.onDidReceiveMessage(async (message: PairManagerMessage) => {
+    try {
+      switch (message.type) {
+        case "ready":
+          await postState();
+          break;
+        case "save":
+          await postMessage(await saveRecipes(message.recipes, message.target));
+          break;
+        case "test":
+          await postMessage({ type: "testResult", result: runTest(message) });
+          break;
+      }
+    } catch (error) {
+      // Failures such as settings that cannot be written are shown in the panel
+      await postMessage({ type: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  panel.webview.html = getWebviewHtml(panel.webview, vscode.Uri.joinPath(scriptRoot, "pairManager.js"));
+}
+
+/**
+ * Create the state of the panel from the pair registry, the hooks and the settings
+ */
+async function createState(languageId: string | undefined): Promise<PairManagerState> {
+  const builtInRows: PairRow[] = PAIR_KEYS.map((key) => {
+    const definition = PAIR_DEFINITIONS[key];
+    const excluded = "excludedLanguages" in definition ? `All except ${definition.excludedLanguages.join(", ")}` : "";
+    return {
+      key,
+      description: `${definition.description}: ${definition.opening}...${definition.closing}`,
+      languages: "languages" in definition ? definition.languages.join(", ") : excluded,
+      operations: ALL_OPERATIONS,
+      source: "Built-in",
+    };
+  });
+  const hookRows: PairRow[] = (await getHooks()).pairs.map((pair) => ({
+    key: pair.key,
+    description: pair.description ?? (typeof pair.buns === "function" ? "Computed pair" : `${pair.buns[0]}...${pair.buns[1]}`),
+    languages: pair.languages?.join(", ") ?? "",
+    // Computed buns cannot be found around the cursor
+    operations: typeof pair.buns === "function" ? ["add"] : ALL_OPERATIONS,
+    source: "Hook",
+  }));
+
+  const { value: recipes, target: recipesTarget } = inspectConfig("recipes");
+  return { pairs: [...builtInRows, ...hookRows], recipes: recipes ?? [], recipesTarget, languageId };
+}
+
+/**
+ * Save the recipes edited in the panel to the settings they were read from
+ * Nothing is saved while a recipe is not valid, so that no recipe is silently dropped
+ * @returns The message telling the panel whether the recipes were saved
+ */
+async function saveRecipes(recipes: unknown[], target: ConfigTarget): Promise<PairManagerPanelMessage> {
+  const invalidRows = recipes.flatMap((recipe, index) => (resolveRecipes([recipe]).length === 0 ? [index + 1] : []));
+  if (invalidRows.length > 0) {
+    return {
+      type: "error",
+      message: `Recipe ${invalidRows.join(", ")} needs keys, an opening and a closing text, and valid regular expressions if regex is on`,
+    };
+  }
+
+  await setConfig("recipes", recipes, target === "user");
+  return { type: "saved" };
+}
+
+/**
+ * Get the pair referenced by the test area
+ */
+function resolvePairReference(reference: string, recipes: readonly unknown[]): SourcePairType | undefined {
+  if (reference === "*") {
+    return { type: "any", kind: "auto" };
+  }
+
+  if (reference.startsWith("fence:")) {
+    return { type: "fence", fence: reference.slice("fence:".length), language: "" };
+  }
+
+  if (reference.startsWith("recipe:")) {
+    const recipe = resolveRecipes([recipes[Number(reference.slice("recipe:".length))]]).at(0);
+    return recipe && toRecipePair(recipe);
+  }
+
+  return isPairKey(reference) ? reference : undefined;
+}
+
+/**
+ * Run an operation of the test area on its sample text
+ */
+function runTest(message: Extract<PairManagerMessage, { type: "test" }>) {
+  const destinationPair = resolvePairReference(message.destination, message.recipes);
+
+  return runPairTest({
+    sample: message.sample,
+    operation: message.operation,
+    sourcePair: resolvePairReference(message.source, message.recipes),
+    destinationPair: typeof destinationPair === "object" && destinationPair.type === "any" ? undefined : destinationPair,
+    languageId: message.languageId || undefined,
+    count: message.count,
+    removeDelimiterLines: getConfig("removeDelimiterLines"),
+    trimRange: getConfig("trimSelection"),
+  });
+}
+
+/**
+ * Get the HTML of the panel
+ * The script is built from src/webview/pairManager.ts.
+ */
+function getWebviewHtml(webview: vscode.Webview, scriptUri: vscode.Uri): string {
+  const nonce = randomUUID();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Sandwich Pairs</title>
+  <style>
+    body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 1em; }
+    th, td { border-bottom: 1px solid var(--vscode-panel-border); padding: 4px; text-align: left; }
+    input[type="text"], textarea, select {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      box-sizing: border-box;
+    }
+    input[type="text"] { width: 100%; }
+    textarea { width: 100%; font-family: var(--vscode-editor-font-family); }
+    button {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: none;
+      padding: 4px 10px;
+      cursor: pointer;
+    }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px; white-space: pre-wrap; }
+    .status { margin-left: 1em; }
+    .error { color: var(--vscode-errorForeground); }
+  </style>
+</head>
+<body>
+  <h2>Pairs</h2>
+  <table>
+    <thead><tr><th>Key</th><th>Pair</th><th>Languages</th><th>Operations</th><th>Source</th></tr></thead>
+    <tbody id="pairs"></tbody>
+  </table>
+
+  <h2>Recipes</h2>
+  <p id="recipesTarget"></p>
+  <table>
+    <thead>
+      <tr><th>Keys</th><th>Opening</th><th>Closing</th><th>Languages</th><th>Operations</th><th>Regex</th><th>Description</th><th></th></tr>
+    </thead>
+    <tbody id="recipes"></tbody>
+  </table>
+  <button id="add">Add recipe</button>
+  <button id="save">Save to settings</button>
+  <span id="status" class="status"></span>
+
+  <h2>Test</h2>
+  <p>Mark the cursor with |, or the range to add a pair around with two |.</p>
+  <textarea id="sample" rows="4">foo(b|ar)</textarea>
+  <p>
+    <select id="operation">
+      <option value="add">Add</option>
+      <option value="delete" selected>Delete</option>
+      <option value="replace">Replace</option>
+    </select>
+    <label>Find <select id="source"></select></label>
+    <label>Add <select id="destination"></select></label>
+    <label>Count <input id="count" type="number" min="1" value="1" style="width: 4em"></label>
+    <label>Language <input id="language" type="text" style="width: 10em"></label>
+    <button id="run">Run</button>
+  </p>
+  <pre id="result"></pre>
+
+  <script nonce="${nonce}" src="${webview.asWebviewUri(scriptUri).toString()}"></script>
+</body>
+</html>`;
+}
@@ -0,0 +1,53 @@
+import * as vscode from "vscode";
+
+/**
+ * State keys
+ * State is remembered across sessions, unlike configuration it is not set by the user
+ */
+export type StateKey = "lastFenceLanguage" | "recentTags";
+
+/**
+ * Type for state values
+ */
+export type StateValues = {
+  lastFenceLanguage: string;
+  /** Tags with attributes added recently as typed (e.g. `div class="row"`), the most recent first */
+  recentTags: readonly string[];
+};
+
+/**
+ * Default state values
+ */
+const DEFAULT_STATE: StateValues = {
+  lastFenceLanguage: "",
+  recentTags: [],
+};
+
+let globalState: vscode.Memento | undefined;
+
+/**
+ * Initialize the state with the global state of the extension
+ * @param context Extension context
+ */
+export const initializeState = (context: vscode.ExtensionContext): void => {
+  globalState = context.globalState;
+};
+
+/**
+ * Get a state value
+ * @param key State key
+ * @returns State value, or the default value if the state is not initialized
+ */
+export const getState = <K extends StateKey>(key: K): StateValues[K] => {
+  return globalState?.get(key, DEFAULT_STATE[key]) ?? DEFAULT_STATE[key];
+};
+
+/**
+ * Set a state value
+ * @param key State key
+ * @param value State value
+ * @returns Promise that resolves when the state is updated
+ */
+export const setState = async <K extends StateKey>(key: K, value: StateValues[K]): Promise<void> => {
+  await globalState?.update(key, value);
+};
@@ -0,0 +1,311 @@
+import type { PairTestResult } from "../core/pairTester";
+import type { OperationType } from "../core/types";
+import type { PairManagerMessage, PairManagerPanelMessage, PairManagerState, PairRow } from "./pairManagerMessages";
+
+/**
+ * API of the webview given to the script of the pair manager panel
+ * The script only edits the recipes and renders the state; finding and editing pairs runs in the extension.
+ */
+declare function acquireVsCodeApi(): { postMessage: (message: PairManagerMessage) => void };
+
+/**
+ * Recipe being edited, with the properties written in the settings
+ */
+type EditedRecipe = Record<string, unknown>;
+
+const vscode = acquireVsCodeApi();
+const OPERATIONS: readonly OperationType[] = ["add", "delete", "replace"];
+
+// Code blocks offered in the test area, referenced as "fence:<fence>"
+const FENCE_OPTIONS = [
+  { fence: "```", label: "c  Code block ```" },
+  { fence: "~~~", label: "~~~  Code block ~~~" },
+];
+
+let pairs: PairRow[] = [];
+let recipes: EditedRecipe[] = [];
+let recipesTarget: PairManagerState["recipesTarget"] = "user";
+let dirty = false;
+
+/**
+ * Get an element of the panel, checking its type
+ */
+function byId<T extends HTMLElement>(id: string, type: new () => T): T {
+  const element = document.getElementById(id);
+  if (!(element instanceof type)) {
+    throw new Error(`No ${type.name} with the id ${id}`);
+  }
+  return element;
+}
+
+function words(value: string): string[] {
+  return value.split(" ").filter((word) => word !== "");
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function setStatus(text: string, isError: boolean): void {
+  const status = byId("status", HTMLElement);
+  status.textContent = text;
+  status.className = isError ? "status error" : "status";
+}
+
+function markDirty(): void {
+  dirty = true;
+  setStatus("Unsaved changes", false);
+  renderPairOptions();
+}
+
+function cell(content: string | Node): HTMLTableCellElement {
+  const td = document.createElement("td");
+  td.append(content);
+  return td;
+}
+
+function textInput(value: string, onInput: (value: string) => void): HTMLInputElement {
+  const input = document.createElement("input");
+  input.type = "text";
+  input.value = value;
+  input.addEventListener("input", () => {
+    onInput(input.value);
+    markDirty();
+  });
+  return input;
+}
+
+function checkbox(checked: boolean, onChange: (checked: boolean) => void): HTMLInputElement {
+  const input = document.createElement("input");
+  input.type = "checkbox";
+  input.checked = checked;
+  input.addEventListener("change", () => {
+    onChange(input.checked);
+    markDirty();
+  });
+  return input;
+}
+
+function button(text: string, title: string, onClick: () => void): HTMLButtonElement {
+  const element = document.createElement("button");
+  element.textContent = text;
+  element.title = title;
+  element.addEventListener("click", onClick);
+  return element;
+}
+
+/**
+ * Set an optional property of a recipe, leaving it out when it has its default value
+ */
+function setOptional(recipe: EditedRecipe, key: string, value: unknown, isDefault: boolean): void {
+  if (isDefault) {
+    Reflect.deleteProperty(recipe, key);
+  } else {
+    recipe[key] = value;
+  }
+}
+
+function renderPairs(): void {
+  byId("pairs", HTMLElement).replaceChildren(
+    ...pairs.map((pair) => {
+      const row = document.createElement("tr");
+      row.append(
+        cell(pair.key),
+        cell(pair.description),
+        cell(pair.languages || "All"),
+        cell(pair.operations.join(", ")),
+        cell(pair.source)
+      );
+      return row;
+    })
+  );
+}
+
+/**
+ * Create the checkboxes of the operations a recipe is offered in
+ * A recipe offered in every operation has no kind.
+ */
+function operationCheckboxes(recipe: EditedRecipe): HTMLSpanElement {
+  const getKinds = () => (Array.isArray(recipe.kind) ? asList(recipe.kind) : OPERATIONS);
+  const operations = document.createElement("span");
+  for (const operation of OPERATIONS) {
+    const label = document.createElement("label");
+    label.append(
+      checkbox(getKinds().includes(operation), (checked) => {
+        const kinds = getKinds();
+        const next = OPERATIONS.filter((item) => (item === operation ? checked : kinds.includes(item)));
+        setOptional(recipe, "kind", next, next.length === OPERATIONS.length);
+      }),
+      `${operation} `
+    );
+    operations.append(label);
+  }
+  return operations;
+}
+
+function renderRecipes(): void {
+  byId("recipes", HTMLElement).replaceChildren(
+    ...recipes.map((recipe, index) => {
+      const buns = asList(recipe.buns);
+      const actions = document.createElement("span");
+      actions.append(
+        button("↑", "Move up", () => {
+          moveRecipe(index, -1);
+        }),
+        button("↓", "Move down", () => {
+          moveRecipe(index, 1);
+        }),
+        button("✕", "Remove", () => {
+          recipes.splice(index, 1);
+          markDirty();
+          renderRecipes();
+        })
+      );
+
+      const row = document.createElement("tr");
+      row.append(
+        cell(textInput(asList(recipe.input).join(" "), (value) => (recipe.input = words(value)))),
+        cell(textInput(buns.at(0) ?? "", (value) => (recipe.buns = [value, asList(recipe.buns).at(1) ?? ""]))),
+        cell(textInput(buns.at(1) ?? "", (value) => (recipe.buns = [asList(recipe.buns).at(0) ?? "", value]))),
+        cell(
+          textInput(asList(recipe.filetype).join(" "), (value) => {
+            setOptional(recipe, "filetype", words(value), words(value).length === 0);
+          })
+        ),
+        cell(operationCheckboxes(recipe)),
+        cell(
+          checkbox(recipe.regex === true, (checked) => {
+            setOptional(recipe, "regex", true, !checked);
+          })
+        ),
+        cell(
+          textInput(typeof recipe.description === "string" ? recipe.description : "", (value) => {
+            setOptional(recipe, "description", value, value === "");
+          })
+        ),
+        cell(actions)
+      );
+      return row;
+    })
+  );
+  renderPairOptions();
+}
+
+function moveRecipe(index: number, offset: number): void {
+  const target = index + offset;
+  if (target < 0 || target >= recipes.length) {
+    return;
+  }
+  const [recipe] = recipes.splice(index, 1);
+  recipes.splice(target, 0, recipe);
+  markDirty();
+  renderRecipes();
+}
+
+function option(value: string, label: string): HTMLOptionElement {
+  const element = document.createElement("option");
+  element.value = value;
+  element.textContent = label;
+  return element;
+}
+
+/**
+ * Render the pairs the test area can find and add
+ * Regex recipes can only be found, and the pair chosen before is kept if it is still offered.
+ */
+function renderPairOptions(): void {
+  const recipeOptions = (forDestination: boolean) =>
+    recipes.flatMap((recipe, index) => {
+      if (forDestination && recipe.regex === true) {
+        return [];
+      }
+      const buns = asList(recipe.buns);
+      const label = `${asList(recipe.input).at(0) ?? "?"}  ${buns.at(0) ?? ""}...${buns.at(1) ?? ""} (recipe)`;
+      return [option(`recipe:${index}`, label)];
+    });
+  const fenceOptions = () => FENCE_OPTIONS.map(({ fence, label }) => option(`fence:${fence}`, label));
+  const builtInOptions = () =>
+    pairs.filter((pair) => pair.source === "Built-in").map((pair) => option(pair.key, `${pair.key}  ${pair.description}`));
+
+  for (const [id, forDestination] of [
+    ["source", false],
+    ["destination", true],
+  ] as const) {
+    const select = byId(id, HTMLSelectElement);
+    const selected = select.value;
+    select.replaceChildren(
+      ...(forDestination ? [] : [option("*", "n  Nearest pair")]),
+      ...recipeOptions(forDestination),
+      ...builtInOptions(),
+      ...fenceOptions()
+    );
+    if (Array.from(select.options).some((item) => item.value === selected)) {
+      select.value = selected;
+    }
+  }
+}
+
+function showTestResult(result: PairTestResult): void {
+  const element = byId("result", HTMLElement);
+  element.className = result.ok ? "" : "error";
+  element.textContent = result.ok
+    ? (result.foundText === undefined ? "" : `Inside the pair: ${result.foundText}\n\n`) + result.text
+    : result.message;
+}
+
+byId("add", HTMLElement).addEventListener("click", () => {
+  recipes.push({ buns: ["", ""], input: [] });
+  markDirty();
+  renderRecipes();
+});
+
+byId("save", HTMLElement).addEventListener("click", () => {
+  vscode.postMessage({ type: "save", recipes, target: recipesTarget });
+});
+
+byId("run", HTMLElement).addEventListener("click", () => {
+  vscode.postMessage({
+    type: "test",
+    sample: byId("sample", HTMLTextAreaElement).value,
+    operation: byId("operation", HTMLSelectElement).value as OperationType,
+    source: byId("source", HTMLSelectElement).value,
+    destination: byId("destination", HTMLSelectElement).value,
+    languageId: byId("language", HTMLInputElement).value.trim(),
+    count: Math.max(1, Number(byId("count", HTMLInputElement).value) || 1),
+    recipes,
+  });
+});
+
+window.addEventListener("message", (event: MessageEvent<PairManagerPanelMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "state": {
+      pairs = message.state.pairs;
+      const language = byId("language", HTMLInputElement);
+      if (!language.value) {
+        language.value = message.state.languageId ?? "";
+      }
+      // Recipes being edited are kept when the settings change, and saved to the settings they were read from
+      if (!dirty) {
+        recipes = message.state.recipes.map((recipe) => (typeof recipe === "object" && recipe !== null ? { ...recipe } : {}));
+        recipesTarget = message.state.recipesTarget;
+        byId("recipesTarget", HTMLElement).textContent = `Editing the recipes of the ${recipesTarget} settings`;
+      }
+      renderPairs();
+      renderRecipes();
+      break;
+    }
+    case "saved":
+      dirty = false;
+      setStatus("Saved", false);
+      break;
+    case "error":
+      setStatus(message.message, true);
+      break;
+    case "testResult":
+      showTestResult(message.result);
+      break;
+  }
+});
+
+vscode.postMessage({ type: "ready" });
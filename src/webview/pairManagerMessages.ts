@@ -0,0 +1,56 @@
+import type { PairTestResult } from "../core/pairTester";
+import type { OperationType } from "../core/types";
+
+/**
+ * Row of the list of pairs that cannot be edited in the panel
+ */
+export type PairRow = {
+  key: string;
+  description: string;
+  /** Languages offering the pair; every language if empty */
+  languages: string;
+  /** Operations the pair is offered in */
+  operations: readonly OperationType[];
+  source: "Built-in" | "Hook";
+};
+
+/**
+ * State sent to the panel
+ */
+export type PairManagerState = {
+  pairs: PairRow[];
+  /** Recipes as written in the settings they are edited in */
+  recipes: readonly unknown[];
+  /** Settings the recipes are read from and saved to: the workspace settings if they set recipes, otherwise the user settings */
+  recipesTarget: "user" | "workspace";
+  /** Language of the active editor, used as the default language of the test area */
+  languageId?: string;
+};
+
+/**
+ * Messages sent by the panel
+ * Pairs of the test area are referenced by their built-in key, "*" for the nearest pair,
+ * "fence:<fence>" for a code block, or "recipe:<index>".
+ */
+export type PairManagerMessage =
+  | { type: "ready" }
+  | { type: "save"; recipes: unknown[]; target: "user" | "workspace" }
+  | {
+      type: "test";
+      sample: string;
+      operation: OperationType;
+      source: string;
+      destination: string;
+      languageId: string;
+      count: number;
+      recipes: unknown[];
+    };
+
+/**
+ * Messages sent to the panel
+ */
+export type PairManagerPanelMessage =
+  | { type: "state"; state: PairManagerState }
+  | { type: "saved" }
+  | { type: "error"; message: string }
+  | { type: "testResult"; result: PairTestResult };
@@ -0,0 +1,124 @@
+/**
+ * Types of the API given to the hook module `.vscode/sandwich.js`
+ * Copy this file next to the hook module, add `// @ts-check` to the module,
+ * and annotate its activate function with `@param {import("./sandwich").SandwichHookApi} sandwich`.
+ */
+
+/**
+ * Position in a document; lines and characters start at 0
+ */
+export type Position = {
+  line: number;
+  character: number;
+};
+
+/**
+ * Range of a document
+ */
+export type Range = {
+  start: Position;
+  end: Position;
+};
+
+/**
+ * Change of the document text made by an operation
+ */
+export type TextEdit = {
+  range: Range;
+  newText: string;
+};
+
+export type OperationType = "add" | "delete" | "replace";
+
+/**
+ * Pair of an operation
+ * A built-in pair is its key (e.g. "(" or "'"); the other pairs are objects told apart by their type.
+ */
+export type PairType =
+  | string
+  | { type: "tag"; name: string; openingFullText?: string }
+  | { type: "markdown"; delimiter: string }
+  | { type: "link"; url: string }
+  | { type: "fence"; fence: string; language: string }
+  | { type: "recipe"; opening: string; closing: string; regex: boolean };
+
+/**
+ * Document and cursor given to the functions of a hook
+ */
+export type HookContext = {
+  operation: OperationType;
+  /** Language identifier of the document */
+  languageId?: string;
+  documentText: string;
+  cursorPosition: Position;
+  selection: Range;
+  getLineText: (lineNumber: number) => string;
+};
+
+/**
+ * Context of a pair computed by a hook, with the range the pair is put around
+ */
+export type HookPairContext = HookContext & {
+  range: Range;
+  /** Text of the range */
+  text: string;
+};
+
+/**
+ * Opening and closing text of a pair
+ */
+export type HookBuns = readonly [string, string];
+
+/**
+ * Pair registered by a hook
+ */
+export type HookPair = {
+  /** Key that picks the pair */
+  key: string;
+  description?: string;
+  /** Languages offering the pair; every language if omitted */
+  languages?: readonly string[];
+  /**
+   * Opening and closing text, or a function computing them when the pair is added; nothing is added if it gives undefined
+   * Fixed buns are also found around the cursor like a recipe, while computed buns can only be added.
+   */
+  buns: HookBuns | ((context: HookPairContext) => HookBuns | undefined | Promise<HookBuns | undefined>);
+};
+
+/**
+ * Range type registered by a hook, offered when adding a pair
+ */
+export type HookRangeType = {
+  /** Key that picks the range type */
+  key: string;
+  description?: string;
+  /** Languages offering the range type; every language if omitted */
+  languages?: readonly string[];
+  /** Computes the range to add the pair around; nothing is added if it gives undefined */
+  select: (context: HookContext) => Range | undefined | Promise<Range | undefined>;
+};
+
+/**
+ * Context of a text edit transform, with the pairs of the operation
+ */
+export type TextEditTransformContext = HookContext & {
+  destinationPair: PairType;
+  sourcePair?: PairType;
+};
+
+/**
+ * Function changing the text edits of an operation before they are applied; undefined keeps the edits
+ */
+export type TextEditTransform = (
+  edits: TextEdit[],
+  context: TextEditTransformContext
+) => TextEdit[] | undefined | Promise<TextEdit[] | undefined>;
+
+/**
+ * API given to a hook module
+ */
+export type SandwichHookApi = {
+  registerPair: (pair: HookPair) => void;
+  registerRangeType: (rangeType: HookRangeType) => void;
+  registerTextEditTransform: (transform: TextEditTransform) => void;
+};